@@ -0,0 +1,278 @@
+/**
+ * Suspicion scoring for player input: input rate, timestamp drift and impossible turns
+ */
+
+import { GAME_CONFIG, Vector2 } from './types';
+
+export enum SuspicionReason {
+  INPUT_RATE = 'input-rate',
+  TIMESTAMP_DRIFT = 'timestamp-drift',
+  IMPOSSIBLE_TURN = 'impossible-turn',
+}
+
+/** What to do with a player, from least to most severe */
+export enum AntiCheatAction {
+  NONE = 'none',
+  LOG = 'log',
+  IGNORE_INPUT = 'ignore-input',
+  KICK = 'kick',
+}
+
+export interface AntiCheatConfig {
+  /** Inputs per second before the rate counts as suspicious */
+  maxInputsPerSecond: number;
+  /** Input timestamps further in the future than this cannot come from a synced clock */
+  maxFutureMs: number;
+  /** One-way delay beyond which an input timestamp is not believable */
+  maxLatencyMs: number;
+  /** How far an input's delay may stray from the player's usual delay */
+  maxDriftMs: number;
+  /** Fastest believable turn, in radians per second, while the stick is pushed hard */
+  maxTurnRate: number;
+  /** Suspicion lost per second of good behaviour */
+  scoreDecayPerSecond: number;
+  /** Suspicion added for each anomaly */
+  weights: Record<SuspicionReason, number>;
+  /**
+   * Highest score timestamp anomalies can push a player to on their own. A worse network route
+   * looks like drift for a while, it should get a player logged, not ignored or kicked.
+   */
+  maxTimestampScore: number;
+  /** Action taken once a player's score reaches each threshold, in ascending score order */
+  thresholds: { score: number; action: AntiCheatAction }[];
+}
+
+export interface InputVerdict {
+  action: AntiCheatAction;
+  reasons: SuspicionReason[];
+  score: number;
+  /** False if the input's timestamp should not be used for lag compensation */
+  trustTimestamp: boolean;
+}
+
+export interface AntiCheatMetrics {
+  trackedPlayers: number;
+  flags: Record<SuspicionReason, number>;
+  actions: Partial<Record<AntiCheatAction, number>>;
+}
+
+interface PlayerRecord {
+  score: number;
+  updatedAt: number;
+  windowStart: number;
+  windowInputs: number;
+  lastInputAt: number | null;
+  lastClientTimestamp: number | null;
+  averageLatency: number | null;
+  latencySamples: number;
+  lastDirection: Vector2 | null;
+}
+
+export const DEFAULT_ANTI_CHEAT_CONFIG: AntiCheatConfig = {
+  // A 120Hz touch screen sends one input per frame
+  maxInputsPerSecond: GAME_CONFIG.TARGET_FPS * 2,
+  maxFutureMs: 100,
+  maxLatencyMs: 1000,
+  maxDriftMs: 300,
+  // Half a turn in 50ms
+  maxTurnRate: Math.PI / 0.05,
+  scoreDecayPerSecond: 1,
+  weights: {
+    [SuspicionReason.INPUT_RATE]: 5,
+    [SuspicionReason.TIMESTAMP_DRIFT]: 2,
+    [SuspicionReason.IMPOSSIBLE_TURN]: 1,
+  },
+  maxTimestampScore: 20,
+  thresholds: [
+    { score: 10, action: AntiCheatAction.LOG },
+    { score: 30, action: AntiCheatAction.IGNORE_INPUT },
+    { score: 60, action: AntiCheatAction.KICK },
+  ],
+};
+
+// Turn allowed between any two inputs, however close together
+const TURN_ALLOWANCE = Math.PI / 4;
+// Only turns made with the stick pushed at least this far are checked, a stick passing through the centre can flip instantly
+const TURN_CHECK_MIN_MAGNITUDE = 0.7;
+// Delay samples needed before drift from the average is judged
+const MIN_LATENCY_SAMPLES = 5;
+// Weight of the newest sample in the running delay average
+const LATENCY_SMOOTHING = 0.1;
+
+/**
+ * Anti Cheat
+ * Watches each player's input stream and keeps a suspicion score that decays over time.
+ * Anomalies raise the score, and the score decides the action (log, ignore inputs or kick).
+ */
+export class AntiCheat {
+  private config: AntiCheatConfig;
+  private players = new Map<string, PlayerRecord>(); // playerId -> input history
+  private flags = { [SuspicionReason.INPUT_RATE]: 0, [SuspicionReason.TIMESTAMP_DRIFT]: 0, [SuspicionReason.IMPOSSIBLE_TURN]: 0 };
+  private actions: Partial<Record<AntiCheatAction, number>> = {};
+
+  constructor(config: Partial<AntiCheatConfig> = {}) {
+    this.config = { ...DEFAULT_ANTI_CHEAT_CONFIG, ...config };
+  }
+
+  /**
+   * Check one input and decide what to do with the player.
+   * `clientTimestamp` is the client's estimate of server time, if it has one.
+   */
+  checkInput(playerId: string, direction: Vector2, clientTimestamp?: number, now: number = Date.now()): InputVerdict {
+    const record = this.getRecord(playerId, now);
+    this.decay(record, now);
+
+    const reasons: SuspicionReason[] = [];
+
+    if (this.checkInputRate(record, now)) {
+      reasons.push(SuspicionReason.INPUT_RATE);
+    }
+
+    const trustTimestamp = clientTimestamp === undefined || this.checkTimestamp(record, clientTimestamp, now);
+    if (!trustTimestamp) {
+      reasons.push(SuspicionReason.TIMESTAMP_DRIFT);
+    }
+
+    // Time between inputs as the client sent them, arrival times bunch up with network jitter
+    const inputTime = trustTimestamp && clientTimestamp !== undefined ? clientTimestamp : now;
+    const previousInputTime = record.lastClientTimestamp ?? record.lastInputAt;
+    if (previousInputTime !== null && this.isImpossibleTurn(record.lastDirection, direction, inputTime - previousInputTime)) {
+      reasons.push(SuspicionReason.IMPOSSIBLE_TURN);
+    }
+
+    for (const reason of reasons) {
+      const weight = this.config.weights[reason];
+      record.score += reason === SuspicionReason.TIMESTAMP_DRIFT
+        ? Math.min(weight, Math.max(0, this.config.maxTimestampScore - record.score))
+        : weight;
+      this.flags[reason]++;
+    }
+
+    record.lastInputAt = now;
+    record.lastClientTimestamp = trustTimestamp && clientTimestamp !== undefined ? clientTimestamp : null;
+    record.lastDirection = { ...direction };
+
+    const action = this.actionFor(record.score);
+    if (action !== AntiCheatAction.NONE) {
+      this.actions[action] = (this.actions[action] ?? 0) + 1;
+    }
+
+    return { action, reasons, score: record.score, trustTimestamp };
+  }
+
+  /**
+   * Current suspicion score for a player
+   */
+  getScore(playerId: string, now: number = Date.now()): number {
+    const record = this.players.get(playerId);
+    if (!record) return 0;
+
+    this.decay(record, now);
+    return record.score;
+  }
+
+  /**
+   * Forget a player who has left
+   */
+  removePlayer(playerId: string): void {
+    this.players.delete(playerId);
+  }
+
+  /**
+   * Anomaly and action counts
+   */
+  getMetrics(): AntiCheatMetrics {
+    return {
+      trackedPlayers: this.players.size,
+      flags: { ...this.flags },
+      actions: { ...this.actions }
+    };
+  }
+
+  private getRecord(playerId: string, now: number): PlayerRecord {
+    let record = this.players.get(playerId);
+    if (!record) {
+      record = {
+        score: 0,
+        updatedAt: now,
+        windowStart: now,
+        windowInputs: 0,
+        lastInputAt: null,
+        lastClientTimestamp: null,
+        averageLatency: null,
+        latencySamples: 0,
+        lastDirection: null
+      };
+      this.players.set(playerId, record);
+    }
+    return record;
+  }
+
+  private decay(record: PlayerRecord, now: number): void {
+    const elapsedSeconds = Math.max(0, now - record.updatedAt) / 1000;
+    record.score = Math.max(0, record.score - elapsedSeconds * this.config.scoreDecayPerSecond);
+    record.updatedAt = now;
+  }
+
+  /**
+   * Count inputs in one second windows, flagging a window once when it goes over
+   */
+  private checkInputRate(record: PlayerRecord, now: number): boolean {
+    if (now - record.windowStart >= 1000) {
+      record.windowStart = now;
+      record.windowInputs = 0;
+    }
+
+    record.windowInputs++;
+    return record.windowInputs === this.config.maxInputsPerSecond + 1;
+  }
+
+  /**
+   * Whether a timestamp is believable: not from the future, not absurdly old,
+   * not going backwards and close to the delay this player usually has
+   */
+  private checkTimestamp(record: PlayerRecord, clientTimestamp: number, now: number): boolean {
+    const latency = now - clientTimestamp;
+
+    if (latency < -this.config.maxFutureMs || latency > this.config.maxLatencyMs) {
+      return false;
+    }
+
+    if (record.lastClientTimestamp !== null && clientTimestamp < record.lastClientTimestamp) {
+      return false;
+    }
+
+    const drifted = record.averageLatency !== null && record.latencySamples >= MIN_LATENCY_SAMPLES &&
+      Math.abs(latency - record.averageLatency) > this.config.maxDriftMs;
+
+    // Drifted samples still count, so a lasting change in the player's delay becomes their new normal
+    record.averageLatency = record.averageLatency === null
+      ? latency
+      : record.averageLatency + (latency - record.averageLatency) * LATENCY_SMOOTHING;
+    record.latencySamples++;
+    return !drifted;
+  }
+
+  private isImpossibleTurn(previous: Vector2 | null, direction: Vector2, elapsedMs: number): boolean {
+    if (!previous) return false;
+    if (Math.hypot(previous.x, previous.y) < TURN_CHECK_MIN_MAGNITUDE) return false;
+    if (Math.hypot(direction.x, direction.y) < TURN_CHECK_MIN_MAGNITUDE) return false;
+
+    const angle = Math.abs(Math.atan2(
+      previous.x * direction.y - previous.y * direction.x,
+      previous.x * direction.x + previous.y * direction.y
+    ));
+
+    return angle > TURN_ALLOWANCE + this.config.maxTurnRate * Math.max(0, elapsedMs) / 1000;
+  }
+
+  private actionFor(score: number): AntiCheatAction {
+    let action = AntiCheatAction.NONE;
+    for (const threshold of this.config.thresholds) {
+      if (score >= threshold.score) {
+        action = threshold.action;
+      }
+    }
+    return action;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * AI controller for server-side bot players
+ */
+
+import { BotDifficulty, Dot, GAME_CONFIG, PlayerData, RoomSettings, Vector2 } from './types';
+import { DEFAULT_ROOM_SETTINGS } from './roomSettings';
+import { add, createVector2, distance, normalize, randomFloat, scale, subtract } from './utils';
+
+/** Tuning for each difficulty level */
+interface BotProfile {
+  /** How often the bot re-evaluates its target (ms) */
+  reactionTimeMs: number;
+  /** How far the bot can see other spinners and dots */
+  visionRadius: number;
+  /** Maximum random error applied to the chosen direction (radians) */
+  aimError: number;
+  /** Whether the bot leads moving prey instead of aiming at where it is now */
+  leadsTargets: boolean;
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  [BotDifficulty.EASY]: { reactionTimeMs: 600, visionRadius: 180, aimError: 0.6, leadsTargets: false },
+  [BotDifficulty.MEDIUM]: { reactionTimeMs: 300, visionRadius: 260, aimError: 0.3, leadsTargets: false },
+  [BotDifficulty.HARD]: { reactionTimeMs: 120, visionRadius: 360, aimError: 0.1, leadsTargets: true },
+};
+
+// Distance from the arena edge at which bots start steering back inward
+const WALL_AVOID_MARGIN = 60;
+
+/**
+ * Bot Controller
+ * Decides where a bot's spinner should head: flee larger spinners, chase smaller ones, otherwise collect dots
+ */
+export class BotController {
+  private playerId: string;
+  private difficulty: BotDifficulty;
+  private profile: BotProfile;
+  private nextDecisionAt: number = 0;
+
+  constructor(playerId: string, difficulty: BotDifficulty = GAME_CONFIG.BOT_DEFAULT_DIFFICULTY) {
+    this.playerId = playerId;
+    this.difficulty = difficulty;
+    this.profile = BOT_PROFILES[difficulty];
+  }
+
+  /**
+   * Write a new target direction onto the bot's spinner if it is time to decide again
+   */
+  update(
+    bot: PlayerData,
+    players: Iterable<PlayerData>,
+    dots: Dot[],
+    now: number = Date.now(),
+    settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+  ): void {
+    if (!bot.isAlive || now < this.nextDecisionAt) return;
+
+    this.nextDecisionAt = now + this.profile.reactionTimeMs;
+    bot.spinner.targetDirection = this.decideDirection(bot, Array.from(players), dots, settings);
+  }
+
+  /**
+   * Pick a unit direction for the bot to move in
+   */
+  decideDirection(
+    bot: PlayerData,
+    players: PlayerData[],
+    dots: Dot[],
+    settings: RoomSettings = DEFAULT_ROOM_SETTINGS
+  ): Vector2 {
+    const position = bot.spinner.position;
+    const visible = players.filter(other =>
+      other.id !== bot.id &&
+      other.isAlive &&
+      distance(position, other.spinner.position) <= this.profile.visionRadius
+    );
+
+    const threats = visible.filter(other => other.spinner.size >= bot.spinner.size * settings.eliminationRatio);
+    const prey = visible.filter(other => bot.spinner.size >= other.spinner.size * settings.eliminationRatio);
+
+    let direction: Vector2;
+
+    if (threats.length > 0) {
+      direction = this.fleeFrom(position, threats);
+    } else if (prey.length > 0) {
+      direction = this.chase(position, this.nearest(position, prey));
+    } else {
+      direction = this.seekDot(position, dots, settings);
+    }
+
+    direction = add(direction, this.wallAvoidance(position, settings));
+    return this.applyAimError(normalize(direction));
+  }
+
+  private fleeFrom(position: Vector2, threats: PlayerData[]): Vector2 {
+    // Closer threats push harder
+    return threats.reduce((total, threat) => {
+      const away = subtract(position, threat.spinner.position);
+      const dist = Math.max(distance(position, threat.spinner.position), 1);
+      return add(total, scale(normalize(away), this.profile.visionRadius / dist));
+    }, createVector2(0, 0));
+  }
+
+  private chase(position: Vector2, target: PlayerData): Vector2 {
+    let aimPoint = target.spinner.position;
+
+    if (this.profile.leadsTargets && target.spinner.maxSpeed > 0) {
+      const travelTime = distance(position, aimPoint) / target.spinner.maxSpeed;
+      aimPoint = add(aimPoint, scale(target.spinner.velocity, travelTime));
+    }
+
+    return normalize(subtract(aimPoint, position));
+  }
+
+  private seekDot(position: Vector2, dots: Dot[], settings: RoomSettings): Vector2 {
+    let best: Dot | null = null;
+    let bestScore = 0;
+
+    // Prefer valuable dots that are close by
+    for (const dot of dots) {
+      const dist = distance(position, dot.position);
+      if (dist > this.profile.visionRadius) continue;
+
+      const score = dot.value / Math.max(dist, 1);
+      if (score > bestScore) {
+        best = dot;
+        bestScore = score;
+      }
+    }
+
+    // Nothing in sight, drift towards the middle of the arena
+    const destination = best?.position ?? createVector2(settings.arenaWidth / 2, settings.arenaHeight / 2);
+    return normalize(subtract(destination, position));
+  }
+
+  private wallAvoidance(position: Vector2, settings: RoomSettings): Vector2 {
+    const push = createVector2(0, 0);
+
+    if (position.x < WALL_AVOID_MARGIN) push.x += 1;
+    if (position.x > settings.arenaWidth - WALL_AVOID_MARGIN) push.x -= 1;
+    if (position.y < WALL_AVOID_MARGIN) push.y += 1;
+    if (position.y > settings.arenaHeight - WALL_AVOID_MARGIN) push.y -= 1;
+
+    return push;
+  }
+
+  private applyAimError(direction: Vector2): Vector2 {
+    if (direction.x === 0 && direction.y === 0) return direction;
+
+    const error = randomFloat(-this.profile.aimError, this.profile.aimError);
+    const cos = Math.cos(error);
+    const sin = Math.sin(error);
+
+    return createVector2(
+      direction.x * cos - direction.y * sin,
+      direction.x * sin + direction.y * cos
+    );
+  }
+
+  private nearest(position: Vector2, players: PlayerData[]): PlayerData {
+    return players.reduce((closest, player) =>
+      distance(position, player.spinner.position) < distance(position, closest.spinner.position) ? player : closest
+    );
+  }
+
+  // Getters
+  get id(): string { return this.playerId; }
+  get level(): BotDifficulty { return this.difficulty; }
+}
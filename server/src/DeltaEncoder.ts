@@ -0,0 +1,211 @@
+/**
+ * Per-client delta compression for GAME_STATE broadcasts
+ */
+
+import { Dot, GameStateDelta, GAME_CONFIG, NetPlayerDelta, NetPlayerState, PlayerData, Vector2 } from './types';
+
+/** Everything a client needs to draw one tick */
+export interface StateSnapshot {
+  tick: number;
+  timeElapsed: number;
+  arena: { width: number; height: number };
+  players: Map<string, NetPlayerState>;
+  dots: Map<string, Dot>;
+}
+
+// Rounding the snapshot itself keeps the client's copy identical to the server's baseline
+const quantize = (value: number, decimals: number = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const quantizeVector = (vector: Vector2): Vector2 => ({ x: quantize(vector.x), y: quantize(vector.y) });
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    const va = a as Vector2;
+    const vb = b as Vector2;
+    return va.x === vb.x && va.y === vb.y;
+  }
+  return a === b;
+};
+
+/**
+ * Capture the client-visible state of a tick
+ */
+export const createSnapshot = (
+  tick: number,
+  timeElapsed: number,
+  arena: { width: number; height: number },
+  players: Iterable<PlayerData>,
+  dots: Dot[],
+  lastProcessedInputs: Map<string, number>
+): StateSnapshot => {
+  const playerStates = new Map<string, NetPlayerState>();
+
+  for (const player of players) {
+    playerStates.set(player.id, {
+      id: player.id,
+      name: player.name,
+      position: quantizeVector(player.spinner.position),
+      velocity: quantizeVector(player.spinner.velocity),
+      rotation: quantize(player.spinner.rotation, 3),
+      spinSpeed: quantize(player.spinner.spinSpeed, 3),
+      size: quantize(player.spinner.size),
+      maxSpeed: quantize(player.spinner.maxSpeed),
+      score: quantize(player.score),
+      isAlive: player.isAlive,
+      isHost: player.isHost,
+      isConnected: player.isConnected,
+      isBot: player.isBot,
+      lastProcessedInput: lastProcessedInputs.get(player.id) ?? 0
+    });
+  }
+
+  return {
+    tick,
+    timeElapsed: quantize(timeElapsed, 3),
+    arena: { ...arena },
+    players: playerStates,
+    dots: new Map(dots.map(dot => [dot.id, dot]))
+  };
+};
+
+/**
+ * Encode `current` against `baseline`, or as a full keyframe when there is no baseline
+ */
+export const encodeDelta = (baseline: StateSnapshot | null, current: StateSnapshot): GameStateDelta => {
+  const players: NetPlayerDelta[] = [];
+
+  for (const [playerId, state] of current.players) {
+    const base = baseline?.players.get(playerId);
+    if (!base) {
+      players.push({ ...state });
+      continue;
+    }
+
+    const changed: NetPlayerDelta = { id: playerId };
+    let hasChanges = false;
+    for (const key of Object.keys(state) as (keyof NetPlayerState)[]) {
+      if (!sameValue(state[key], base[key])) {
+        (changed as Record<string, unknown>)[key] = state[key];
+        hasChanges = true;
+      }
+    }
+
+    if (hasChanges) {
+      players.push(changed);
+    }
+  }
+
+  const removedPlayers = baseline
+    ? Array.from(baseline.players.keys()).filter(playerId => !current.players.has(playerId))
+    : [];
+
+  const dotsAdded = Array.from(current.dots.values()).filter(dot => !baseline?.dots.has(dot.id));
+  const dotsRemoved = baseline
+    ? Array.from(baseline.dots.keys()).filter(dotId => !current.dots.has(dotId))
+    : [];
+
+  return {
+    tick: current.tick,
+    baseTick: baseline?.tick ?? null,
+    timeElapsed: current.timeElapsed,
+    ...(baseline ? {} : { arena: current.arena }),
+    players,
+    removedPlayers,
+    dotsAdded,
+    dotsRemoved
+  };
+};
+
+/**
+ * Delta Encoder
+ * Keeps recent snapshots and the newest tick each client has acknowledged,
+ * so every client gets a delta against state it is known to have.
+ */
+export class DeltaEncoder {
+  private history = new Map<number, StateSnapshot>(); // tick -> snapshot
+  private acknowledgedTicks = new Map<string, number>(); // clientId -> tick
+  private encodedThisTick = new Map<number | null, GameStateDelta>(); // baseTick -> payload
+
+  /**
+   * Store the snapshot for this tick and forget baselines that are too old to use
+   */
+  record(snapshot: StateSnapshot): void {
+    this.history.set(snapshot.tick, snapshot);
+    this.encodedThisTick.clear();
+
+    for (const tick of this.history.keys()) {
+      if (tick <= snapshot.tick - GAME_CONFIG.STATE_HISTORY_TICKS) {
+        this.history.delete(tick);
+      }
+    }
+  }
+
+  /**
+   * A client has applied the state for this tick and can use it as a baseline
+   */
+  acknowledge(clientId: string, tick: number): void {
+    if (!this.history.has(tick)) return;
+
+    const previous = this.acknowledgedTicks.get(clientId);
+    if (previous === undefined || tick > previous) {
+      this.acknowledgedTicks.set(clientId, tick);
+    }
+  }
+
+  /**
+   * Player and dot IDs in this client's baseline and every snapshot recorded since,
+   * the only ones a later delta for it can refer to. Null until it has a baseline.
+   */
+  liveIdsFor(clientId: string): Set<string> | null {
+    const ackedTick = this.acknowledgedTicks.get(clientId);
+    if (ackedTick === undefined) return null;
+
+    const ids = new Set<string>();
+    for (const snapshot of this.history.values()) {
+      if (snapshot.tick < ackedTick) continue;
+      snapshot.players.forEach((_, playerId) => ids.add(playerId));
+      snapshot.dots.forEach((_, dotId) => ids.add(dotId));
+    }
+    return ids;
+  }
+
+  /**
+   * Send this client a full keyframe next (e.g. it joined or lost its baseline)
+   */
+  requestKeyframe(clientId: string): void {
+    this.acknowledgedTicks.delete(clientId);
+  }
+
+  removeClient(clientId: string): void {
+    this.acknowledgedTicks.delete(clientId);
+  }
+
+  /**
+   * Payload for one client, shared between clients on the same baseline
+   */
+  encodeFor(clientId: string, snapshot: StateSnapshot): GameStateDelta {
+    const ackedTick = this.acknowledgedTicks.get(clientId);
+    const baseline = ackedTick !== undefined ? this.history.get(ackedTick) ?? null : null;
+    const baseTick = baseline?.tick ?? null;
+
+    let payload = this.encodedThisTick.get(baseTick);
+    if (!payload) {
+      payload = encodeDelta(baseline, snapshot);
+      this.encodedThisTick.set(baseTick, payload);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Forget all history and baselines (e.g. when a new match starts)
+   */
+  clear(): void {
+    this.history.clear();
+    this.acknowledgedTicks.clear();
+    this.encodedThisTick.clear();
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Fixed timestep game loop with a separate network send rate
+ */
+
+import { GAME_CONFIG } from './types';
+
+export interface GameLoopOptions {
+  /** Simulation ticks per second */
+  tickRate?: number;
+  /** GAME_STATE broadcasts per second */
+  sendRate?: number;
+  /** Most ticks run in one frame when catching up, the rest of the backlog is dropped */
+  maxCatchUpTicks?: number;
+}
+
+export interface GameLoopCallbacks {
+  /** Advance the simulation by exactly one tick */
+  update: (deltaTime: number, tick: number) => void;
+  /** Send the latest state to clients */
+  send: (tick: number) => void;
+}
+
+export interface GameLoopMetrics {
+  tick: number;
+  tickRate: number;
+  sendRate: number;
+  lastTickMs: number;
+  averageTickMs: number;
+  maxTickMs: number;
+  overruns: number;
+  droppedTicks: number;
+}
+
+// Weight of the newest tick in the moving average
+const TICK_TIME_SMOOTHING = 0.1;
+
+/**
+ * Game Loop
+ * Accumulates wall-clock time and runs the simulation in fixed steps, so physics does not
+ * depend on timer jitter. State is sent every few ticks instead of every tick.
+ * Ticks that take longer than their time budget are counted as overruns.
+ */
+export class GameLoop {
+  private callbacks: GameLoopCallbacks;
+  private tickRate: number;
+  private sendRate: number;
+  private maxCatchUpTicks: number;
+  private interval: NodeJS.Timeout | null = null;
+  private lastFrameTime: number = 0;
+  private accumulator: number = 0;
+  private tick: number = 0;
+  private lastSentTick: number = 0;
+  private tickStats = { last: 0, average: 0, max: 0, overruns: 0, dropped: 0 };
+
+  constructor(callbacks: GameLoopCallbacks, options: GameLoopOptions = {}) {
+    this.callbacks = callbacks;
+    this.tickRate = options.tickRate ?? GAME_CONFIG.TARGET_FPS;
+    this.sendRate = Math.min(options.sendRate ?? GAME_CONFIG.SEND_RATE, this.tickRate);
+    this.maxCatchUpTicks = options.maxCatchUpTicks ?? GAME_CONFIG.MAX_CATCH_UP_TICKS;
+  }
+
+  /**
+   * Start running ticks on a timer
+   */
+  start(now: number = Date.now()): void {
+    this.stop();
+    this.lastFrameTime = now;
+    this.accumulator = 0;
+    this.interval = setInterval(() => this.advance(), this.tickIntervalMs);
+  }
+
+  /**
+   * Stop the timer. The tick counter keeps going from where it was on the next start.
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Run every tick that is due by `now`, then send if a broadcast is due.
+   * Returns the number of ticks run.
+   */
+  advance(now: number = Date.now()): number {
+    this.accumulator += Math.max(0, now - this.lastFrameTime);
+    this.lastFrameTime = now;
+
+    let ticksRun = 0;
+    while (this.accumulator >= this.tickIntervalMs && ticksRun < this.maxCatchUpTicks) {
+      this.runTick();
+      this.accumulator -= this.tickIntervalMs;
+      ticksRun++;
+
+      // A tick can stop the loop (the match ended), the rest of the backlog must not run
+      if (!this.isRunning) break;
+    }
+
+    // Too far behind to catch up, drop the backlog rather than spiral
+    if (this.isRunning && this.accumulator >= this.tickIntervalMs) {
+      const dropped = Math.floor(this.accumulator / this.tickIntervalMs);
+      this.tickStats.dropped += dropped;
+      this.accumulator -= dropped * this.tickIntervalMs;
+      console.warn(`🐢 Game loop fell behind, dropped ${dropped} tick(s) at tick ${this.tick}`);
+    }
+
+    if (ticksRun > 0 && this.tick - this.lastSentTick >= this.ticksPerSend) {
+      this.lastSentTick = this.tick;
+      this.callbacks.send(this.tick);
+    }
+
+    return ticksRun;
+  }
+
+  /**
+   * Tick timing and overrun counts
+   */
+  getMetrics(): GameLoopMetrics {
+    return {
+      tick: this.tick,
+      tickRate: this.tickRate,
+      sendRate: this.sendRate,
+      lastTickMs: this.tickStats.last,
+      averageTickMs: this.tickStats.average,
+      maxTickMs: this.tickStats.max,
+      overruns: this.tickStats.overruns,
+      droppedTicks: this.tickStats.dropped
+    };
+  }
+
+  private runTick(): void {
+    const startedAt = Date.now();
+    this.tick++;
+    this.callbacks.update(this.tickIntervalMs / 1000, this.tick);
+    const duration = Date.now() - startedAt;
+
+    this.tickStats.last = duration;
+    this.tickStats.average += (duration - this.tickStats.average) * TICK_TIME_SMOOTHING;
+    this.tickStats.max = Math.max(this.tickStats.max, duration);
+
+    if (duration > this.tickIntervalMs) {
+      this.tickStats.overruns++;
+      console.warn(`🐢 Tick ${this.tick} took ${duration}ms, budget is ${this.tickIntervalMs.toFixed(1)}ms`);
+    }
+  }
+
+  // Getters
+  get currentTick(): number { return this.tick; }
+  get isRunning(): boolean { return this.interval !== null; }
+  get tickIntervalMs(): number { return 1000 / this.tickRate; }
+  get ticksPerSend(): number { return Math.max(1, Math.round(this.tickRate / this.sendRate)); }
+}
@@ -2,18 +2,44 @@
  * Game room handling lobby and multiplayer game session
  */
 
-import { Room, PlayerData, MultiplayerGameState, GamePhase, GAME_CONFIG, Dot, Spinner, Vector2 } from './types';
-import { generateId, generateRoomCode, createVector2, randomFloat, circleCollision, add, scale, clamp } from './utils';
+import { Room, PlayerData, MultiplayerGameState, GamePhase, GAME_CONFIG, Dot, Spinner, Vector2, RoomExpiryReason, MatchResult, MatchParticipant, MatchElimination, MatchRecord, RoomOptions, RoomCredentials, RoomSummary, BotDifficulty, SpectatorData, RoomSettings } from './types';
+import { DEFAULT_ROOM_SETTINGS, validateRoomSettings } from './roomSettings';
+import { BotController } from './BotController';
+import { LagCompensationManager } from './LagCompensation';
+import { DeltaEncoder, createSnapshot } from './DeltaEncoder';
+import { GameStateWriter } from './codec';
+import { GameLoop, GameLoopMetrics } from './GameLoop';
+import { sanitizeDirection } from './validation';
+import { stepSpinnerMovement } from './movement';
+import { generateId, generateRoomCode, generateToken, verifyPassword, createVector2, randomFloat, circleCollision, clamp } from './utils';
 import { Server, Socket } from 'socket.io';
 
 export class GameRoom {
   private room: Room;
   private io: Server;
-  private gameLoopInterval: NodeJS.Timeout | null = null;
-  private lastUpdateTime: number = 0;
+  private gameLoop: GameLoop;
+  private lastActivityAt: number = Date.now();
+  private phaseChangedAt: number = Date.now();
+  private rematchVotes = new Set<string>();
+  private bots = new Map<string, BotController>(); // playerId -> AI controller
+  private lagCompensation = new LagCompensationManager();
+  private lastProcessedInputs = new Map<string, number>(); // playerId -> input sequence number
+  private deltaEncoder = new DeltaEncoder();
+  private viewerSockets = new Map<string, string>(); // playerId or spectatorId -> socket id receiving GAME_STATE
+  private stateWriters = new Map<string, GameStateWriter>(); // playerId or spectatorId -> binary encoder for that socket
+  private onMatchComplete?: (match: MatchRecord) => void;
+  private matchStartedAt: number = 0;
+  private matchParticipants = new Map<string, MatchParticipant>(); // playerId -> stats for the match in progress
+  private matchEliminations: MatchElimination[] = [];
 
-  constructor(hostName: string, io: Server) {
+  constructor(hostName: string, io: Server, options: RoomOptions = {}) {
     this.io = io;
+    this.onMatchComplete = options.onMatchComplete;
+    const settings = { ...(options.settings ?? DEFAULT_ROOM_SETTINGS) };
+    this.gameLoop = new GameLoop(
+      { update: deltaTime => this.updateGame(deltaTime), send: () => this.broadcastGameState() },
+      { tickRate: options.tickRate, sendRate: options.sendRate }
+    );
     
     // Create initial game state
     const gameState: MultiplayerGameState = {
@@ -22,28 +48,63 @@ export class GameRoom {
       dots: [],
       timeElapsed: 0,
       arena: {
-        width: GAME_CONFIG.ARENA_WIDTH,
-        height: GAME_CONFIG.ARENA_HEIGHT
+        width: settings.arenaWidth,
+        height: settings.arenaHeight
       }
     };
 
     this.room = {
       id: generateId(),
-      code: generateRoomCode(),
+      code: options.code ?? generateRoomCode(),
       host: '',
       players: new Map(),
+      spectators: new Map(),
       gameState,
       isPlaying: false,
-      createdAt: new Date()
+      createdAt: new Date(),
+      isPrivate: !!options.isPrivate,
+      passwordHash: options.isPrivate && options.passwordHash ? options.passwordHash : null,
+      inviteToken: options.isPrivate ? generateToken() : null,
+      isMatchmade: !!options.isMatchmade,
+      settings
     };
   }
 
+  /**
+   * Check whether the given credentials grant access to this room
+   */
+  async canJoin(credentials: RoomCredentials = {}): Promise<boolean> {
+    if (!this.room.isPrivate) {
+      return true;
+    }
+
+    if (credentials.inviteToken && credentials.inviteToken === this.room.inviteToken) {
+      return true;
+    }
+
+    return !!this.room.passwordHash && 
+      typeof credentials.password === 'string' && 
+      await verifyPassword(credentials.password, this.room.passwordHash);
+  }
+
   /**
    * Add a player to the room
    */
   addPlayer(socket: Socket, playerName: string, providedPlayerId?: string): { success: boolean; playerId?: string; error?: string } {
+    const playerId = providedPlayerId || socket.id;
+
+    // The same player can be signed in from more than one tab
+    if (this.hasMember(playerId)) {
+      return { success: false, error: 'Already in this room' };
+    }
+
+    // Bots give up their slot to real players while still in the lobby
+    if (this.isFull && !this.room.isPlaying && this.bots.size > 0) {
+      this.removePlayer(Array.from(this.bots.keys())[0]);
+    }
+
     // Check room capacity
-    if (this.room.players.size >= GAME_CONFIG.MAX_PLAYERS_PER_ROOM) {
+    if (this.isFull) {
       return { success: false, error: 'Room is full' };
     }
 
@@ -52,7 +113,6 @@ export class GameRoom {
       return { success: false, error: 'Game already in progress' };
     }
 
-    const playerId = providedPlayerId || socket.id;
     const isHost = this.room.players.size === 0;
     
     console.log(`🎮 Adding player to room ${this.room.code}:`, {
@@ -65,28 +125,21 @@ export class GameRoom {
     });
 
     // Create player spinner with unique spawn position
-    const spawnAngle = (this.room.players.size * 2 * Math.PI) / GAME_CONFIG.MAX_PLAYERS_PER_ROOM;
+    const { arenaWidth, arenaHeight, maxPlayers } = this.room.settings;
+    const spawnAngle = (this.room.players.size * 2 * Math.PI) / maxPlayers;
     const spawnRadius = 150; // Distance from center (increased for safety)
-    const centerX = GAME_CONFIG.ARENA_WIDTH / 2;
-    const centerY = GAME_CONFIG.ARENA_HEIGHT / 2;
+    const centerX = arenaWidth / 2;
+    const centerY = arenaHeight / 2;
     
     let spawnX = centerX + Math.cos(spawnAngle) * spawnRadius + randomFloat(-30, 30);
     let spawnY = centerY + Math.sin(spawnAngle) * spawnRadius + randomFloat(-30, 30);
     
     // Ensure spawn position is within safe bounds
     const safeMargin = GAME_CONFIG.SPINNER_INITIAL_SIZE + 20;
-    spawnX = Math.max(safeMargin, Math.min(GAME_CONFIG.ARENA_WIDTH - safeMargin, spawnX));
-    spawnY = Math.max(safeMargin, Math.min(GAME_CONFIG.ARENA_HEIGHT - safeMargin, spawnY));
+    spawnX = Math.max(safeMargin, Math.min(arenaWidth - safeMargin, spawnX));
+    spawnY = Math.max(safeMargin, Math.min(arenaHeight - safeMargin, spawnY));
     
-    const spinner: Spinner = {
-      position: createVector2(spawnX, spawnY),
-      velocity: createVector2(0, 0),
-      targetDirection: createVector2(0, 0),
-      size: GAME_CONFIG.SPINNER_INITIAL_SIZE,
-      spinSpeed: GAME_CONFIG.SPINNER_INITIAL_SPIN_SPEED,
-      rotation: 0,
-      maxSpeed: GAME_CONFIG.SPINNER_INITIAL_SPEED
-    };
+    const spinner = this.createInitialSpinner(createVector2(spawnX, spawnY));
     
     console.log(`🎯 Player ${playerName} spawned at:`, {
       playerId,
@@ -102,7 +155,9 @@ export class GameRoom {
       spinner,
       score: GAME_CONFIG.SPINNER_INITIAL_SIZE,
       isAlive: true,
-      isHost
+      isHost,
+      isConnected: true,
+      isBot: false
     };
 
     // Set host if first player
@@ -120,6 +175,8 @@ export class GameRoom {
 
     this.room.players.set(playerId, playerData);
     this.room.gameState.players.set(playerId, playerData);
+    this.addViewer(playerId, socket.id);
+    this.lastActivityAt = Date.now();
 
     // Join socket room
     socket.join(this.room.code);
@@ -131,27 +188,330 @@ export class GameRoom {
 
   /**
    * Remove a player from the room
+   * Eliminates them if a match is running, hands off host and notifies the others
    */
   removePlayer(playerId: string): boolean {
-    if (!this.room.players.has(playerId)) {
+    if (this.room.spectators.has(playerId)) {
+      return this.removeSpectator(playerId);
+    }
+
+    const player = this.room.players.get(playerId);
+    if (!player) {
       return false;
     }
 
     const wasHost = this.room.host === playerId;
+
+    // Leaving mid-match counts as an elimination
+    if (this.room.isPlaying && player.isAlive) {
+      player.isAlive = false;
+      this.recordElimination(player, null);
+      this.io.to(this.room.code).emit('PLAYER_ELIMINATED', { 
+        playerId,
+        eliminatedBy: null,
+        victorNewSize: null
+      });
+    }
     
     this.room.players.delete(playerId);
     this.room.gameState.players.delete(playerId);
+    this.rematchVotes.delete(playerId);
+    this.bots.delete(playerId);
+    this.removeViewer(playerId);
+
+    // Bots never keep a room alive on their own
+    if (!this.hasHumanPlayers) {
+      this.removeAllBots();
+    }
 
     // Transfer host to another player if needed
     if (wasHost && this.room.players.size > 0) {
-      const newHostId = Array.from(this.room.players.keys())[0];
+      const newHostId = Array.from(this.room.players.values()).find(p => !p.isBot)!.id;
       this.room.host = newHostId;
       const newHostPlayer = this.room.players.get(newHostId)!;
       newHostPlayer.isHost = true;
       this.room.players.set(newHostId, newHostPlayer);
+      console.log(`👑 Host of room ${this.room.code} handed off to ${newHostPlayer.name} (${newHostId})`);
     }
 
+    this.lastActivityAt = Date.now();
+
     console.log(`Player ${playerId} left room ${this.room.code}`);
+
+    // Notify other players
+    this.io.to(this.room.code).emit('PLAYER_LEFT', { playerId });
+
+    if (this.room.isPlaying) {
+      this.checkGameOver();
+    }
+
+    // Spectators take over a room its players have abandoned
+    if (this.isEmpty && this.room.spectators.size > 0) {
+      this.resetToLobby();
+      return true;
+    }
+
+    if (!this.isEmpty) {
+      this.broadcastRoomState();
+
+      // The leaver may have been the last vote we were waiting on
+      if (this.room.gameState.phase === GamePhase.GAME_OVER && this.rematchVotes.size > 0) {
+        this.checkRematchVotes();
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Change the room's game rules (host only, between matches)
+   */
+  updateSettings(playerId: string, update: unknown): { success: boolean; error?: string } {
+    if (playerId !== this.room.host) {
+      return { success: false, error: 'Only host can change room settings' };
+    }
+
+    if (this.room.gameState.phase !== GamePhase.LOBBY) {
+      return { success: false, error: 'Settings can only be changed in the lobby' };
+    }
+
+    const result = validateRoomSettings(update, this.room.settings);
+    if (!result.success || !result.settings) {
+      return { success: false, error: result.error };
+    }
+
+    if (result.settings.maxPlayers < this.room.players.size) {
+      return { success: false, error: 'Room already has more players than that' };
+    }
+
+    this.room.settings = result.settings;
+    this.room.gameState.arena = {
+      width: result.settings.arenaWidth,
+      height: result.settings.arenaHeight
+    };
+    this.lastActivityAt = Date.now();
+
+    console.log(`⚙️ Room ${this.room.code} settings updated:`, this.room.settings);
+
+    this.broadcastRoomState();
+    return { success: true };
+  }
+
+  /**
+   * Add someone to watch the match in progress. Spectators have no spinner and
+   * become players when the room goes back to the lobby.
+   */
+  addSpectator(socket: Socket, spectatorName: string, spectatorId: string = socket.id): { success: boolean; playerId?: string; error?: string } {
+    if (this.room.spectators.size >= GAME_CONFIG.MAX_SPECTATORS_PER_ROOM) {
+      return { success: false, error: 'Room has too many spectators' };
+    }
+
+    if (this.room.players.has(spectatorId) || this.room.spectators.has(spectatorId)) {
+      return { success: false, error: 'Already in this room' };
+    }
+
+    const spectator: SpectatorData = { id: spectatorId, name: spectatorName, isConnected: true };
+    this.room.spectators.set(spectator.id, spectator);
+    this.addViewer(spectator.id, socket.id);
+
+    socket.join(this.room.code);
+
+    console.log(`👀 ${spectatorName} (${spectator.id}) is spectating room ${this.room.code}`);
+
+    this.io.to(this.room.code).emit('SPECTATOR_JOINED', { spectator });
+
+    return { success: true, playerId: spectator.id };
+  }
+
+  /**
+   * Stop someone spectating
+   */
+  private removeSpectator(spectatorId: string): boolean {
+    if (!this.room.spectators.delete(spectatorId)) {
+      return false;
+    }
+
+    this.removeViewer(spectatorId);
+
+    console.log(`👋 Spectator ${spectatorId} left room ${this.room.code}`);
+
+    this.io.to(this.room.code).emit('SPECTATOR_LEFT', { spectatorId });
+    return true;
+  }
+
+  /**
+   * Turn spectators into players for the next round, as far as there is room
+   */
+  private promoteSpectators(): void {
+    for (const spectator of Array.from(this.room.spectators.values())) {
+      // Bots give up their slot to real players
+      if (this.isFull && this.bots.size > 0) {
+        this.removePlayer(Array.from(this.bots.keys())[0]);
+      }
+
+      if (this.isFull) break;
+
+      const isHost = !this.room.players.has(this.room.host);
+      const player: PlayerData = {
+        id: spectator.id,
+        name: spectator.name,
+        spinner: this.createInitialSpinner(createVector2(0, 0)),
+        score: GAME_CONFIG.SPINNER_INITIAL_SIZE,
+        isAlive: true,
+        isHost,
+        // A spectator whose connection dropped is still held as a disconnected player
+        isConnected: spectator.isConnected,
+        isBot: false
+      };
+
+      if (isHost) {
+        this.room.host = player.id;
+      }
+
+      this.room.spectators.delete(spectator.id);
+      this.room.players.set(player.id, player);
+      this.room.gameState.players.set(player.id, player);
+
+      console.log(`⬆️ Spectator ${spectator.name} (${spectator.id}) joins room ${this.room.code} as a player${isHost ? ' and host' : ''}`);
+    }
+  }
+
+  /**
+   * Add a bot to the room (host only)
+   */
+  addBot(playerId: string, difficulty?: BotDifficulty): { success: boolean; playerId?: string; error?: string } {
+    if (playerId !== this.room.host) {
+      return { success: false, error: 'Only host can add bots' };
+    }
+
+    return this.spawnBot(difficulty);
+  }
+
+  /**
+   * Add a bot without a host request (used by matchmaking to fill rooms)
+   */
+  spawnBot(difficulty: BotDifficulty = GAME_CONFIG.BOT_DEFAULT_DIFFICULTY): { success: boolean; playerId?: string; error?: string } {
+    if (this.isFull) {
+      return { success: false, error: 'Room is full' };
+    }
+
+    if (this.room.isPlaying) {
+      return { success: false, error: 'Game already in progress' };
+    }
+
+    const botId = `bot-${generateId()}`;
+    const takenNames = new Set(this.players.map(p => p.name));
+    let botNumber = 1;
+    while (takenNames.has(`Bot ${botNumber}`)) botNumber++;
+
+    const bot: PlayerData = {
+      id: botId,
+      name: `Bot ${botNumber}`,
+      spinner: this.createInitialSpinner(this.generateSafeSpawnPositions(1)[0]),
+      score: GAME_CONFIG.SPINNER_INITIAL_SIZE,
+      isAlive: true,
+      isHost: false,
+      isConnected: true,
+      isBot: true,
+      botDifficulty: difficulty
+    };
+
+    this.room.players.set(botId, bot);
+    this.room.gameState.players.set(botId, bot);
+    this.bots.set(botId, new BotController(botId, difficulty));
+
+    console.log(`🤖 ${bot.name} (${difficulty}) added to room ${this.room.code}`);
+
+    this.io.to(this.room.code).emit('PLAYER_JOINED', { player: bot });
+    this.broadcastRoomState();
+
+    return { success: true, playerId: botId };
+  }
+
+  /**
+   * Remove a bot from the room (host only)
+   */
+  removeBot(playerId: string, botId: string): { success: boolean; error?: string } {
+    if (playerId !== this.room.host) {
+      return { success: false, error: 'Only host can remove bots' };
+    }
+
+    if (!this.bots.has(botId)) {
+      return { success: false, error: 'Bot not found' };
+    }
+
+    if (this.room.isPlaying) {
+      return { success: false, error: 'Game already in progress' };
+    }
+
+    this.removePlayer(botId);
+    return { success: true };
+  }
+
+  /**
+   * Drop every bot without notifying anyone (the room is being abandoned)
+   */
+  private removeAllBots(): void {
+    for (const botId of this.bots.keys()) {
+      this.room.players.delete(botId);
+      this.room.gameState.players.delete(botId);
+    }
+    this.bots.clear();
+  }
+
+  /**
+   * Take a player out of the room at their own request
+   */
+  leaveRoom(socket: Socket, playerId: string): boolean {
+    if (!this.room.players.has(playerId) && !this.room.spectators.has(playerId)) {
+      return false;
+    }
+
+    socket.leave(this.room.code);
+    return this.removePlayer(playerId);
+  }
+
+  /**
+   * Freeze a disconnected player's spinner while their session is held open
+   */
+  markPlayerDisconnected(playerId: string): boolean {
+    const spectator = this.room.spectators.get(playerId);
+    if (spectator) {
+      spectator.isConnected = false;
+      console.log(`📴 Spectator ${spectator.name} (${playerId}) disconnected from room ${this.room.code}, holding spot`);
+      return true;
+    }
+
+    const player = this.room.players.get(playerId);
+    if (!player) {
+      return false;
+    }
+
+    player.isConnected = false;
+    player.spinner.targetDirection = createVector2(0, 0);
+    player.spinner.velocity = createVector2(0, 0);
+
+    console.log(`📴 Player ${player.name} (${playerId}) disconnected from room ${this.room.code}, holding slot`);
+    return true;
+  }
+
+  /**
+   * Reattach a resumed player or spectator to a new socket
+   */
+  reconnectPlayer(socket: Socket, playerId: string): boolean {
+    const member = this.room.players.get(playerId) ?? this.room.spectators.get(playerId);
+    if (!member) {
+      return false;
+    }
+
+    member.isConnected = true;
+    socket.join(this.room.code);
+    // New socket, so start over with a fresh ID table and a keyframe
+    this.addViewer(playerId, socket.id);
+    this.deltaEncoder.requestKeyframe(playerId);
+    this.lastActivityAt = Date.now();
+
+    console.log(`🔁 ${member.name} (${playerId}) reconnected to room ${this.room.code} on socket ${socket.id}`);
     return true;
   }
 
@@ -163,6 +523,13 @@ export class GameRoom {
       return { success: false, error: 'Only host can start the game' };
     }
 
+    return this.beginGame();
+  }
+
+  /**
+   * Start the game without a host request (used by matchmaking)
+   */
+  beginGame(): { success: boolean; error?: string } {
     if (this.room.players.size < 2) {
       return { success: false, error: 'Need at least 2 players to start' };
     }
@@ -176,6 +543,11 @@ export class GameRoom {
     this.room.gameState.dots = this.generateDots();
     this.room.gameState.timeElapsed = 0;
     this.room.isPlaying = true;
+    this.phaseChangedAt = Date.now();
+    this.lastActivityAt = this.phaseChangedAt;
+    this.lagCompensation.clear();
+    this.lastProcessedInputs.clear();
+    this.deltaEncoder.clear();
     
     // Reset all players to alive state and respawn them with collision avoidance
     const spawnPositions = this.generateSafeSpawnPositions(this.room.gameState.players.size);
@@ -206,6 +578,8 @@ export class GameRoom {
       
       spawnIndex++;
     }
+
+    this.startMatchRecord();
     
     // Verify distances between all players
     const players = Array.from(this.room.gameState.players.values());
@@ -220,7 +594,7 @@ export class GameRoom {
       }
     }
 
-    console.log(`Game started in room ${this.room.code} by host ${playerId}`);
+    console.log(`Game started in room ${this.room.code} (host ${this.room.host})`);
     
     // Start game loop
     this.startGameLoop();
@@ -228,6 +602,119 @@ export class GameRoom {
     return { success: true };
   }
 
+  /**
+   * Vote for a rematch after the match has ended
+   */
+  voteRematch(playerId: string): { success: boolean; error?: string } {
+    if (!this.room.players.has(playerId)) {
+      return { success: false, error: 'Not in this room' };
+    }
+
+    if (this.room.gameState.phase !== GamePhase.GAME_OVER) {
+      return { success: false, error: 'Match has not ended' };
+    }
+
+    this.rematchVotes.add(playerId);
+    this.lastActivityAt = Date.now();
+
+    console.log(`🔁 Rematch vote from ${playerId} in room ${this.room.code} (${this.rematchVotes.size}/${this.requiredRematchVotes})`);
+
+    this.checkRematchVotes();
+    return { success: true };
+  }
+
+  /**
+   * Send everyone back to the lobby for another round (host only)
+   */
+  returnToLobby(playerId: string): { success: boolean; error?: string } {
+    if (playerId !== this.room.host) {
+      return { success: false, error: 'Only host can return the room to the lobby' };
+    }
+
+    if (this.room.gameState.phase !== GamePhase.GAME_OVER) {
+      return { success: false, error: 'Match has not ended' };
+    }
+
+    this.resetToLobby();
+    return { success: true };
+  }
+
+  /**
+   * Broadcast the vote tally, resetting the room once every connected player has voted
+   */
+  private checkRematchVotes(): void {
+    const required = this.requiredRematchVotes;
+
+    this.io.to(this.room.code).emit('REMATCH_VOTES', {
+      votes: Array.from(this.rematchVotes),
+      required
+    });
+
+    if (this.rematchVotes.size >= required) {
+      this.resetToLobby();
+    }
+  }
+
+  /**
+   * Reset the room and every player back to lobby state
+   */
+  private resetToLobby(): void {
+    this.stopGameLoop();
+
+    this.room.gameState.phase = GamePhase.LOBBY;
+    this.room.gameState.dots = [];
+    this.room.gameState.timeElapsed = 0;
+    this.room.isPlaying = false;
+    this.rematchVotes.clear();
+    this.phaseChangedAt = Date.now();
+    this.lastActivityAt = this.phaseChangedAt;
+
+    this.promoteSpectators();
+
+    const spawnPositions = this.generateSafeSpawnPositions(this.room.players.size);
+    let spawnIndex = 0;
+
+    for (const player of this.room.players.values()) {
+      player.isAlive = true;
+      player.score = GAME_CONFIG.SPINNER_INITIAL_SIZE;
+      player.spinner = this.createInitialSpinner(spawnPositions[spawnIndex++]);
+    }
+
+    console.log(`🏠 Room ${this.room.code} reset to lobby for the next round`);
+
+    this.broadcastRoomState();
+  }
+
+  /**
+   * Build the final standings, survivors first and then by size
+   */
+  private buildMatchResults(): MatchResult[] {
+    return Array.from(this.room.gameState.players.values())
+      .sort((a, b) => Number(b.isAlive) - Number(a.isAlive) || b.score - a.score)
+      .map((player, index) => ({
+        playerId: player.id,
+        name: player.name,
+        score: player.score,
+        isAlive: player.isAlive,
+        placement: index + 1
+      }));
+  }
+
+  /**
+   * Create a fresh spinner at the given position
+   */
+  private createInitialSpinner(position: Vector2): Spinner {
+    return {
+      position,
+      velocity: createVector2(0, 0),
+      targetDirection: createVector2(0, 0),
+      size: GAME_CONFIG.SPINNER_INITIAL_SIZE,
+      spinSpeed: GAME_CONFIG.SPINNER_INITIAL_SPIN_SPEED,
+      rotation: 0,
+      maxSpeed: GAME_CONFIG.SPINNER_INITIAL_SPEED
+    };
+  }
+
   /**
    * Generate safe spawn positions for all players with collision avoidance
    */
@@ -235,8 +722,9 @@ export class GameRoom {
     const positions: Vector2[] = [];
     const minDistance = GAME_CONFIG.SPINNER_INITIAL_SIZE * 4; // Minimum distance between players
     const safeMargin = GAME_CONFIG.SPINNER_INITIAL_SIZE + 30; // Distance from arena edges
-    const centerX = GAME_CONFIG.ARENA_WIDTH / 2;
-    const centerY = GAME_CONFIG.ARENA_HEIGHT / 2;
+    const { arenaWidth, arenaHeight } = this.room.settings;
+    const centerX = arenaWidth / 2;
+    const centerY = arenaHeight / 2;
     const maxAttempts = 100;
     
     console.log(`🎯 Generating ${playerCount} safe spawn positions with minDistance: ${minDistance}, safeMargin: ${safeMargin}`);
@@ -254,13 +742,13 @@ export class GameRoom {
         if (attempts <= 1 && playerCount <= 4) {
           // Use predefined positions for up to 4 players
           const angle = (i * 2 * Math.PI) / playerCount + (Math.PI / 4); // Start at 45 degrees
-          const radius = Math.min(150, (Math.min(GAME_CONFIG.ARENA_WIDTH, GAME_CONFIG.ARENA_HEIGHT) / 2) - safeMargin - 50);
+          const radius = Math.min(150, (Math.min(arenaWidth, arenaHeight) / 2) - safeMargin - 50);
           spawnX = centerX + Math.cos(angle) * radius;
           spawnY = centerY + Math.sin(angle) * radius;
         } else {
           // Random position within safe bounds
-          spawnX = safeMargin + Math.random() * (GAME_CONFIG.ARENA_WIDTH - 2 * safeMargin);
-          spawnY = safeMargin + Math.random() * (GAME_CONFIG.ARENA_HEIGHT - 2 * safeMargin);
+          spawnX = safeMargin + Math.random() * (arenaWidth - 2 * safeMargin);
+          spawnY = safeMargin + Math.random() * (arenaHeight - 2 * safeMargin);
         }
         
         // Check distance from all existing positions
@@ -280,9 +768,9 @@ export class GameRoom {
         // Ensure position is within safe bounds (double-check)
         if (validPosition) {
           validPosition = spawnX >= safeMargin && 
-                         spawnX <= GAME_CONFIG.ARENA_WIDTH - safeMargin &&
+                         spawnX <= arenaWidth - safeMargin &&
                          spawnY >= safeMargin && 
-                         spawnY <= GAME_CONFIG.ARENA_HEIGHT - safeMargin;
+                         spawnY <= arenaHeight - safeMargin;
         }
       }
       
@@ -310,12 +798,14 @@ export class GameRoom {
   private generateDots(): Dot[] {
     const dots: Dot[] = [];
     
-    for (let i = 0; i < GAME_CONFIG.DOT_COUNT; i++) {
+    const { arenaWidth, arenaHeight, dotCount } = this.room.settings;
+    
+    for (let i = 0; i < dotCount; i++) {
       dots.push({
         id: generateId(),
         position: createVector2(
-          randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, GAME_CONFIG.ARENA_WIDTH - GAME_CONFIG.DOT_RESPAWN_MARGIN),
-          randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, GAME_CONFIG.ARENA_HEIGHT - GAME_CONFIG.DOT_RESPAWN_MARGIN)
+          randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, arenaWidth - GAME_CONFIG.DOT_RESPAWN_MARGIN),
+          randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, arenaHeight - GAME_CONFIG.DOT_RESPAWN_MARGIN)
         ),
         size: randomFloat(GAME_CONFIG.DOT_MIN_SIZE, GAME_CONFIG.DOT_MAX_SIZE),
         value: randomFloat(GAME_CONFIG.DOT_GROWTH_MIN, GAME_CONFIG.DOT_GROWTH_MAX)
@@ -335,7 +825,10 @@ export class GameRoom {
       roomCode: this.room.code,
       players: playersArray,
       isPlaying: this.room.isPlaying,
-      phase: this.room.gameState.phase
+      phase: this.room.gameState.phase,
+      isPrivate: this.room.isPrivate,
+      spectators: Array.from(this.room.spectators.values()),
+      settings: this.room.settings
     };
     
     console.log(`📡 Broadcasting room state for ${this.room.code}:`, {
@@ -353,26 +846,84 @@ export class GameRoom {
   broadcastGameState(): void {
     if (!this.room.isPlaying) return;
 
-    const playersArray = Array.from(this.room.gameState.players.values());
-    
-    this.io.to(this.room.code).emit('GAME_STATE', {
-      players: playersArray,
-      dots: this.room.gameState.dots,
-      timeElapsed: this.room.gameState.timeElapsed
-    });
+    const snapshot = createSnapshot(
+      this.gameLoop.currentTick,
+      this.room.gameState.timeElapsed,
+      this.room.gameState.arena,
+      this.room.gameState.players.values(),
+      this.room.gameState.dots,
+      this.lastProcessedInputs
+    );
+    this.deltaEncoder.record(snapshot);
+
+    // Each viewer gets a delta against the last tick they acknowledged
+    for (const [viewerId, socketId] of this.viewerSockets) {
+      const viewer = this.room.players.get(viewerId) ?? this.room.spectators.get(viewerId);
+      if (viewer?.isConnected === false) continue;
+
+      const writer = this.stateWriters.get(viewerId);
+      if (!writer) continue;
+
+      this.io.to(socketId).emit('GAME_STATE', writer.encode(this.deltaEncoder.encodeFor(viewerId, snapshot)));
+    }
+  }
+
+  /**
+   * Start sending GAME_STATE to a socket
+   */
+  private addViewer(viewerId: string, socketId: string): void {
+    this.viewerSockets.set(viewerId, socketId);
+    this.stateWriters.set(viewerId, new GameStateWriter());
+  }
+
+  /**
+   * Stop sending GAME_STATE to someone who left
+   */
+  private removeViewer(viewerId: string): void {
+    this.viewerSockets.delete(viewerId);
+    this.stateWriters.delete(viewerId);
+    this.deltaEncoder.removeClient(viewerId);
+  }
+
+  /**
+   * A viewer has applied the GAME_STATE for this tick
+   */
+  acknowledgeState(viewerId: string, tick: number): void {
+    this.deltaEncoder.acknowledge(viewerId, tick);
+
+    // IDs no later delta can mention give their codec index back
+    const liveIds = this.deltaEncoder.liveIdsFor(viewerId);
+    if (liveIds) {
+      this.stateWriters.get(viewerId)?.release(liveIds);
+    }
+  }
+
+  /**
+   * A viewer lost track of the state and needs a full keyframe
+   */
+  requestKeyframe(viewerId: string): void {
+    this.deltaEncoder.requestKeyframe(viewerId);
   }
 
   /**
    * Handle player input for movement
    */
-  handlePlayerInput(playerId: string, direction: Vector2): void {
+  handlePlayerInput(
+    playerId: string,
+    direction: Vector2,
+    sequenceNumber: number = 0,
+    clientTimestamp: number = Date.now()
+  ): void {
     if (!this.room.isPlaying) return;
     
     const player = this.room.gameState.players.get(playerId);
-    if (!player || !player.isAlive) {
+    if (!player || !player.isAlive || !player.isConnected) {
       console.log(`⚠️ handlePlayerInput ignored: player=${playerId}, exists=${!!player}, alive=${player?.isAlive}`);
       return;
     }
+
+    // A longer direction would mean a faster spinner
+    direction = sanitizeDirection(direction);
     
     console.log(`🎮 Input received from ${player.name} (${playerId}):`, {
       direction: { x: direction.x.toFixed(2), y: direction.y.toFixed(2) },
@@ -380,41 +931,44 @@ export class GameRoom {
     });
     
     player.spinner.targetDirection = direction;
+    this.lagCompensation.recordInput(playerId, direction, sequenceNumber, clientTimestamp);
+    this.lastProcessedInputs.set(playerId, sequenceNumber);
+    this.lastActivityAt = Date.now();
   }
 
   /**
    * Start the game loop
    */
   private startGameLoop(): void {
-    this.lastUpdateTime = Date.now();
-    
-    this.gameLoopInterval = setInterval(() => {
-      this.updateGame();
-      this.broadcastGameState();
-    }, 1000 / GAME_CONFIG.TARGET_FPS);
+    this.gameLoop.start();
   }
 
   /**
    * Stop the game loop
    */
   private stopGameLoop(): void {
-    if (this.gameLoopInterval) {
-      clearInterval(this.gameLoopInterval);
-      this.gameLoopInterval = null;
-    }
+    this.gameLoop.stop();
   }
 
   /**
-   * Update game physics and state
+   * Advance game physics and state by one fixed tick
    */
-  private updateGame(): void {
+  private updateGame(deltaTime: number): void {
+    if (!this.room.isPlaying) return;
+
     const currentTime = Date.now();
-    const deltaTime = (currentTime - this.lastUpdateTime) / 1000;
-    this.lastUpdateTime = currentTime;
 
     // Update time elapsed
     this.room.gameState.timeElapsed += deltaTime;
 
+    // Let bots pick a direction before physics runs
+    for (const [botId, controller] of this.bots) {
+      const bot = this.room.gameState.players.get(botId);
+      if (bot) {
+        controller.update(bot, this.room.gameState.players.values(), this.room.gameState.dots, currentTime, this.room.settings);
+      }
+    }
+
     // Update all players
     for (const player of this.room.gameState.players.values()) {
       if (!player.isAlive) continue;
@@ -424,6 +978,9 @@ export class GameRoom {
       this.checkBoundaryCollisions(player);
     }
 
+    // Record where everyone is this tick so collisions can be rewound
+    this.lagCompensation.takeSnapshot(this.room.gameState);
+
     // Check player-to-player collisions
     this.checkPlayerCollisions();
 
@@ -435,24 +992,8 @@ export class GameRoom {
    * Update spinner physics
    */
   private updatePlayerSpinner(spinner: Spinner, deltaTime: number): void {
-    // Update movement
-    const targetVelocity = scale(spinner.targetDirection, spinner.maxSpeed);
-    const velocityDiff = scale(
-      createVector2(
-        targetVelocity.x - spinner.velocity.x,
-        targetVelocity.y - spinner.velocity.y
-      ),
-      GAME_CONFIG.ACCELERATION * deltaTime
-    );
-
-    spinner.velocity = add(spinner.velocity, velocityDiff);
-
-    // Apply damping
-    spinner.velocity = scale(spinner.velocity, GAME_CONFIG.MOVEMENT_DAMPING);
-
-    // Update position
-    const movement = scale(spinner.velocity, deltaTime);
-    spinner.position = add(spinner.position, movement);
+    // Update movement, clients replay the same step when predicting
+    stepSpinnerMovement(spinner, deltaTime);
 
     // Update rotation
     spinner.rotation += spinner.spinSpeed * deltaTime;
@@ -499,7 +1040,8 @@ export class GameRoom {
   private checkBoundaryCollisions(player: PlayerData): void {
     const spinner = player.spinner;
     const radius = spinner.size / 2; // Use radius instead of full size
-    const bounceBoost = 0.8; // Energy retained after bounce
+    const { arenaWidth, arenaHeight } = this.room.settings;
+    const bounceBoost = this.room.settings.bounceBoost; // Energy retained after bounce
     let correctedPosition = false;
 
     // Left boundary
@@ -510,8 +1052,8 @@ export class GameRoom {
     }
     
     // Right boundary
-    if (spinner.position.x + radius > GAME_CONFIG.ARENA_WIDTH) {
-      spinner.position.x = GAME_CONFIG.ARENA_WIDTH - radius;
+    if (spinner.position.x + radius > arenaWidth) {
+      spinner.position.x = arenaWidth - radius;
       spinner.velocity.x = -Math.abs(spinner.velocity.x) * bounceBoost;
       correctedPosition = true;
     }
@@ -524,8 +1066,8 @@ export class GameRoom {
     }
     
     // Bottom boundary
-    if (spinner.position.y + radius > GAME_CONFIG.ARENA_HEIGHT) {
-      spinner.position.y = GAME_CONFIG.ARENA_HEIGHT - radius;
+    if (spinner.position.y + radius > arenaHeight) {
+      spinner.position.y = arenaHeight - radius;
       spinner.velocity.y = -Math.abs(spinner.velocity.y) * bounceBoost;
       correctedPosition = true;
     }
@@ -598,7 +1140,7 @@ export class GameRoom {
     const size1 = player1.spinner.size;
     const size2 = player2.spinner.size;
     const sizeRatio = Math.max(size1, size2) / Math.min(size1, size2);
-    const eliminationThreshold = 1.3; // Larger player must be 30% bigger to eliminate
+    const eliminationThreshold = this.room.settings.eliminationRatio; // How much bigger the larger player must be to eliminate
     
     console.log(`⚔️ Player collision: ${player1.name} (${size1.toFixed(1)}) vs ${player2.name} (${size2.toFixed(1)}), ratio: ${sizeRatio.toFixed(2)}`);
     
@@ -613,12 +1155,22 @@ export class GameRoom {
         victor = player2;
         victim = player1;
       }
+
+      // Only eliminate once the victim could have seen the collision on their screen.
+      // No bounce until then on purpose: it would push the spinners apart before the victim's view catches up,
+      // and the hit would never count. They stay overlapped, and the hit is re-checked each tick for up to
+      // the victim's latency, unless the victim gets clear first.
+      if (!this.isHitVisibleToVictim(victor, victim)) {
+        console.log(`⏪ Elimination of ${victim.name} deferred: not yet visible at their latency`);
+        return;
+      }
       
       // Eliminate victim
       victim.isAlive = false;
+      this.recordElimination(victim, victor.id);
       
-      // Grow victor (gain 50% of victim's size)
-      const growthAmount = victim.spinner.size * 0.5;
+      // Grow victor by a share of the victim's size
+      const growthAmount = victim.spinner.size * this.room.settings.killGrowthRatio;
       victor.spinner.size += growthAmount;
       victor.score = victor.spinner.size;
       
@@ -641,6 +1193,16 @@ export class GameRoom {
     }
   }
 
+  /**
+   * Rewind to the moment the victim's client was showing and confirm the spinners overlapped then
+   */
+  private isHitVisibleToVictim(victor: PlayerData, victim: PlayerData): boolean {
+    // Bots see the live server state
+    const latency = victim.isBot ? 0 : this.lagCompensation.estimatePlayerLatency(victim.id);
+
+    return this.lagCompensation.validateHit(victor.id, victim.id, Date.now(), latency).isValid;
+  }
+
   /**
    * Bounce two players apart when they collide
    */
@@ -700,11 +1262,13 @@ export class GameRoom {
    * Spawn a new dot to replace collected ones
    */
   private spawnNewDot(): void {
+    const { arenaWidth, arenaHeight } = this.room.settings;
+
     this.room.gameState.dots.push({
       id: generateId(),
       position: createVector2(
-        randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, GAME_CONFIG.ARENA_WIDTH - GAME_CONFIG.DOT_RESPAWN_MARGIN),
-        randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, GAME_CONFIG.ARENA_HEIGHT - GAME_CONFIG.DOT_RESPAWN_MARGIN)
+        randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, arenaWidth - GAME_CONFIG.DOT_RESPAWN_MARGIN),
+        randomFloat(GAME_CONFIG.DOT_RESPAWN_MARGIN, arenaHeight - GAME_CONFIG.DOT_RESPAWN_MARGIN)
       ),
       size: randomFloat(GAME_CONFIG.DOT_MIN_SIZE, GAME_CONFIG.DOT_MAX_SIZE),
       value: randomFloat(GAME_CONFIG.DOT_GROWTH_MIN, GAME_CONFIG.DOT_GROWTH_MAX)
@@ -715,6 +1279,9 @@ export class GameRoom {
    * Check if game should end
    */
   private checkGameOver(): void {
+    // Already over, ending it again would report the match twice
+    if (!this.room.isPlaying) return;
+
     const alivePlayers = Array.from(this.room.gameState.players.values()).filter(p => p.isAlive);
     const totalPlayers = this.room.gameState.players.size;
     
@@ -725,13 +1292,126 @@ export class GameRoom {
       // Game over
       this.room.gameState.phase = GamePhase.GAME_OVER;
       this.room.isPlaying = false;
+      this.phaseChangedAt = Date.now();
       this.stopGameLoop();
       
       const winner = alivePlayers.length === 1 ? alivePlayers[0] : null;
       
       console.log(`🏆 Game over in room ${this.room.code}, winner: ${winner?.name || 'None'}`);
       
-      this.io.to(this.room.code).emit('GAME_OVER', { winner });
+      this.io.to(this.room.code).emit('GAME_OVER', { 
+        winner,
+        results: this.buildMatchResults()
+      });
+
+      this.onMatchComplete?.(this.buildMatchRecord(winner));
+    }
+  }
+
+  /**
+   * Start tracking the match for the match history
+   */
+  private startMatchRecord(): void {
+    this.matchStartedAt = this.phaseChangedAt;
+    this.matchEliminations = [];
+    this.matchParticipants = new Map(Array.from(this.room.gameState.players.values()).map(player => [player.id, {
+      playerId: player.id,
+      name: player.name,
+      isBot: player.isBot,
+      placement: 0,
+      finalSize: player.spinner.size,
+      eliminations: 0,
+      eliminatedBy: null,
+      survived: true
+    }]));
+  }
+
+  /**
+   * Note an elimination for the match history, eliminatedBy is null for players who left
+   */
+  private recordElimination(victim: PlayerData, eliminatedBy: string | null): void {
+    const participant = this.matchParticipants.get(victim.id);
+    if (!participant) return;
+
+    participant.survived = false;
+    participant.eliminatedBy = eliminatedBy;
+    participant.finalSize = victim.spinner.size;
+
+    const victor = eliminatedBy ? this.matchParticipants.get(eliminatedBy) : undefined;
+    if (victor) {
+      victor.eliminations++;
+    }
+
+    this.matchEliminations.push({ playerId: victim.id, eliminatedBy, atMs: Date.now() - this.matchStartedAt });
+  }
+
+  /**
+   * Build the finished match, survivors first by size and then the most recently eliminated.
+   * Players who left mid-match are included.
+   */
+  private buildMatchRecord(winner: PlayerData | null): MatchRecord {
+    for (const player of this.room.gameState.players.values()) {
+      const participant = this.matchParticipants.get(player.id);
+      if (participant?.survived) {
+        participant.finalSize = player.spinner.size;
+      }
+    }
+
+    const eliminationOrder = this.matchEliminations.map(elimination => elimination.playerId);
+    const participants = Array.from(this.matchParticipants.values())
+      .sort((a, b) => Number(b.survived) - Number(a.survived) ||
+        (a.survived ? b.finalSize - a.finalSize : eliminationOrder.indexOf(b.playerId) - eliminationOrder.indexOf(a.playerId)))
+      .map((participant, index) => ({ ...participant, placement: index + 1 }));
+
+    return {
+      id: generateToken(12),
+      roomCode: this.room.code,
+      startedAt: this.matchStartedAt,
+      endedAt: this.phaseChangedAt,
+      winnerId: winner?.id ?? null,
+      participants,
+      eliminations: [...this.matchEliminations]
+    };
+  }
+
+  /**
+   * Build the public listing entry for the room browser
+   */
+  getSummary(now: number = Date.now()): RoomSummary {
+    return {
+      code: this.room.code,
+      hostName: this.room.players.get(this.room.host)?.name ?? '',
+      playerCount: this.room.players.size,
+      maxPlayers: this.room.settings.maxPlayers,
+      spectatorCount: this.room.spectators.size,
+      phase: this.room.gameState.phase,
+      ageSeconds: Math.floor((now - this.room.createdAt.getTime()) / 1000)
+    };
+  }
+
+  /**
+   * Check whether the room should be reaped, returning the reason if so
+   */
+  getExpiryReason(now: number = Date.now()): RoomExpiryReason | null {
+    const toMs = (minutes: number): number => minutes * 60 * 1000;
+
+    if (now - this.room.createdAt.getTime() > toMs(GAME_CONFIG.ROOM_EXPIRY_MINUTES)) {
+      return RoomExpiryReason.MAX_AGE;
+    }
+
+    const idleTime = now - this.lastActivityAt;
+
+    switch (this.room.gameState.phase) {
+      case GamePhase.PLAYING:
+        return idleTime > toMs(GAME_CONFIG.ROOM_INACTIVITY_MINUTES) ? RoomExpiryReason.INACTIVE : null;
+      case GamePhase.GAME_OVER:
+        return now - this.phaseChangedAt > toMs(GAME_CONFIG.GAME_OVER_EXPIRY_MINUTES)
+          ? RoomExpiryReason.GAME_OVER_TIMEOUT
+          : null;
+      case GamePhase.LOBBY:
+        return idleTime > toMs(GAME_CONFIG.LOBBY_IDLE_MINUTES) ? RoomExpiryReason.LOBBY_IDLE : null;
+      default:
+        return null;
     }
   }
 
@@ -748,4 +1428,24 @@ export class GameRoom {
   get isPlaying(): boolean { return this.room.isPlaying; }
   get isEmpty(): boolean { return this.room.players.size === 0; }
   get createdAt(): Date { return this.room.createdAt; }
+  get isPrivate(): boolean { return this.room.isPrivate; }
+  get isMatchmade(): boolean { return this.room.isMatchmade; }
+  get isFull(): boolean { return this.room.players.size >= this.room.settings.maxPlayers; }
+  get settings(): RoomSettings { return { ...this.room.settings }; }
+  get inviteToken(): string | null { return this.room.inviteToken; }
+  get phase(): GamePhase { return this.room.gameState.phase; }
+  get lastActivity(): number { return this.lastActivityAt; }
+  get requiredRematchVotes(): number {
+    return Array.from(this.room.players.values()).filter(p => p.isConnected && !p.isBot).length;
+  }
+  get botCount(): number { return this.bots.size; }
+  get hasHumanPlayers(): boolean { return this.room.players.size > this.bots.size; }
+  get players(): PlayerData[] { return Array.from(this.room.players.values()); }
+  get spectators(): SpectatorData[] { return Array.from(this.room.spectators.values()); }
+  get loopMetrics(): GameLoopMetrics { return this.gameLoop.getMetrics(); }
+
+  hasPlayer(playerId: string): boolean { return this.room.players.has(playerId); }
+  hasMember(playerId: string): boolean { return this.room.players.has(playerId) || this.room.spectators.has(playerId); }
+  isSpectator(playerId: string): boolean { return this.room.spectators.has(playerId); }
+  getPlayer(playerId: string): PlayerData | undefined { return this.room.players.get(playerId); }
 }
\ No newline at end of file
@@ -3,7 +3,8 @@
  * Implements server-side rewind and hit validation
  */
 
-import { Vector2, PlayerData } from './types';
+import { Vector2, PlayerData, GAME_CONFIG } from './types';
+import { lerp } from './utils';
 
 interface PlayerSnapshot {
   playerId: string;
@@ -27,21 +28,38 @@ interface InputEvent {
   clientTimestamp: number;
 }
 
+// One second of ticks, plus one so a full second always fits
+const DEFAULT_HISTORY_CAPACITY = GAME_CONFIG.TARGET_FPS + 1;
+
+/** How a rewind request was resolved */
+interface RewindStats {
+  interpolated: number;
+  clamped: number;
+  missed: number;
+}
+
 /**
  * Lag Compensation Manager
  * Handles server-side rewind for fair hit detection
  */
 export class LagCompensationManager {
-  private worldHistory: WorldSnapshot[] = [];
   private maxHistoryDuration = 1000; // 1 second of history
   private inputBuffer: InputEvent[] = [];
 
+  // Fixed-capacity ring buffer of snapshots, oldest at historyStart
+  private worldHistory: (WorldSnapshot | undefined)[];
+  private historyStart = 0;
+  private historyCount = 0;
+  private rewindStats: RewindStats = { interpolated: 0, clamped: 0, missed: 0 };
+
+  constructor(capacity: number = DEFAULT_HISTORY_CAPACITY) {
+    this.worldHistory = new Array(capacity);
+  }
+
   /**
    * Store world state snapshot
    */
-  takeSnapshot(gameState: any): void {
-    const timestamp = Date.now();
-    
+  takeSnapshot(gameState: any, timestamp: number = Date.now()): void {
     const players: PlayerSnapshot[] = [];
     for (const [playerId, playerData] of gameState.players) {
       players.push({
@@ -59,8 +77,18 @@ export class LagCompensationManager {
       players
     };
 
-    this.worldHistory.push(snapshot);
-    this.cleanOldSnapshots();
+    const capacity = this.worldHistory.length;
+
+    if (this.historyCount < capacity) {
+      this.worldHistory[(this.historyStart + this.historyCount) % capacity] = snapshot;
+      this.historyCount++;
+    } else {
+      // Full, overwrite the oldest
+      this.worldHistory[this.historyStart] = snapshot;
+      this.historyStart = (this.historyStart + 1) % capacity;
+    }
+
+    this.cleanOldSnapshots(timestamp);
   }
 
   /**
@@ -137,16 +165,6 @@ export class LagCompensationManager {
     const hitRange = (attackerState.size + targetState.size) / 2;
     const isValid = distance <= hitRange;
 
-    console.log(`🎯 Lag compensation validation:`, {
-      attackerPlayerId,
-      targetPlayerId,
-      rewindTime: rewindTime - Date.now(),
-      distance: distance.toFixed(1),
-      hitRange: hitRange.toFixed(1),
-      isValid,
-      latency: estimatedLatency
-    });
-
     return {
       isValid,
       rewindTime,
@@ -224,7 +242,8 @@ export class LagCompensationManager {
   }
 
   /**
-   * Estimate player latency based on input timestamps
+   * Estimate player latency based on input timestamps.
+   * Clients stamp inputs with their clock-synced estimate of server time, so the difference is one-way delay.
    */
   estimatePlayerLatency(playerId: string, sampleSize: number = 10): number {
     const recentInputs = this.inputBuffer
@@ -245,27 +264,77 @@ export class LagCompensationManager {
 
   // Private methods
 
+  /**
+   * Snapshot at the given time, interpolated between the two snapshots that bracket it.
+   * Times outside the history clamp to the oldest/newest snapshot if within maxHistoryDuration.
+   */
   private getSnapshotAtTime(timestamp: number): WorldSnapshot | null {
-    if (this.worldHistory.length === 0) return null;
+    if (this.historyCount === 0) {
+      this.rewindStats.missed++;
+      return null;
+    }
+
+    const oldest = this.snapshotAt(0);
+    const newest = this.snapshotAt(this.historyCount - 1);
 
-    // Find the snapshot closest to the requested time
-    let bestSnapshot = this.worldHistory[0];
-    let bestTimeDiff = Math.abs(bestSnapshot.timestamp - timestamp);
+    if (timestamp <= oldest.timestamp || timestamp >= newest.timestamp) {
+      const edge = timestamp <= oldest.timestamp ? oldest : newest;
 
-    for (const snapshot of this.worldHistory) {
-      const timeDiff = Math.abs(snapshot.timestamp - timestamp);
-      if (timeDiff < bestTimeDiff) {
-        bestSnapshot = snapshot;
-        bestTimeDiff = timeDiff;
+      if (Math.abs(edge.timestamp - timestamp) > this.maxHistoryDuration) {
+        this.rewindStats.missed++;
+        return null;
       }
+
+      this.rewindStats.clamped++;
+      return edge;
     }
 
-    // If the time difference is too large, consider the snapshot invalid
-    if (bestTimeDiff > this.maxHistoryDuration) {
-      return null;
+    // Binary search for the first snapshot at or after the timestamp
+    let low = 1;
+    let high = this.historyCount - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.snapshotAt(mid).timestamp < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const after = this.snapshotAt(low);
+    const before = this.snapshotAt(low - 1);
+    if (after.timestamp === timestamp) {
+      return after;
     }
 
-    return bestSnapshot;
+    this.rewindStats.interpolated++;
+    return this.interpolateSnapshots(before, after, timestamp);
+  }
+
+  private interpolateSnapshots(before: WorldSnapshot, after: WorldSnapshot, timestamp: number): WorldSnapshot {
+    const t = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+
+    const players = before.players.map(from => {
+      const to = after.players.find(p => p.playerId === from.playerId);
+      if (!to) return { ...from, timestamp };
+
+      return {
+        playerId: from.playerId,
+        timestamp,
+        position: lerp(from.position, to.position, t),
+        velocity: lerp(from.velocity, to.velocity, t),
+        size: from.size + (to.size - from.size) * t,
+        // Anyone eliminated across the gap is treated as already gone
+        isAlive: from.isAlive && to.isAlive
+      };
+    });
+
+    return { timestamp, players };
+  }
+
+  /** Snapshot by age order, 0 being the oldest */
+  private snapshotAt(index: number): WorldSnapshot {
+    return this.worldHistory[(this.historyStart + index) % this.worldHistory.length]!;
   }
 
   private calculateDistance(pos1: Vector2, pos2: Vector2): number {
@@ -274,34 +343,50 @@ export class LagCompensationManager {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
-  private cleanOldSnapshots(): void {
-    const cutoffTime = Date.now() - this.maxHistoryDuration;
-    this.worldHistory = this.worldHistory.filter(
-      snapshot => snapshot.timestamp > cutoffTime
-    );
+  private cleanOldSnapshots(now: number = Date.now()): void {
+    const cutoffTime = now - this.maxHistoryDuration;
 
-    // Clean old inputs too
-    this.inputBuffer = this.inputBuffer.filter(
-      input => input.timestamp > cutoffTime
-    );
+    // Always keep the newest snapshot so there is something to rewind to
+    while (this.historyCount > 1 && this.snapshotAt(0).timestamp <= cutoffTime) {
+      this.worldHistory[this.historyStart] = undefined;
+      this.historyStart = (this.historyStart + 1) % this.worldHistory.length;
+      this.historyCount--;
+    }
+
+    // Clean old inputs too (they arrive in server time order)
+    let staleInputs = 0;
+    while (staleInputs < this.inputBuffer.length && this.inputBuffer[staleInputs].timestamp <= cutoffTime) {
+      staleInputs++;
+    }
+    if (staleInputs > 0) {
+      this.inputBuffer.splice(0, staleInputs);
+    }
   }
 
   /**
    * Get performance metrics
    */
-  getMetrics(): {
+  getMetrics(now: number = Date.now()): {
     historySize: number;
+    historyCapacity: number;
     inputBufferSize: number;
     oldestSnapshot: number;
     newestSnapshot: number;
+    interpolatedRewinds: number;
+    clampedRewinds: number;
+    missedRewinds: number;
   } {
     return {
-      historySize: this.worldHistory.length,
+      historySize: this.historyCount,
+      historyCapacity: this.worldHistory.length,
       inputBufferSize: this.inputBuffer.length,
-      oldestSnapshot: this.worldHistory.length > 0 ? 
-        Date.now() - this.worldHistory[0].timestamp : 0,
-      newestSnapshot: this.worldHistory.length > 0 ? 
-        Date.now() - this.worldHistory[this.worldHistory.length - 1].timestamp : 0
+      oldestSnapshot: this.historyCount > 0 ?
+        now - this.snapshotAt(0).timestamp : 0,
+      newestSnapshot: this.historyCount > 0 ?
+        now - this.snapshotAt(this.historyCount - 1).timestamp : 0,
+      interpolatedRewinds: this.rewindStats.interpolated,
+      clampedRewinds: this.rewindStats.clamped,
+      missedRewinds: this.rewindStats.missed
     };
   }
 
@@ -309,8 +394,11 @@ export class LagCompensationManager {
    * Clear all history (for debugging or reset)
    */
   clear(): void {
-    this.worldHistory = [];
+    this.worldHistory.fill(undefined);
+    this.historyStart = 0;
+    this.historyCount = 0;
     this.inputBuffer = [];
+    this.rewindStats = { interpolated: 0, clamped: 0, missed: 0 };
     console.log('🧹 Lag compensation history cleared');
   }
 }
\ No newline at end of file
@@ -0,0 +1,261 @@
+/**
+ * Match history and player profile storage
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GAME_CONFIG, MatchParticipant, MatchRecord, PlayerProfile } from './types';
+
+export interface MatchHistoryQuery {
+  limit?: number;
+  /** Only matches that ended before this time, for paging back through history */
+  before?: number;
+}
+
+/**
+ * Storage for finished matches and the player profiles built from them
+ */
+export interface MatchRepository {
+  recordMatch(match: MatchRecord): Promise<void>;
+  getMatch(matchId: string): Promise<MatchRecord | null>;
+  getPlayerProfile(playerId: string): Promise<PlayerProfile | null>;
+  /** Most recent first */
+  getPlayerMatches(playerId: string, query?: MatchHistoryQuery): Promise<MatchRecord[]>;
+}
+
+/**
+ * Add a finished match to a player's totals
+ */
+const applyMatchToProfile = (
+  profile: PlayerProfile | undefined,
+  match: MatchRecord,
+  participant: MatchParticipant
+): PlayerProfile => ({
+  playerId: participant.playerId,
+  name: participant.name,
+  matchesPlayed: (profile?.matchesPlayed ?? 0) + 1,
+  wins: (profile?.wins ?? 0) + (match.winnerId === participant.playerId ? 1 : 0),
+  eliminations: (profile?.eliminations ?? 0) + participant.eliminations,
+  deaths: (profile?.deaths ?? 0) + (participant.survived ? 0 : 1),
+  bestSize: Math.max(profile?.bestSize ?? 0, participant.finalSize),
+  firstPlayedAt: profile?.firstPlayedAt ?? match.startedAt,
+  lastPlayedAt: match.endedAt
+});
+
+/**
+ * In Memory Match Repository
+ * Keeps matches and profiles in maps. Only the newest matches are kept, profile totals are never dropped.
+ */
+export class InMemoryMatchRepository implements MatchRepository {
+  protected matches = new Map<string, MatchRecord>(); // matchId -> match, oldest first
+  protected profiles = new Map<string, PlayerProfile>(); // playerId -> lifetime totals
+  private playerMatches = new Map<string, string[]>(); // playerId -> match IDs, oldest first
+  private maxMatches: number;
+
+  constructor(maxMatches: number = GAME_CONFIG.MATCH_STORE_MAX_MATCHES) {
+    this.maxMatches = maxMatches;
+  }
+
+  async recordMatch(match: MatchRecord): Promise<void> {
+    this.indexMatch(match);
+
+    // Bots have no identity to build a profile for
+    for (const participant of match.participants) {
+      if (participant.isBot) continue;
+      this.profiles.set(participant.playerId, applyMatchToProfile(this.profiles.get(participant.playerId), match, participant));
+    }
+
+    this.trimHistory();
+  }
+
+  async getMatch(matchId: string): Promise<MatchRecord | null> {
+    return this.matches.get(matchId) ?? null;
+  }
+
+  async getPlayerProfile(playerId: string): Promise<PlayerProfile | null> {
+    return this.profiles.get(playerId) ?? null;
+  }
+
+  async getPlayerMatches(playerId: string, query: MatchHistoryQuery = {}): Promise<MatchRecord[]> {
+    const limit = query.limit ?? GAME_CONFIG.MATCH_HISTORY_PAGE_SIZE;
+    const before = query.before ?? Infinity;
+    const matchIds = this.playerMatches.get(playerId) ?? [];
+
+    const matches: MatchRecord[] = [];
+    for (let i = matchIds.length - 1; i >= 0 && matches.length < limit; i--) {
+      const match = this.matches.get(matchIds[i]);
+      if (match && match.endedAt < before) {
+        matches.push(match);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Store a match and link it to everyone who played in it
+   */
+  protected indexMatch(match: MatchRecord): void {
+    this.matches.set(match.id, match);
+
+    for (const participant of match.participants) {
+      if (participant.isBot) continue;
+
+      const matchIds = this.playerMatches.get(participant.playerId) ?? [];
+      matchIds.push(match.id);
+      this.playerMatches.set(participant.playerId, matchIds);
+    }
+  }
+
+  private trimHistory(): void {
+    for (const [matchId, match] of this.matches) {
+      if (this.matches.size <= this.maxMatches) break;
+
+      this.matches.delete(matchId);
+      for (const participant of match.participants) {
+        const matchIds = this.playerMatches.get(participant.playerId);
+        if (participant.isBot || !matchIds) continue;
+
+        matchIds.splice(matchIds.indexOf(matchId), 1);
+        if (matchIds.length === 0) {
+          this.playerMatches.delete(participant.playerId);
+        }
+      }
+    }
+  }
+}
+
+interface MatchStoreFile {
+  version: 1;
+  matches: MatchRecord[];
+  profiles: PlayerProfile[];
+}
+
+// Records serialised per write, so saving a large store never blocks the game loop for long
+const SAVE_CHUNK_SIZE = 200;
+
+/**
+ * Write records as comma separated JSON, yielding to the event loop between chunks
+ */
+const writeChunked = async (file: fs.FileHandle, records: object[]): Promise<void> => {
+  for (let i = 0; i < records.length; i += SAVE_CHUNK_SIZE) {
+    const chunk = records.slice(i, i + SAVE_CHUNK_SIZE).map(record => JSON.stringify(record)).join(',');
+    await file.write(i > 0 ? `,${chunk}` : chunk);
+  }
+};
+
+/**
+ * JSON File Match Repository
+ * Serves reads from memory and writes the whole store to a JSON file shortly after each match.
+ * Writes go to a temporary file first so a crash never leaves a half written store.
+ */
+export class JsonFileMatchRepository extends InMemoryMatchRepository {
+  private filePath: string;
+  private saveDelayMs: number;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(
+    filePath: string,
+    maxMatches: number = GAME_CONFIG.MATCH_STORE_MAX_MATCHES,
+    saveDelayMs: number = GAME_CONFIG.MATCH_STORE_SAVE_DELAY_MS
+  ) {
+    super(maxMatches);
+    this.filePath = filePath;
+    this.saveDelayMs = saveDelayMs;
+  }
+
+  /**
+   * Read the store from disk. A missing file is an empty store. A corrupt file is moved
+   * aside so the next save cannot overwrite it, anything else that stops the read throws.
+   */
+  async load(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    let store: MatchStoreFile;
+    try {
+      store = JSON.parse(contents);
+      if (!Array.isArray(store.matches) || !Array.isArray(store.profiles)) {
+        throw new Error('Unexpected store layout');
+      }
+    } catch (error) {
+      const asidePath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, asidePath);
+      console.error(`❌ Match history in ${this.filePath} is unreadable, moved it to ${asidePath} and starting empty:`, error);
+      return;
+    }
+
+    for (const match of store.matches) {
+      this.indexMatch(match);
+    }
+    for (const profile of store.profiles) {
+      this.profiles.set(profile.playerId, profile);
+    }
+
+    console.log(`📂 Loaded ${this.matches.size} matches and ${this.profiles.size} player profiles from ${this.filePath}`);
+  }
+
+  async recordMatch(match: MatchRecord): Promise<void> {
+    await super.recordMatch(match);
+    this.scheduleSave();
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the save delay
+   */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) {
+      await this.pendingSave;
+      return;
+    }
+
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    const save = this.pendingSave.then(() => this.save());
+    this.pendingSave = save.catch(() => {});
+    await save;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      // One write at a time, in order
+      this.pendingSave = this.pendingSave
+        .then(() => this.save())
+        .catch(error => console.error(`❌ Failed to save match history to ${this.filePath}:`, error));
+    }, this.saveDelayMs);
+  }
+
+  /**
+   * Write a MatchStoreFile a chunk at a time. Records are never changed once stored,
+   * so the snapshot taken up front stays consistent while matches keep coming in.
+   */
+  private async save(): Promise<void> {
+    const matches = Array.from(this.matches.values());
+    const profiles = Array.from(this.profiles.values());
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const file = await fs.open(tempPath, 'w');
+    try {
+      await file.write('{"version":1,"matches":[');
+      await writeChunked(file, matches);
+      await file.write('],"profiles":[');
+      await writeChunked(file, profiles);
+      await file.write(']}');
+    } finally {
+      await file.close();
+    }
+
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
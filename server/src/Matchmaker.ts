@@ -0,0 +1,288 @@
+/**
+ * Quick-play matchmaking queue
+ * Groups queued sockets into rooms and starts matchmade rooms automatically
+ */
+
+import { Server, Socket } from 'socket.io';
+import { GameRoom } from './GameRoom';
+import { GAME_CONFIG, GamePhase } from './types';
+import { ErrorCode } from './protocol';
+
+/** Room registry operations the matchmaker needs from the server */
+export interface MatchmakerHooks {
+  /** Public lobby rooms that quick-play players may be dropped into */
+  getOpenRooms(): GameRoom[];
+  /** Create and register a new matchmade room */
+  createRoom(): GameRoom;
+  /** Add a socket to a room as a player, returning false if it failed */
+  placePlayer(socket: Socket, gameRoom: GameRoom, playerName: string): boolean;
+  /** Destroy and unregister a room created by createRoom that nobody could be placed in */
+  removeRoom(gameRoom: GameRoom): void;
+  /** Whether a room is still registered */
+  hasRoom(roomCode: string): boolean;
+}
+
+interface QueuedPlayer {
+  socket: Socket;
+  playerName: string;
+  queuedAt: number;
+}
+
+/**
+ * Matchmaker
+ * Keeps a FIFO queue of quick-play sockets and runs start countdowns for matchmade rooms.
+ * Players left waiting too long are put in a room topped up with bots.
+ */
+export class Matchmaker {
+  private io: Server;
+  private hooks: MatchmakerHooks;
+  private queue: QueuedPlayer[] = [];
+  private countdowns = new Map<string, NodeJS.Timeout>(); // roomCode -> start timer
+  private averageArrivalMs: number = GAME_CONFIG.MATCHMAKING_DEFAULT_ETA_MS;
+  private lastArrivalAt: number | null = null;
+  private botFillTimer: NodeJS.Timeout | null = null;
+
+  constructor(io: Server, hooks: MatchmakerHooks) {
+    this.io = io;
+    this.hooks = hooks;
+  }
+
+  /**
+   * Put a socket in the quick-play queue
+   */
+  enqueue(socket: Socket, playerName: string): { success: boolean; error?: string } {
+    if (this.isQueued(socket.id)) {
+      return { success: false, error: 'Already in queue' };
+    }
+
+    this.recordArrival();
+    this.queue.push({ socket, playerName, queuedAt: Date.now() });
+
+    console.log(`⏳ ${playerName} (${socket.id}) joined the quick-play queue (${this.queue.length} waiting)`);
+
+    this.processQueue();
+    return { success: true };
+  }
+
+  /**
+   * Remove a socket from the queue
+   */
+  dequeue(socketId: string): boolean {
+    const index = this.queue.findIndex(entry => entry.socket.id === socketId);
+    if (index === -1) return false;
+
+    this.queue.splice(index, 1);
+    this.scheduleBotFill();
+    this.broadcastQueueStatus();
+    return true;
+  }
+
+  /**
+   * Place queued players into open rooms, then form new rooms from whoever is left
+   */
+  processQueue(): void {
+    // Fill existing lobbies first, oldest queued player first
+    for (const entry of [...this.queue]) {
+      const openRoom = this.findOpenRoom();
+      if (!openRoom) break;
+
+      this.removeFromQueue(entry);
+      if (this.placeQueuedPlayer(entry, openRoom)) {
+        this.updateCountdown(openRoom);
+      }
+    }
+
+    // Form new rooms once enough players are waiting
+    while (this.queue.length >= GAME_CONFIG.MATCHMAKING_MIN_PLAYERS) {
+      const group = this.queue.splice(0, GAME_CONFIG.MAX_PLAYERS_PER_ROOM);
+      const gameRoom = this.hooks.createRoom();
+
+      const placed = group.filter(entry => this.placeQueuedPlayer(entry, gameRoom));
+      if (placed.length === 0) {
+        this.hooks.removeRoom(gameRoom);
+        continue;
+      }
+
+      console.log(`🤝 Matched ${placed.length} players into room ${gameRoom.code}`);
+      this.updateCountdown(gameRoom);
+    }
+
+    this.scheduleBotFill();
+    this.broadcastQueueStatus();
+  }
+
+  /**
+   * Put everyone still waiting into a new room and fill the empty seats with bots
+   */
+  fillWithBots(): GameRoom | null {
+    this.clearBotFillTimer();
+    if (this.queue.length === 0) return null;
+
+    const group = this.queue.splice(0, GAME_CONFIG.MAX_PLAYERS_PER_ROOM);
+    const gameRoom = this.hooks.createRoom();
+
+    const placed = group.filter(entry => this.placeQueuedPlayer(entry, gameRoom));
+    if (placed.length === 0) {
+      // Nobody to play with the bots
+      this.hooks.removeRoom(gameRoom);
+      this.scheduleBotFill();
+      this.broadcastQueueStatus();
+      return null;
+    }
+
+    while (gameRoom.playerCount < GAME_CONFIG.MATCHMAKING_BOT_FILL_TARGET) {
+      if (!gameRoom.spawnBot().success) break;
+    }
+
+    console.log(`🤖 Filled room ${gameRoom.code} with ${gameRoom.botCount} bot(s) for ${placed.length} waiting player(s)`);
+
+    this.updateCountdown(gameRoom);
+    this.scheduleBotFill();
+    this.broadcastQueueStatus();
+    return gameRoom;
+  }
+
+  /**
+   * Start or cancel a matchmade room's countdown based on its player count
+   */
+  updateCountdown(gameRoom: GameRoom): void {
+    if (!gameRoom.isMatchmade) return;
+
+    const hasEnoughPlayers = gameRoom.phase === GamePhase.LOBBY &&
+      gameRoom.playerCount >= GAME_CONFIG.MATCHMAKING_MIN_PLAYERS;
+    const hasCountdown = this.countdowns.has(gameRoom.code);
+
+    if (hasEnoughPlayers && !hasCountdown) {
+      this.startCountdown(gameRoom);
+    } else if (!hasEnoughPlayers && hasCountdown) {
+      this.cancelCountdown(gameRoom.code);
+      this.io.to(gameRoom.code).emit('MATCH_COUNTDOWN_CANCELLED', { roomCode: gameRoom.code });
+    }
+  }
+
+  /**
+   * Cancel a room's countdown without notifying anyone
+   */
+  cancelCountdown(roomCode: string): void {
+    const timer = this.countdowns.get(roomCode);
+    if (timer) {
+      clearTimeout(timer);
+      this.countdowns.delete(roomCode);
+    }
+  }
+
+  /**
+   * Cancel all countdowns
+   */
+  destroy(): void {
+    for (const timer of this.countdowns.values()) {
+      clearTimeout(timer);
+    }
+    this.countdowns.clear();
+    this.clearBotFillTimer();
+    this.queue = [];
+  }
+
+  isQueued(socketId: string): boolean {
+    return this.queue.some(entry => entry.socket.id === socketId);
+  }
+
+  private startCountdown(gameRoom: GameRoom): void {
+    const countdownMs = GAME_CONFIG.MATCHMAKING_COUNTDOWN_MS;
+
+    this.io.to(gameRoom.code).emit('MATCH_COUNTDOWN', {
+      roomCode: gameRoom.code,
+      startsAt: Date.now() + countdownMs,
+      secondsRemaining: Math.ceil(countdownMs / 1000)
+    });
+
+    const timer = setTimeout(() => {
+      this.countdowns.delete(gameRoom.code);
+
+      if (!this.hooks.hasRoom(gameRoom.code) || gameRoom.phase !== GamePhase.LOBBY) return;
+
+      const result = gameRoom.beginGame();
+      if (result.success) {
+        console.log(`🚀 Matchmade room ${gameRoom.code} started automatically`);
+        this.io.to(gameRoom.code).emit('GAME_STARTED', {});
+        gameRoom.broadcastGameState();
+      } else {
+        this.io.to(gameRoom.code).emit('MATCH_COUNTDOWN_CANCELLED', { roomCode: gameRoom.code });
+      }
+    }, countdownMs);
+
+    this.countdowns.set(gameRoom.code, timer);
+  }
+
+  /**
+   * Start the bot-fill timer while anyone is waiting, stop it once the queue is empty
+   */
+  private scheduleBotFill(): void {
+    if (this.queue.length === 0) {
+      this.clearBotFillTimer();
+    } else if (!this.botFillTimer) {
+      this.botFillTimer = setTimeout(() => this.fillWithBots(), GAME_CONFIG.MATCHMAKING_BOT_FILL_MS);
+    }
+  }
+
+  private clearBotFillTimer(): void {
+    if (this.botFillTimer) {
+      clearTimeout(this.botFillTimer);
+      this.botFillTimer = null;
+    }
+  }
+
+  private findOpenRoom(): GameRoom | undefined {
+    // Prefer the fullest room so matches start sooner
+    return this.hooks.getOpenRooms()
+      .filter(gameRoom => gameRoom.phase === GamePhase.LOBBY && !gameRoom.isFull)
+      .sort((a, b) => b.playerCount - a.playerCount)[0];
+  }
+
+  /**
+   * Place a player taken off the queue, telling them if it failed so they are not left waiting
+   */
+  private placeQueuedPlayer(entry: QueuedPlayer, gameRoom: GameRoom): boolean {
+    if (this.hooks.placePlayer(entry.socket, gameRoom, entry.playerName)) {
+      return true;
+    }
+
+    console.warn(`⚠️ Could not place ${entry.playerName} (${entry.socket.id}) in room ${gameRoom.code}`);
+    entry.socket.emit('ERROR', { message: 'Could not join a match, please try again', code: ErrorCode.ACTION_REJECTED });
+    return false;
+  }
+
+  private removeFromQueue(entry: QueuedPlayer): void {
+    const index = this.queue.indexOf(entry);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private recordArrival(): void {
+    const now = Date.now();
+    if (this.lastArrivalAt !== null) {
+      // Exponential moving average of the time between queue arrivals
+      this.averageArrivalMs = this.averageArrivalMs * 0.8 + (now - this.lastArrivalAt) * 0.2;
+    }
+    this.lastArrivalAt = now;
+  }
+
+  private broadcastQueueStatus(): void {
+    const playersNeeded = Math.max(0, GAME_CONFIG.MATCHMAKING_MIN_PLAYERS - this.queue.length);
+    // Nobody waits longer than it takes to fill their room with bots
+    const estimatedWaitMs = Math.min(playersNeeded * this.averageArrivalMs, GAME_CONFIG.MATCHMAKING_BOT_FILL_MS);
+    const estimatedWaitSeconds = Math.round(estimatedWaitMs / 1000);
+
+    this.queue.forEach((entry, index) => {
+      entry.socket.emit('QUEUE_STATUS', {
+        position: index + 1,
+        queueSize: this.queue.length,
+        estimatedWaitSeconds
+      });
+    });
+  }
+
+  // Getters
+  get queueSize(): number { return this.queue.length; }
+}
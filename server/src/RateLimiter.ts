@@ -0,0 +1,158 @@
+/**
+ * Token bucket rate limiting for socket messages
+ */
+
+export interface RateLimit {
+  /** Most messages allowed in a burst */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+export interface RateLimiterMetrics {
+  buckets: number;
+  violations: number;
+  violationsByEvent: Record<string, number>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Limit for any message without an entry of its own
+const DEFAULT_LIMIT_KEY = '*';
+
+/** Budget for each message a single socket may send */
+export const SOCKET_RATE_LIMITS: Record<string, RateLimit> = {
+  [DEFAULT_LIMIT_KEY]: { capacity: 20, refillPerSecond: 5 },
+  HELLO: { capacity: 3, refillPerSecond: 0.1 },
+  CREATE_ROOM: { capacity: 3, refillPerSecond: 0.1 },
+  JOIN_ROOM: { capacity: 5, refillPerSecond: 0.5 },
+  QUICK_PLAY: { capacity: 3, refillPerSecond: 0.2 },
+  RESUME_SESSION: { capacity: 3, refillPerSecond: 0.2 },
+  ADD_BOT: { capacity: 8, refillPerSecond: 1 },
+  LIST_ROOMS: { capacity: 5, refillPerSecond: 1 },
+  // Touch input can fire on every frame of a 120Hz display
+  PLAYER_INPUT: { capacity: 120, refillPerSecond: 120 },
+  // One ack per GAME_STATE
+  STATE_ACK: { capacity: 40, refillPerSecond: 30 },
+  TIME_SYNC: { capacity: 10, refillPerSecond: 1 },
+  ping: { capacity: 5, refillPerSecond: 1 },
+};
+
+/** Budget shared by every socket from one IP address */
+export const IP_RATE_LIMITS: Record<string, RateLimit> = {
+  connection: { capacity: 10, refillPerSecond: 0.5 },
+  AUTH_GUEST: { capacity: 10, refillPerSecond: 0.1 },
+  CREATE_ROOM: { capacity: 6, refillPerSecond: 0.1 },
+  JOIN_ROOM: { capacity: 20, refillPerSecond: 1 },
+  QUICK_PLAY: { capacity: 10, refillPerSecond: 0.5 },
+};
+
+/** Dropped messages a socket may rack up before it is disconnected */
+export const VIOLATION_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 0.5 };
+
+/**
+ * Rate Limiter
+ * Keeps a token bucket per key (socket or IP) and message type. Every message takes a token,
+ * tokens refill continuously up to the bucket's capacity.
+ */
+export class RateLimiter {
+  private limits: Record<string, RateLimit>;
+  private buckets = new Map<string, Map<string, Bucket>>(); // key -> event -> bucket
+  private violations = new Map<string, number>(); // limited event -> messages rejected
+
+  constructor(limits: Record<string, RateLimit>) {
+    this.limits = limits;
+  }
+
+  /**
+   * Take a token for `event` from `key`'s budget.
+   * Returns false if the budget is spent. Events without a limit are always allowed.
+   */
+  consume(key: string, event: string, now: number = Date.now()): boolean {
+    const limit = this.getLimit(event);
+    if (!limit) return true;
+
+    let keyBuckets = this.buckets.get(key);
+    if (!keyBuckets) {
+      keyBuckets = new Map();
+      this.buckets.set(key, keyBuckets);
+    }
+
+    const bucketName = this.hasOwnLimit(event) ? event : DEFAULT_LIMIT_KEY;
+    let bucket = keyBuckets.get(bucketName);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, updatedAt: now };
+      keyBuckets.set(bucketName, bucket);
+    }
+
+    this.refill(bucket, limit, now);
+
+    if (bucket.tokens < 1) {
+      this.violations.set(bucketName, (this.violations.get(bucketName) ?? 0) + 1);
+      return false;
+    }
+
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Forget everything about a key
+   */
+  remove(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  /**
+   * Drop buckets that have refilled completely, a fresh bucket behaves the same
+   */
+  prune(now: number = Date.now()): void {
+    for (const [key, keyBuckets] of this.buckets) {
+      for (const [event, bucket] of keyBuckets) {
+        const limit = this.getLimit(event)!;
+        this.refill(bucket, limit, now);
+        if (bucket.tokens >= limit.capacity) {
+          keyBuckets.delete(event);
+        }
+      }
+
+      if (keyBuckets.size === 0) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Rejected message counts
+   */
+  getMetrics(): RateLimiterMetrics {
+    let buckets = 0;
+    for (const keyBuckets of this.buckets.values()) {
+      buckets += keyBuckets.size;
+    }
+
+    return {
+      buckets,
+      violations: Array.from(this.violations.values()).reduce((total, count) => total + count, 0),
+      violationsByEvent: Object.fromEntries(this.violations)
+    };
+  }
+
+  private getLimit(event: string): RateLimit | undefined {
+    return this.hasOwnLimit(event) ? this.limits[event] : this.limits[DEFAULT_LIMIT_KEY];
+  }
+
+  // Event names come from clients, so never look them up on the prototype
+  private hasOwnLimit(event: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.limits, event);
+  }
+
+  private refill(bucket: Bucket, limit: RateLimit, now: number): void {
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond);
+    bucket.updatedAt = now;
+  }
+}
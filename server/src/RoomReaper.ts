@@ -0,0 +1,105 @@
+/**
+ * Background reaper that expires old and idle rooms
+ */
+
+import { Server } from 'socket.io';
+import { GameRoom } from './GameRoom';
+import { GAME_CONFIG, RoomExpiryReason } from './types';
+
+const EXPIRY_MESSAGES: Record<RoomExpiryReason, string> = {
+  [RoomExpiryReason.MAX_AGE]: 'Room has reached its maximum lifetime',
+  [RoomExpiryReason.INACTIVE]: 'Room closed due to inactivity',
+  [RoomExpiryReason.GAME_OVER_TIMEOUT]: 'Room closed after the match ended',
+  [RoomExpiryReason.LOBBY_IDLE]: 'Lobby closed after being idle',
+};
+
+/**
+ * Room Reaper
+ * Periodically sweeps the room registry and tears down expired rooms
+ */
+export class RoomReaper {
+  private rooms: Map<string, GameRoom>;
+  private playerRooms: Map<string, string>;
+  private io: Server;
+  private onPlayerRemoved?: (playerId: string) => void;
+  private onRoomRemoved?: (roomCode: string) => void;
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    rooms: Map<string, GameRoom>,
+    playerRooms: Map<string, string>,
+    io: Server,
+    onPlayerRemoved?: (playerId: string) => void,
+    onRoomRemoved?: (roomCode: string) => void
+  ) {
+    this.rooms = rooms;
+    this.playerRooms = playerRooms;
+    this.io = io;
+    this.onPlayerRemoved = onPlayerRemoved;
+    this.onRoomRemoved = onRoomRemoved;
+  }
+
+  /**
+   * Start sweeping on an interval
+   */
+  start(intervalMs: number = GAME_CONFIG.ROOM_REAPER_INTERVAL_MS): void {
+    this.stop();
+    this.sweepInterval = setInterval(() => this.sweep(), intervalMs);
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Expire every room that is past one of its limits.
+   * Returns the codes of the rooms that were removed.
+   */
+  sweep(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+
+    for (const [roomCode, gameRoom] of this.rooms) {
+      const reason = gameRoom.getExpiryReason(now);
+      if (!reason) continue;
+
+      this.expireRoom(roomCode, gameRoom, reason);
+      expired.push(roomCode);
+    }
+
+    if (expired.length > 0) {
+      console.log(`🧹 Room reaper expired ${expired.length} room(s): ${expired.join(', ')}`);
+    }
+
+    return expired;
+  }
+
+  private expireRoom(roomCode: string, gameRoom: GameRoom, reason: RoomExpiryReason): void {
+    console.log(`⏰ Expiring room ${roomCode}: ${reason}`);
+
+    // Notify remaining players before tearing the room down
+    this.io.to(roomCode).emit('ROOM_EXPIRED', {
+      roomCode,
+      reason,
+      message: EXPIRY_MESSAGES[reason]
+    });
+
+    gameRoom.destroy();
+
+    for (const member of [...gameRoom.players, ...gameRoom.spectators]) {
+      if (this.playerRooms.get(member.id) === roomCode) {
+        this.playerRooms.delete(member.id);
+      }
+      this.onPlayerRemoved?.(member.id);
+    }
+
+    this.io.in(roomCode).socketsLeave(roomCode);
+    this.rooms.delete(roomCode);
+    this.onRoomRemoved?.(roomCode);
+  }
+}
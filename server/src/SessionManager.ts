@@ -0,0 +1,145 @@
+/**
+ * Session manager for resumable player sessions
+ * Issues session tokens and holds disconnected players for a grace period
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { GAME_CONFIG } from './types';
+
+export interface PlayerSession {
+  token: string;
+  playerId: string;
+  roomCode: string;
+  socketId: string;
+  disconnectedAt: number | null;
+}
+
+/**
+ * Session Manager
+ * Maps session tokens to players so a new socket can reclaim a player
+ */
+export class SessionManager {
+  private sessions = new Map<string, PlayerSession>(); // token -> session
+  private playerTokens = new Map<string, string>(); // playerId -> token
+  private graceTimers = new Map<string, NodeJS.Timeout>(); // token -> expiry timer
+  private gracePeriodMs: number;
+
+  constructor(gracePeriodMs: number = GAME_CONFIG.RECONNECT_GRACE_PERIOD_MS) {
+    this.gracePeriodMs = gracePeriodMs;
+  }
+
+  /**
+   * Create a new session for a player, replacing any previous one
+   */
+  createSession(playerId: string, roomCode: string, socketId: string): string {
+    this.removeSession(playerId);
+
+    const token = uuidv4();
+    this.sessions.set(token, {
+      token,
+      playerId,
+      roomCode,
+      socketId,
+      disconnectedAt: null
+    });
+    this.playerTokens.set(playerId, token);
+
+    return token;
+  }
+
+  /**
+   * Look up a session by token
+   */
+  getSession(token: string): PlayerSession | null {
+    return this.sessions.get(token) || null;
+  }
+
+  /**
+   * Get the session belonging to a player
+   */
+  getSessionForPlayer(playerId: string): PlayerSession | null {
+    const token = this.playerTokens.get(playerId);
+    if (!token) return null;
+    return this.sessions.get(token) || null;
+  }
+
+  /**
+   * Mark a session as disconnected and start its grace period.
+   * Returns false if grace periods are disabled and the player should be removed right away.
+   */
+  startGracePeriod(playerId: string, onExpire: (session: PlayerSession) => void): boolean {
+    const session = this.getSessionForPlayer(playerId);
+    if (!session || this.gracePeriodMs <= 0) return false;
+
+    session.disconnectedAt = Date.now();
+    this.clearGraceTimer(session.token);
+
+    const timer = setTimeout(() => {
+      this.graceTimers.delete(session.token);
+      this.removeSession(session.playerId);
+      console.log(`⌛ Session for player ${session.playerId} expired after ${this.gracePeriodMs}ms`);
+      onExpire(session);
+    }, this.gracePeriodMs);
+
+    this.graceTimers.set(session.token, timer);
+    return true;
+  }
+
+  /**
+   * Reclaim a session from a new socket
+   */
+  resumeSession(token: string, socketId: string): PlayerSession | null {
+    const session = this.sessions.get(token);
+    if (!session) return null;
+
+    this.clearGraceTimer(token);
+    session.socketId = socketId;
+    session.disconnectedAt = null;
+
+    return session;
+  }
+
+  /**
+   * Whether a newer socket has resumed the player's session since this one connected
+   */
+  isSuperseded(playerId: string, socketId: string): boolean {
+    const session = this.getSessionForPlayer(playerId);
+    return !!session && session.socketId !== socketId;
+  }
+
+  /**
+   * Remove a player's session and cancel any pending expiry
+   */
+  removeSession(playerId: string): void {
+    const token = this.playerTokens.get(playerId);
+    if (!token) return;
+
+    this.clearGraceTimer(token);
+    this.sessions.delete(token);
+    this.playerTokens.delete(playerId);
+  }
+
+  /**
+   * Cancel all pending grace timers
+   */
+  destroy(): void {
+    for (const timer of this.graceTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.graceTimers.clear();
+    this.sessions.clear();
+    this.playerTokens.clear();
+  }
+
+  private clearGraceTimer(token: string): void {
+    const timer = this.graceTimers.get(token);
+    if (timer) {
+      clearTimeout(timer);
+      this.graceTimers.delete(token);
+    }
+  }
+
+  // Getters
+  get gracePeriod(): number { return this.gracePeriodMs; }
+  get activeSessionCount(): number { return this.sessions.size; }
+}
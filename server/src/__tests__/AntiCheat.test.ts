@@ -0,0 +1,122 @@
+/**
+ * Tests for input anomaly detection
+ */
+
+import { AntiCheat, AntiCheatAction, SuspicionReason } from '../AntiCheat';
+
+describe('AntiCheat', () => {
+  let antiCheat: AntiCheat;
+
+  const RIGHT = { x: 1, y: 0 };
+  const LEFT = { x: -1, y: 0 };
+  const UP = { x: 0, y: -1 };
+
+  beforeEach(() => {
+    antiCheat = new AntiCheat({
+      maxInputsPerSecond: 10,
+      thresholds: [
+        { score: 3, action: AntiCheatAction.LOG },
+        { score: 6, action: AntiCheatAction.IGNORE_INPUT },
+        { score: 9, action: AntiCheatAction.KICK },
+      ]
+    });
+  });
+
+  test('a normal input stream raises no suspicion', () => {
+    for (let i = 0; i < 100; i++) {
+      const now = 1000 + i * 100;
+      const verdict = antiCheat.checkInput('p1', i % 20 < 10 ? RIGHT : UP, now - 40 - (i % 3) * 10, now);
+
+      expect(verdict).toEqual({ action: AntiCheatAction.NONE, reasons: [], score: 0, trustTimestamp: true });
+    }
+  });
+
+  test('flags inputs sent faster than allowed, once per second', () => {
+    const verdicts = Array.from({ length: 25 }, (_, i) => antiCheat.checkInput('p1', RIGHT, undefined, 1000 + i));
+
+    expect(verdicts.filter(v => v.reasons.includes(SuspicionReason.INPUT_RATE))).toHaveLength(1);
+    expect(verdicts[10].reasons).toEqual([SuspicionReason.INPUT_RATE]);
+  });
+
+  test('distrusts timestamps from the future, from long ago or going backwards', () => {
+    expect(antiCheat.checkInput('p1', RIGHT, 10500, 10000).trustTimestamp).toBe(false);
+    expect(antiCheat.checkInput('p2', RIGHT, 5000, 10000).trustTimestamp).toBe(false);
+
+    antiCheat.checkInput('p3', RIGHT, 9950, 10000);
+    expect(antiCheat.checkInput('p3', RIGHT, 9900, 10100).trustTimestamp).toBe(false);
+  });
+
+  test('notices a player suddenly claiming a much higher delay', () => {
+    for (let now = 1000; now < 2000; now += 100) {
+      antiCheat.checkInput('p1', RIGHT, now - 50, now);
+    }
+
+    // Faking 600ms of lag to rewind further
+    const verdict = antiCheat.checkInput('p1', RIGHT, 2000 - 650, 2000);
+    expect(verdict.reasons).toEqual([SuspicionReason.TIMESTAMP_DRIFT]);
+    expect(verdict.trustTimestamp).toBe(false);
+  });
+
+  test('a lasting change in delay is accepted instead of escalating to a kick', () => {
+    const defaults = new AntiCheat();
+    let now = 1000;
+
+    // Wifi, then cellular
+    for (let i = 0; i < 20; i++, now += 50) {
+      defaults.checkInput('p1', RIGHT, now - 50, now);
+    }
+    const verdicts = Array.from({ length: 200 }, () => {
+      now += 50;
+      return defaults.checkInput('p1', RIGHT, now - 400, now);
+    });
+
+    expect(verdicts.filter(v => !v.trustTimestamp).length).toBeLessThan(5);
+    expect(verdicts[verdicts.length - 1].trustTimestamp).toBe(true);
+    expect(verdicts.every(v => v.action === AntiCheatAction.NONE)).toBe(true);
+  });
+
+  test('timestamp anomalies alone never get a player ignored or kicked', () => {
+    const defaults = new AntiCheat();
+
+    // Every timestamp is too old to trust
+    for (let now = 1000; now < 11000; now += 50) {
+      const verdict = defaults.checkInput('p1', RIGHT, now - 1500, now);
+
+      expect(verdict.trustTimestamp).toBe(false);
+      expect([AntiCheatAction.NONE, AntiCheatAction.LOG]).toContain(verdict.action);
+    }
+  });
+
+  test('flags full reversals faster than a thumb can move', () => {
+    antiCheat.checkInput('p1', RIGHT, undefined, 1000);
+
+    expect(antiCheat.checkInput('p1', LEFT, undefined, 1005).reasons).toEqual([SuspicionReason.IMPOSSIBLE_TURN]);
+    // Passing through the centre of the stick is fine
+    expect(antiCheat.checkInput('p1', { x: 0.1, y: 0 }, undefined, 1010).reasons).toEqual([]);
+    expect(antiCheat.checkInput('p1', RIGHT, undefined, 1015).reasons).toEqual([]);
+    // And so is a reversal that takes a moment
+    expect(antiCheat.checkInput('p1', LEFT, undefined, 1115).reasons).toEqual([]);
+  });
+
+  test('escalates from logging to ignoring inputs to kicking, and calms down over time', () => {
+    const now = 1000;
+    let flips = 0;
+    const flip = () => antiCheat.checkInput('p1', ++flips % 2 ? LEFT : RIGHT, undefined, now);
+
+    flip();
+    const actions = Array.from({ length: 9 }, () => flip().action);
+    expect(actions.slice(2, 4)).toEqual([AntiCheatAction.LOG, AntiCheatAction.LOG]);
+    expect(actions[5]).toBe(AntiCheatAction.IGNORE_INPUT);
+    expect(actions[8]).toBe(AntiCheatAction.KICK);
+
+    expect(antiCheat.getScore('p1', now + 5000)).toBeCloseTo(4);
+    expect(antiCheat.getMetrics()).toEqual({
+      trackedPlayers: 1,
+      flags: { [SuspicionReason.INPUT_RATE]: 0, [SuspicionReason.TIMESTAMP_DRIFT]: 0, [SuspicionReason.IMPOSSIBLE_TURN]: 9 },
+      actions: { [AntiCheatAction.LOG]: 3, [AntiCheatAction.IGNORE_INPUT]: 3, [AntiCheatAction.KICK]: 1 }
+    });
+
+    antiCheat.removePlayer('p1');
+    expect(antiCheat.getScore('p1')).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for the bot AI controller
+ */
+
+import { BotController } from '../BotController';
+import { BotDifficulty, Dot, GAME_CONFIG, PlayerData } from '../types';
+import { createVector2 } from '../utils';
+
+const createPlayer = (id: string, x: number, y: number, size: number = GAME_CONFIG.SPINNER_INITIAL_SIZE): PlayerData => ({
+  id,
+  name: id,
+  spinner: {
+    position: createVector2(x, y),
+    velocity: createVector2(0, 0),
+    targetDirection: createVector2(0, 0),
+    size,
+    spinSpeed: GAME_CONFIG.SPINNER_INITIAL_SPIN_SPEED,
+    rotation: 0,
+    maxSpeed: GAME_CONFIG.SPINNER_INITIAL_SPEED
+  },
+  score: size,
+  isAlive: true,
+  isHost: false,
+  isConnected: true,
+  isBot: id.startsWith('bot')
+});
+
+const createDot = (x: number, y: number, value: number = 3): Dot => ({
+  id: `dot-${x}-${y}`,
+  position: createVector2(x, y),
+  size: 10,
+  value
+});
+
+describe('BotController', () => {
+  // Hard bots have the smallest aim error, keep the maths deterministic
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const center = { x: GAME_CONFIG.ARENA_WIDTH / 2, y: GAME_CONFIG.ARENA_HEIGHT / 2 };
+
+  test('flees from a much larger spinner', () => {
+    const controller = new BotController('bot-1', BotDifficulty.HARD);
+    const bot = createPlayer('bot-1', center.x, center.y, 25);
+    const threat = createPlayer('p1', center.x + 100, center.y, 60);
+
+    const direction = controller.decideDirection(bot, [bot, threat], []);
+
+    expect(direction.x).toBeLessThan(-0.9);
+  });
+
+  test('chases a much smaller spinner', () => {
+    const controller = new BotController('bot-1', BotDifficulty.HARD);
+    const bot = createPlayer('bot-1', center.x, center.y, 60);
+    const prey = createPlayer('p1', center.x, center.y + 100, 25);
+
+    const direction = controller.decideDirection(bot, [bot, prey], [createDot(center.x - 50, center.y)]);
+
+    expect(direction.y).toBeGreaterThan(0.9);
+  });
+
+  test('collects the best nearby dot when no one is around', () => {
+    const controller = new BotController('bot-1', BotDifficulty.HARD);
+    const bot = createPlayer('bot-1', center.x, center.y);
+    const peer = createPlayer('p1', center.x, center.y + 80);
+    const dots = [createDot(center.x + 100, center.y, 1), createDot(center.x - 100, center.y, 5)];
+
+    const direction = controller.decideDirection(bot, [bot, peer], dots);
+
+    expect(direction.x).toBeLessThan(-0.9);
+  });
+
+  test('ignores spinners outside its vision', () => {
+    const controller = new BotController('bot-1', BotDifficulty.EASY);
+    const bot = createPlayer('bot-1', 100, center.y, 25);
+    const farThreat = createPlayer('p1', 700, center.y, 80);
+
+    const direction = controller.decideDirection(bot, [bot, farThreat], [createDot(150, center.y)]);
+
+    expect(direction.x).toBeGreaterThan(0.9);
+  });
+
+  test('only re-decides after its reaction time', () => {
+    const controller = new BotController('bot-1', BotDifficulty.EASY);
+    const bot = createPlayer('bot-1', center.x, center.y);
+
+    controller.update(bot, [bot], [createDot(center.x + 100, center.y)], 1000);
+    const firstDirection = bot.spinner.targetDirection;
+
+    controller.update(bot, [bot], [createDot(center.x - 100, center.y)], 1100);
+    expect(bot.spinner.targetDirection).toBe(firstDirection);
+
+    controller.update(bot, [bot], [createDot(center.x - 100, center.y)], 2000);
+    expect(bot.spinner.targetDirection.x).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for GAME_STATE delta compression
+ */
+
+import { DeltaEncoder, createSnapshot, encodeDelta } from '../DeltaEncoder';
+import { Dot, GAME_CONFIG, PlayerData } from '../types';
+
+const createPlayer = (id: string, x: number): PlayerData => ({
+  id,
+  name: id,
+  spinner: {
+    position: { x, y: 100 },
+    velocity: { x: 0, y: 0 },
+    targetDirection: { x: 0, y: 0 },
+    size: 25,
+    spinSpeed: Math.PI * 2,
+    rotation: 0,
+    maxSpeed: 200
+  },
+  score: 25,
+  isAlive: true,
+  isHost: false,
+  isConnected: true,
+  isBot: false
+});
+
+const createDot = (id: string): Dot => ({ id, position: { x: 10, y: 10 }, size: 10, value: 2 });
+
+const arena = { width: 800, height: 600 };
+
+describe('Delta encoding', () => {
+  test('a keyframe carries every player, every dot and the arena', () => {
+    const snapshot = createSnapshot(1, 0.5, arena, [createPlayer('a', 100)], [createDot('d1')], new Map([['a', 7]]));
+
+    const keyframe = encodeDelta(null, snapshot);
+
+    expect(keyframe).toEqual(expect.objectContaining({ tick: 1, baseTick: null, arena, removedPlayers: [], dotsRemoved: [] }));
+    expect(keyframe.players[0]).toEqual(expect.objectContaining({ id: 'a', position: { x: 100, y: 100 }, lastProcessedInput: 7 }));
+    expect(keyframe.players[0]).not.toHaveProperty('targetDirection');
+    expect(keyframe.dotsAdded.map(d => d.id)).toEqual(['d1']);
+  });
+
+  test('a delta carries only changed fields and dot spawn/despawn events', () => {
+    const base = createSnapshot(1, 0.5, arena, [createPlayer('a', 100), createPlayer('b', 200)], [createDot('d1')], new Map());
+    const moved = createPlayer('a', 105.123);
+    const current = createSnapshot(2, 0.6, arena, [moved, createPlayer('b', 200)], [createDot('d2')], new Map());
+
+    const delta = encodeDelta(base, current);
+
+    expect(delta.baseTick).toBe(1);
+    expect(delta.arena).toBeUndefined();
+    expect(delta.players).toEqual([{ id: 'a', position: { x: 105.12, y: 100 } }]);
+    expect(delta.dotsAdded.map(d => d.id)).toEqual(['d2']);
+    expect(delta.dotsRemoved).toEqual(['d1']);
+  });
+
+  test('players that left are listed as removed', () => {
+    const base = createSnapshot(1, 0, arena, [createPlayer('a', 100), createPlayer('b', 200)], [], new Map());
+    const current = createSnapshot(2, 0, arena, [createPlayer('a', 100)], [], new Map());
+
+    expect(encodeDelta(base, current).removedPlayers).toEqual(['b']);
+  });
+});
+
+describe('DeltaEncoder', () => {
+  let encoder: DeltaEncoder;
+  const snapshotAt = (tick: number) => createSnapshot(tick, tick / 60, arena, [createPlayer('a', tick)], [], new Map());
+
+  beforeEach(() => {
+    encoder = new DeltaEncoder();
+  });
+
+  test('uses the newest acknowledged tick as the baseline', () => {
+    encoder.record(snapshotAt(1));
+    encoder.record(snapshotAt(2));
+    encoder.acknowledge('c1', 2);
+    encoder.acknowledge('c1', 1);
+
+    const current = snapshotAt(3);
+    encoder.record(current);
+
+    expect(encoder.encodeFor('c1', current).baseTick).toBe(2);
+    expect(encoder.encodeFor('c2', current).baseTick).toBeNull();
+  });
+
+  test('falls back to a keyframe once the baseline ages out or a resync is requested', () => {
+    encoder.record(snapshotAt(1));
+    encoder.acknowledge('c1', 1);
+    encoder.requestKeyframe('c1');
+
+    const next = snapshotAt(2);
+    encoder.record(next);
+    expect(encoder.encodeFor('c1', next).baseTick).toBeNull();
+
+    encoder.acknowledge('c1', 2);
+    const later = snapshotAt(2 + GAME_CONFIG.STATE_HISTORY_TICKS);
+    encoder.record(later);
+    expect(encoder.encodeFor('c1', later).baseTick).toBeNull();
+  });
+
+  test('live IDs cover the baseline and everything recorded since', () => {
+    encoder.record(createSnapshot(1, 0, arena, [createPlayer('a', 1)], [createDot('d1')], new Map()));
+    encoder.record(createSnapshot(2, 0, arena, [createPlayer('a', 2)], [createDot('d2')], new Map()));
+    encoder.record(createSnapshot(3, 0, arena, [createPlayer('b', 3)], [], new Map()));
+
+    expect(encoder.liveIdsFor('c1')).toBeNull();
+
+    encoder.acknowledge('c1', 2);
+    expect(encoder.liveIdsFor('c1')).toEqual(new Set(['a', 'd2', 'b']));
+  });
+
+  test('ignores acknowledgements for ticks it never recorded', () => {
+    encoder.acknowledge('c1', 99);
+    const current = snapshotAt(1);
+    encoder.record(current);
+
+    expect(encoder.encodeFor('c1', current).baseTick).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the fixed timestep game loop
+ */
+
+import { GameLoop } from '../GameLoop';
+
+describe('GameLoop', () => {
+  let updates: Array<{ deltaTime: number; tick: number }>;
+  let sends: number[];
+  let loop: GameLoop;
+
+  const createLoop = (options = {}) => new GameLoop({
+    update: (deltaTime, tick) => updates.push({ deltaTime, tick }),
+    send: tick => sends.push(tick)
+  }, { tickRate: 50, sendRate: 10, maxCatchUpTicks: 5, ...options });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    updates = [];
+    sends = [];
+    loop = createLoop();
+  });
+
+  afterEach(() => {
+    loop.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('runs the simulation in fixed steps regardless of frame timing', () => {
+    loop.start(0);
+
+    loop.advance(15);
+    loop.advance(50);
+    loop.advance(59);
+
+    expect(updates.map(u => u.tick)).toEqual([1, 2]);
+    expect(updates.every(u => u.deltaTime === 0.02)).toBe(true);
+  });
+
+  test('sends at its own rate, after the latest tick', () => {
+    loop.start(0);
+
+    for (let now = 20; now <= 200; now += 20) {
+      loop.advance(now);
+    }
+
+    expect(updates).toHaveLength(10);
+    expect(sends).toEqual([5, 10]);
+  });
+
+  test('catches up a bounded number of ticks and drops the rest', () => {
+    loop.start(0);
+
+    expect(loop.advance(1000)).toBe(5);
+    expect(sends).toEqual([5]);
+    expect(loop.getMetrics().droppedTicks).toBe(45);
+
+    // Back on schedule afterwards
+    expect(loop.advance(1020)).toBe(1);
+  });
+
+  test('stops catching up as soon as a tick stops the loop', () => {
+    loop = new GameLoop({
+      update: (deltaTime, tick): void => {
+        updates.push({ deltaTime, tick });
+        if (tick === 2) loop.stop();
+      },
+      send: (tick): void => {
+        sends.push(tick);
+      }
+    }, { tickRate: 50, sendRate: 10, maxCatchUpTicks: 5 });
+    loop.start(0);
+
+    expect(loop.advance(1000)).toBe(2);
+    expect(updates.map(u => u.tick)).toEqual([1, 2]);
+    expect(loop.getMetrics().droppedTicks).toBe(0);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  test('tick numbers keep increasing across restarts', () => {
+    loop.start(0);
+    loop.advance(40);
+    loop.stop();
+
+    loop.start(1000);
+    loop.advance(1020);
+
+    expect(updates.map(u => u.tick)).toEqual([1, 2, 3]);
+    expect(loop.currentTick).toBe(3);
+  });
+
+  test('reports tick durations and overruns', () => {
+    loop = new GameLoop({
+      update: () => {
+        // Every other tick blows through its 20ms budget
+        jest.setSystemTime(Date.now() + (loop.currentTick % 2 === 0 ? 30 : 5));
+      },
+      send: () => {}
+    }, { tickRate: 50 });
+    loop.start(Date.now());
+
+    jest.advanceTimersByTime(40);
+
+    const metrics = loop.getMetrics();
+    expect(metrics.overruns).toBeGreaterThan(0);
+    expect(metrics.maxTickMs).toBe(30);
+    expect(metrics.averageTickMs).toBeGreaterThan(0);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  test('runs on a timer once started', () => {
+    loop.start();
+    expect(loop.isRunning).toBe(true);
+
+    jest.advanceTimersByTime(210);
+
+    expect(updates.length).toBeGreaterThanOrEqual(10);
+    expect(sends.length).toBeGreaterThanOrEqual(2);
+
+    loop.stop();
+    const ticks = updates.length;
+    jest.advanceTimersByTime(100);
+    expect(updates).toHaveLength(ticks);
+  });
+});
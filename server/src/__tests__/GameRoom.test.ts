@@ -0,0 +1,674 @@
+/**
+ * Tests for the multiplayer game room
+ */
+
+import { Server, Socket } from 'socket.io';
+import { GameRoom } from '../GameRoom';
+import { BotDifficulty, GamePhase, GAME_CONFIG, GameStateDelta, MatchRecord, NetworkMessages, PlayerData, RoomSettings } from '../types';
+import { GameStateReader } from '../codec';
+import { hashPassword } from '../utils';
+
+interface EmittedEvent<T = unknown> {
+  target: string;
+  event: string;
+  data: T;
+}
+
+interface RoomStatePayload {
+  players: PlayerData[];
+  phase: GamePhase;
+  settings: RoomSettings;
+}
+
+type GameOverPayload = NetworkMessages['GAME_OVER'];
+
+const createMockIo = (emitted: EmittedEvent[]): Server => {
+  // GAME_STATE is binary, decode it per socket in the order it was sent like a client would
+  const readers = new Map<string, GameStateReader>();
+
+  return {
+    to: jest.fn((target: string) => ({
+      emit: jest.fn((event: string, data: unknown) => {
+        if (event === 'GAME_STATE') {
+          if (!readers.has(target)) readers.set(target, new GameStateReader());
+          data = readers.get(target)!.decode(data as Uint8Array);
+        }
+        emitted.push({ target, event, data });
+      })
+    }))
+  } as unknown as Server;
+};
+
+// Simulation tick and GAME_STATE broadcast intervals
+const TICK_MS = 1000 / GAME_CONFIG.TARGET_FPS;
+const SEND_MS = 1000 / GAME_CONFIG.SEND_RATE;
+
+const createMockSocket = (id: string): Socket => ({
+  id,
+  join: jest.fn(),
+  leave: jest.fn()
+}) as unknown as Socket;
+
+describe('GameRoom', () => {
+  let emitted: EmittedEvent[];
+  let gameRoom: GameRoom;
+
+  const eventsNamed = <T = unknown>(event: string): EmittedEvent<T>[] =>
+    emitted.filter(e => e.event === event) as EmittedEvent<T>[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    emitted = [];
+    gameRoom = new GameRoom('Host', createMockIo(emitted));
+  });
+
+  afterEach(() => {
+    gameRoom.destroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('the same player cannot join twice', () => {
+    expect(gameRoom.addPlayer(createMockSocket('socket-1'), 'Alice', 'p1').success).toBe(true);
+
+    expect(gameRoom.addPlayer(createMockSocket('socket-2'), 'Alice', 'p1'))
+      .toEqual({ success: false, error: 'Already in this room' });
+    expect(gameRoom.playerCount).toBe(1);
+  });
+
+  describe('Leaving a room', () => {
+    test('leaveRoom removes the socket from the socket.io room', () => {
+      const socket = createMockSocket('p1');
+      gameRoom.addPlayer(socket, 'Alice');
+
+      expect(gameRoom.leaveRoom(socket, 'p1')).toBe(true);
+      expect(socket.leave).toHaveBeenCalledWith(gameRoom.code);
+      expect(gameRoom.hasPlayer('p1')).toBe(false);
+    });
+
+    test('leaveRoom returns false for a player not in the room', () => {
+      const socket = createMockSocket('stranger');
+      expect(gameRoom.leaveRoom(socket, 'stranger')).toBe(false);
+      expect(socket.leave).not.toHaveBeenCalled();
+    });
+
+    test('broadcasts PLAYER_LEFT and the updated room state', () => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      const leaver = createMockSocket('p2');
+      gameRoom.addPlayer(leaver, 'Bob');
+      emitted.length = 0;
+
+      gameRoom.leaveRoom(leaver, 'p2');
+
+      expect(eventsNamed('PLAYER_LEFT')).toEqual([
+        { target: gameRoom.code, event: 'PLAYER_LEFT', data: { playerId: 'p2' } }
+      ]);
+      const roomState = eventsNamed<RoomStatePayload>('ROOM_STATE');
+      expect(roomState).toHaveLength(1);
+      expect(roomState[0].data.players.map(p => p.id)).toEqual(['p1']);
+    });
+
+    test('hands host off to the next player when the host leaves', () => {
+      const host = createMockSocket('p1');
+      gameRoom.addPlayer(host, 'Alice');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+
+      gameRoom.leaveRoom(host, 'p1');
+
+      const newHost = gameRoom.getPlayer('p2');
+      expect(newHost?.isHost).toBe(true);
+      expect(gameRoom.startGame('p2').error).toBe('Need at least 2 players to start');
+    });
+
+    test('room is empty once the last player leaves', () => {
+      const socket = createMockSocket('p1');
+      gameRoom.addPlayer(socket, 'Alice');
+
+      gameRoom.leaveRoom(socket, 'p1');
+
+      expect(gameRoom.isEmpty).toBe(true);
+      expect(eventsNamed('ROOM_STATE')).toHaveLength(0);
+    });
+  });
+
+  describe('Leaving mid-game', () => {
+    let sockets: Socket[];
+
+    beforeEach(() => {
+      sockets = ['p1', 'p2', 'p3'].map(createMockSocket);
+      sockets.forEach((socket, i) => gameRoom.addPlayer(socket, `Player ${i + 1}`));
+      gameRoom.startGame('p1');
+      emitted.length = 0;
+    });
+
+    test('eliminates the leaving player', () => {
+      gameRoom.leaveRoom(sockets[2], 'p3');
+
+      expect(eventsNamed('PLAYER_ELIMINATED')).toEqual([
+        expect.objectContaining({ data: expect.objectContaining({ playerId: 'p3', eliminatedBy: null }) })
+      ]);
+      expect(gameRoom.isPlaying).toBe(true);
+    });
+
+    test('ends the game when only one player remains', () => {
+      gameRoom.leaveRoom(sockets[1], 'p2');
+      gameRoom.leaveRoom(sockets[2], 'p3');
+
+      const gameOver = eventsNamed<GameOverPayload>('GAME_OVER');
+      expect(gameOver).toHaveLength(1);
+      expect(gameOver[0].data.winner!.id).toBe('p1');
+      expect(gameRoom.isPlaying).toBe(false);
+      expect(gameRoom.phase).toBe(GamePhase.GAME_OVER);
+    });
+
+    test('reports the finished match, ranking players who left by when they left', () => {
+      const onMatchComplete = jest.fn<void, [MatchRecord]>();
+      const room = new GameRoom('Host', createMockIo(emitted), { onMatchComplete });
+      const players = ['p1', 'p2', 'p3'].map(createMockSocket);
+      players.forEach((socket, i) => room.addPlayer(socket, `Player ${i + 1}`));
+      room.startGame('p1');
+
+      room.leaveRoom(players[2], 'p3');
+      expect(onMatchComplete).not.toHaveBeenCalled();
+      room.leaveRoom(players[1], 'p2');
+
+      expect(onMatchComplete).toHaveBeenCalledTimes(1);
+      const match = onMatchComplete.mock.calls[0][0];
+      expect(match.winnerId).toBe('p1');
+      expect(match.participants.map(p => [p.playerId, p.placement, p.survived])).toEqual([
+        ['p1', 1, true], ['p2', 2, false], ['p3', 3, false]
+      ]);
+      expect(match.eliminations.map(e => [e.playerId, e.eliminatedBy])).toEqual([['p3', null], ['p2', null]]);
+      room.destroy();
+    });
+
+    test('leaving after the game is over is not an elimination', () => {
+      sockets.forEach(socket => gameRoom.leaveRoom(socket, socket.id));
+
+      expect(eventsNamed('GAME_OVER')).toHaveLength(1);
+      expect(eventsNamed('PLAYER_ELIMINATED')).toHaveLength(2);
+      expect(gameRoom.isEmpty).toBe(true);
+    });
+  });
+
+  describe('After GAME_OVER', () => {
+    let gameOver: EmittedEvent<GameOverPayload>;
+
+    beforeEach(() => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+      gameRoom.startGame('p1');
+
+      const loser = gameRoom.getPlayer('p2')!;
+      loser.isAlive = false;
+      jest.advanceTimersByTime(TICK_MS * 2);
+      gameOver = eventsNamed<GameOverPayload>('GAME_OVER')[0];
+      emitted.length = 0;
+    });
+
+    test('room sits in the results phase with final standings', () => {
+      expect(gameRoom.phase).toBe(GamePhase.GAME_OVER);
+      expect(gameOver.data.winner!.id).toBe('p1');
+      expect(gameOver.data.results.map(r => [r.playerId, r.placement])).toEqual([['p1', 1], ['p2', 2]]);
+    });
+
+    test('rematch waits for every connected player to vote', () => {
+      expect(gameRoom.voteRematch('p1').success).toBe(true);
+
+      expect(eventsNamed('REMATCH_VOTES')[0].data).toEqual({ votes: ['p1'], required: 2 });
+      expect(gameRoom.phase).toBe(GamePhase.GAME_OVER);
+
+      gameRoom.voteRematch('p2');
+      expect(gameRoom.phase).toBe(GamePhase.LOBBY);
+    });
+
+    test('disconnected players do not block a rematch', () => {
+      gameRoom.markPlayerDisconnected('p2');
+      gameRoom.voteRematch('p1');
+
+      expect(gameRoom.phase).toBe(GamePhase.LOBBY);
+    });
+
+    test('reset puts every player back into lobby state and broadcasts ROOM_STATE', () => {
+      expect(gameRoom.returnToLobby('p1').success).toBe(true);
+
+      expect(gameRoom.isPlaying).toBe(false);
+      for (const player of gameRoom.players) {
+        expect(player.isAlive).toBe(true);
+        expect(player.spinner.size).toBe(GAME_CONFIG.SPINNER_INITIAL_SIZE);
+        expect(player.score).toBe(GAME_CONFIG.SPINNER_INITIAL_SIZE);
+      }
+
+      const roomState = eventsNamed<RoomStatePayload>('ROOM_STATE');
+      expect(roomState).toHaveLength(1);
+      expect(roomState[0].data.phase).toBe(GamePhase.LOBBY);
+      expect(gameRoom.startGame('p1').success).toBe(true);
+    });
+
+    test('only the host can send the room back to the lobby', () => {
+      expect(gameRoom.returnToLobby('p2').error).toBe('Only host can return the room to the lobby');
+      expect(gameRoom.phase).toBe(GamePhase.GAME_OVER);
+    });
+  });
+
+  test('a match that ends while the loop is catching up ends only once', () => {
+    const onMatchComplete = jest.fn();
+    const room = new GameRoom('Host', createMockIo(emitted), { onMatchComplete });
+    room.addPlayer(createMockSocket('p1'), 'Alice');
+    room.addPlayer(createMockSocket('p2'), 'Bob');
+    room.startGame('p1');
+    room.getPlayer('p2')!.isAlive = false;
+
+    // A stalled timer leaves several ticks to run in one go
+    jest.setSystemTime(Date.now() + TICK_MS * 4);
+    jest.advanceTimersByTime(TICK_MS);
+
+    expect(eventsNamed('GAME_OVER')).toHaveLength(1);
+    expect(onMatchComplete).toHaveBeenCalledTimes(1);
+    room.destroy();
+  });
+
+  test('rematch votes are rejected while a match is running', () => {
+    gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+    gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+    gameRoom.startGame('p1');
+
+    expect(gameRoom.voteRematch('p1').error).toBe('Match has not ended');
+  });
+
+  describe('Private rooms', () => {
+    test('public rooms accept anyone', async () => {
+      expect(gameRoom.isPrivate).toBe(false);
+      expect(await gameRoom.canJoin()).toBe(true);
+    });
+
+    test('uses the code it was given', () => {
+      const room = new GameRoom('Host', createMockIo(emitted), { code: '4242' });
+      expect(room.code).toBe('4242');
+    });
+
+    test('password-protected rooms check the password', async () => {
+      const room = new GameRoom('Host', createMockIo(emitted), { isPrivate: true, passwordHash: await hashPassword('secret') });
+
+      expect(await room.canJoin()).toBe(false);
+      expect(await room.canJoin({ password: 'wrong' })).toBe(false);
+      expect(await room.canJoin({ password: 'secret' })).toBe(true);
+    });
+
+    test('private rooms accept their invite token', async () => {
+      const room = new GameRoom('Host', createMockIo(emitted), { isPrivate: true });
+
+      expect(room.inviteToken).toEqual(expect.any(String));
+      expect(await room.canJoin({ inviteToken: room.inviteToken! })).toBe(true);
+      expect(await room.canJoin({ inviteToken: 'forged' })).toBe(false);
+      expect(await room.canJoin({ password: '' })).toBe(false);
+    });
+  });
+
+  describe('Bots', () => {
+    beforeEach(() => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      emitted.length = 0;
+    });
+
+    test('host can add a bot and start a game against it', () => {
+      const result = gameRoom.addBot('p1', BotDifficulty.HARD);
+
+      expect(result.success).toBe(true);
+      const bot = gameRoom.getPlayer(result.playerId!)!;
+      expect(bot).toEqual(expect.objectContaining({ isBot: true, botDifficulty: BotDifficulty.HARD, isHost: false }));
+      expect(eventsNamed('PLAYER_JOINED')).toHaveLength(1);
+      expect(gameRoom.startGame('p1').success).toBe(true);
+    });
+
+    test('only the host can add or remove bots', () => {
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+      const { playerId: botId } = gameRoom.addBot('p1');
+
+      expect(gameRoom.addBot('p2').error).toBe('Only host can add bots');
+      expect(gameRoom.removeBot('p2', botId!).error).toBe('Only host can remove bots');
+      expect(gameRoom.removeBot('p1', botId!).success).toBe(true);
+      expect(gameRoom.botCount).toBe(0);
+    });
+
+    test('bots steer themselves during the game', () => {
+      const { playerId: botId } = gameRoom.addBot('p1');
+      gameRoom.startGame('p1');
+
+      jest.advanceTimersByTime(100);
+
+      const bot = gameRoom.getPlayer(botId!)!;
+      expect(bot.spinner.targetDirection).not.toEqual({ x: 0, y: 0 });
+    });
+
+    test('a human joining a full lobby replaces a bot', () => {
+      gameRoom.addBot('p1');
+      gameRoom.addBot('p1');
+      gameRoom.addBot('p1');
+      expect(gameRoom.isFull).toBe(true);
+
+      expect(gameRoom.addPlayer(createMockSocket('p2'), 'Bob').success).toBe(true);
+      expect(gameRoom.botCount).toBe(2);
+    });
+
+    test('bots are dropped once the last human leaves', () => {
+      gameRoom.addBot('p1');
+
+      gameRoom.removePlayer('p1');
+
+      expect(gameRoom.isEmpty).toBe(true);
+      expect(gameRoom.botCount).toBe(0);
+    });
+
+    test('host is never handed to a bot', () => {
+      gameRoom.addBot('p1');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+
+      gameRoom.removePlayer('p1');
+
+      expect(gameRoom.getPlayer('p2')?.isHost).toBe(true);
+    });
+
+    test('bots do not count towards rematch votes', () => {
+      gameRoom.addBot('p1');
+      expect(gameRoom.requiredRematchVotes).toBe(1);
+    });
+  });
+
+  describe('Spectators', () => {
+    beforeEach(() => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+      gameRoom.startGame('p1');
+      emitted.length = 0;
+    });
+
+    test('late joiners watch the match without a spinner', () => {
+      const socket = createMockSocket('s1');
+
+      expect(gameRoom.addSpectator(socket, 'Carol').success).toBe(true);
+      expect(socket.join).toHaveBeenCalledWith(gameRoom.code);
+      expect(gameRoom.isSpectator('s1')).toBe(true);
+      expect(gameRoom.hasPlayer('s1')).toBe(false);
+      expect(eventsNamed('SPECTATOR_JOINED')).toHaveLength(1);
+
+      gameRoom.handlePlayerInput('s1', { x: 1, y: 0 });
+      expect(gameRoom.playerCount).toBe(2);
+    });
+
+    test('spectators do not take player slots', () => {
+      for (let i = 0; i < GAME_CONFIG.MAX_SPECTATORS_PER_ROOM; i++) {
+        expect(gameRoom.addSpectator(createMockSocket(`s${i}`), `Watcher ${i}`).success).toBe(true);
+      }
+
+      expect(gameRoom.addSpectator(createMockSocket('extra'), 'Extra').error).toBe('Room has too many spectators');
+      expect(gameRoom.isFull).toBe(false);
+    });
+
+    test('spectators become players for the next round', () => {
+      gameRoom.addSpectator(createMockSocket('s1'), 'Carol');
+      gameRoom.getPlayer('p2')!.isAlive = false;
+      jest.advanceTimersByTime(TICK_MS * 2);
+
+      gameRoom.returnToLobby('p1');
+
+      expect(gameRoom.isSpectator('s1')).toBe(false);
+      expect(gameRoom.getPlayer('s1')).toEqual(expect.objectContaining({ name: 'Carol', isAlive: true, isHost: false }));
+      expect(gameRoom.playerCount).toBe(3);
+    });
+
+    test('a spectator who drops out is held and can resume on a new socket', () => {
+      gameRoom.addSpectator(createMockSocket('s1'), 'Carol');
+
+      expect(gameRoom.markPlayerDisconnected('s1')).toBe(true);
+      expect(gameRoom.spectators[0].isConnected).toBe(false);
+      jest.advanceTimersByTime(SEND_MS);
+      expect(emitted.filter(e => e.event === 'GAME_STATE' && e.target === 's1')).toHaveLength(0);
+
+      const socket = createMockSocket('s1-new');
+      expect(gameRoom.reconnectPlayer(socket, 's1')).toBe(true);
+      expect(socket.join).toHaveBeenCalledWith(gameRoom.code);
+      jest.advanceTimersByTime(SEND_MS);
+      expect(emitted.filter(e => e.event === 'GAME_STATE' && e.target === 's1-new')).not.toHaveLength(0);
+    });
+
+    test('a spectator promoted while disconnected is still waiting to resume', () => {
+      gameRoom.addSpectator(createMockSocket('s1'), 'Carol');
+      gameRoom.markPlayerDisconnected('s1');
+      gameRoom.getPlayer('p2')!.isAlive = false;
+      jest.advanceTimersByTime(TICK_MS * 2);
+
+      gameRoom.returnToLobby('p1');
+
+      expect(gameRoom.getPlayer('s1')?.isConnected).toBe(false);
+      expect(gameRoom.reconnectPlayer(createMockSocket('s1-new'), 's1')).toBe(true);
+      expect(gameRoom.getPlayer('s1')?.isConnected).toBe(true);
+    });
+
+    test('spectators can leave', () => {
+      const socket = createMockSocket('s1');
+      gameRoom.addSpectator(socket, 'Carol');
+
+      expect(gameRoom.leaveRoom(socket, 's1')).toBe(true);
+      expect(gameRoom.spectators).toHaveLength(0);
+      expect(eventsNamed('SPECTATOR_LEFT')).toEqual([
+        { target: gameRoom.code, event: 'SPECTATOR_LEFT', data: { spectatorId: 's1' } }
+      ]);
+    });
+
+    test('spectators take over a room its players abandon', () => {
+      gameRoom.addSpectator(createMockSocket('s1'), 'Carol');
+
+      gameRoom.removePlayer('p1');
+      gameRoom.removePlayer('p2');
+
+      expect(gameRoom.phase).toBe(GamePhase.LOBBY);
+      expect(gameRoom.getPlayer('s1')?.isHost).toBe(true);
+      expect(gameRoom.isEmpty).toBe(false);
+    });
+  });
+
+  describe('Room settings', () => {
+    beforeEach(() => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+      emitted.length = 0;
+    });
+
+    test('host can change the rules in the lobby', () => {
+      expect(gameRoom.updateSettings('p1', { maxPlayers: 6, dotCount: 5 }).success).toBe(true);
+
+      expect(gameRoom.settings).toEqual(expect.objectContaining({ maxPlayers: 6, dotCount: 5 }));
+      expect(eventsNamed<RoomStatePayload>('ROOM_STATE')[0].data.settings.maxPlayers).toBe(6);
+      expect(gameRoom.getSummary().maxPlayers).toBe(6);
+    });
+
+    test('only the host can change the rules, and only in the lobby', () => {
+      expect(gameRoom.updateSettings('p2', { dotCount: 5 }).error).toBe('Only host can change room settings');
+
+      gameRoom.startGame('p1');
+      expect(gameRoom.updateSettings('p1', { dotCount: 5 }).error).toBe('Settings can only be changed in the lobby');
+    });
+
+    test('rejects invalid values and player caps below the current head count', () => {
+      expect(gameRoom.updateSettings('p1', { dotCount: -1 }).success).toBe(false);
+
+      gameRoom.addPlayer(createMockSocket('p3'), 'Carol');
+      expect(gameRoom.updateSettings('p1', { maxPlayers: 2 }).error).toBe('Room already has more players than that');
+    });
+
+    test('max players caps who can join', () => {
+      const room = new GameRoom('Host', createMockIo(emitted), {
+        settings: { ...gameRoom.settings, maxPlayers: 2 }
+      });
+      room.addPlayer(createMockSocket('a'), 'A');
+      room.addPlayer(createMockSocket('b'), 'B');
+
+      expect(room.addPlayer(createMockSocket('c'), 'C').error).toBe('Room is full');
+    });
+
+    test('matches use the configured arena and dot count', () => {
+      gameRoom.updateSettings('p1', { arenaWidth: 1200, arenaHeight: 900, dotCount: 7 });
+      gameRoom.startGame('p1');
+
+      const gameState = eventsNamed('GAME_STATE');
+      jest.advanceTimersByTime(SEND_MS + TICK_MS);
+      const latest = eventsNamed<GameStateDelta>('GAME_STATE').slice(gameState.length).pop()!;
+
+      // Nothing acknowledged yet, so this is a full keyframe
+      expect(latest.data.baseTick).toBeNull();
+      expect(latest.data.arena).toEqual({ width: 1200, height: 900 });
+      expect(latest.data.dotsAdded).toHaveLength(7);
+    });
+
+    test('kills use the configured growth ratio', () => {
+      gameRoom.updateSettings('p1', { killGrowthRatio: 1, eliminationRatio: 1.1, dotCount: 0 });
+      gameRoom.startGame('p1');
+
+      const victor = gameRoom.getPlayer('p1')!;
+      const victim = gameRoom.getPlayer('p2')!;
+      victor.spinner.size = 40;
+      victim.spinner.position = { ...victor.spinner.position };
+
+      jest.advanceTimersByTime(TICK_MS * 2);
+
+      expect(victim.isAlive).toBe(false);
+      expect(victor.spinner.size).toBe(40 + GAME_CONFIG.SPINNER_INITIAL_SIZE);
+    });
+  });
+
+  describe('Lag compensation', () => {
+    beforeEach(() => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+      gameRoom.updateSettings('p1', { dotCount: 0 });
+      gameRoom.startGame('p1');
+      gameRoom.getPlayer('p1')!.spinner.size = 40;
+    });
+
+    test('a high-ping victim survives a collision their screen has not shown yet', () => {
+      const victor = gameRoom.getPlayer('p1')!;
+      const victim = gameRoom.getPlayer('p2')!;
+      gameRoom.handlePlayerInput('p2', { x: 0, y: 0 }, 1, Date.now() - 300);
+
+      jest.advanceTimersByTime(100);
+      victim.spinner.position = { ...victor.spinner.position };
+      jest.advanceTimersByTime(TICK_MS * 2);
+
+      expect(victim.isAlive).toBe(true);
+      expect(eventsNamed('PLAYER_ELIMINATED')).toHaveLength(0);
+
+      jest.advanceTimersByTime(400);
+
+      expect(victim.isAlive).toBe(false);
+      expect(eventsNamed<{ eliminatedBy: string | null }>('PLAYER_ELIMINATED')[0].data.eliminatedBy).toBe('p1');
+    });
+
+    test('a low-ping victim is eliminated within a couple of ticks', () => {
+      const victor = gameRoom.getPlayer('p1')!;
+      const victim = gameRoom.getPlayer('p2')!;
+      gameRoom.handlePlayerInput('p2', { x: 0, y: 0 }, 1, Date.now() - 10);
+
+      jest.advanceTimersByTime(100);
+      victim.spinner.position = { ...victor.spinner.position };
+      jest.advanceTimersByTime(40);
+
+      expect(victim.isAlive).toBe(false);
+    });
+  });
+
+  test('GAME_STATE acknowledges the last input applied for each player', () => {
+    gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+    gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+    gameRoom.startGame('p1');
+
+    gameRoom.handlePlayerInput('p1', { x: 1, y: 0 }, 41);
+    gameRoom.handlePlayerInput('p1', { x: 0, y: 1 }, 42);
+    emitted.length = 0;
+    jest.advanceTimersByTime(SEND_MS * 2 + TICK_MS);
+
+    const [first, second] = eventsNamed<GameStateDelta>('GAME_STATE').filter(e => e.target === 'p1').map(e => e.data);
+    expect(second.tick - first.tick).toBe(GAME_CONFIG.TARGET_FPS / GAME_CONFIG.SEND_RATE);
+    expect(second.players.map(p => [p.id, p.lastProcessedInput])).toEqual([['p1', 42], ['p2', 0]]);
+  });
+
+  test('oversized input directions are clamped to unit length', () => {
+    gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+    gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+    gameRoom.startGame('p1');
+
+    gameRoom.handlePlayerInput('p1', { x: 1000, y: 0 }, 1);
+
+    expect(gameRoom.getPlayer('p1')!.spinner.targetDirection).toEqual({ x: 1, y: 0 });
+  });
+
+  describe('Delta-compressed game state', () => {
+    const statesFor = (target: string): GameStateDelta[] =>
+      eventsNamed<GameStateDelta>('GAME_STATE').filter(e => e.target === target).map(e => e.data);
+
+    beforeEach(() => {
+      gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+      gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+      // No dots, so nobody can eat one and respawn it mid-test
+      gameRoom.updateSettings('p1', { dotCount: 0 });
+      gameRoom.startGame('p1');
+      jest.advanceTimersByTime(SEND_MS + TICK_MS);
+    });
+
+    test('sends deltas against the tick each client acknowledged', () => {
+      const [keyframe] = statesFor('p1');
+      gameRoom.acknowledgeState('p1', keyframe.tick);
+      gameRoom.getPlayer('p2')!.spinner.targetDirection = { x: 1, y: 0 };
+      emitted.length = 0;
+
+      jest.advanceTimersByTime(SEND_MS);
+
+      const [delta] = statesFor('p1');
+      expect(delta.baseTick).toBe(keyframe.tick);
+      expect(delta.arena).toBeUndefined();
+      expect(delta.dotsAdded).toEqual([]);
+      // Idle spinners only report their spin, the moving one also reports where it went
+      const [idle, moving] = delta.players;
+      expect(Object.keys(idle)).toEqual(['id', 'rotation']);
+      expect(moving.id).toBe('p2');
+      expect(moving.position).toBeDefined();
+      expect(moving.name).toBeUndefined();
+
+      // p2 never acknowledged anything and still gets keyframes
+      expect(statesFor('p2')[0].baseTick).toBeNull();
+    });
+
+    test('a reconnecting player is resynced with a keyframe', () => {
+      const [keyframe] = statesFor('p1');
+      gameRoom.acknowledgeState('p1', keyframe.tick);
+      gameRoom.markPlayerDisconnected('p1');
+      emitted.length = 0;
+
+      jest.advanceTimersByTime(SEND_MS + TICK_MS);
+      expect(statesFor('p1')).toHaveLength(0);
+
+      gameRoom.reconnectPlayer(createMockSocket('p1-new'), 'p1');
+      jest.advanceTimersByTime(SEND_MS + TICK_MS);
+
+      expect(statesFor('p1-new')[0].baseTick).toBeNull();
+    });
+  });
+
+  test('getSummary describes the room for the room browser', () => {
+    gameRoom.addPlayer(createMockSocket('p1'), 'Alice');
+    gameRoom.addPlayer(createMockSocket('p2'), 'Bob');
+
+    const summary = gameRoom.getSummary(gameRoom.createdAt.getTime() + 90 * 1000);
+
+    expect(summary).toEqual({
+      code: gameRoom.code,
+      hostName: 'Alice',
+      playerCount: 2,
+      maxPlayers: GAME_CONFIG.MAX_PLAYERS_PER_ROOM,
+      spectatorCount: 0,
+      phase: GamePhase.LOBBY,
+      ageSeconds: 90
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for server-side rewind history
+ */
+
+import { LagCompensationManager } from '../LagCompensation';
+
+interface TestPlayer {
+  x: number;
+  size?: number;
+  vx?: number;
+  isAlive?: boolean;
+}
+
+// Minimal game state with players lined up along the x axis
+const stateWith = (players: Record<string, TestPlayer>) => ({
+  players: new Map(Object.entries(players).map(([id, p]) => [id, {
+    isAlive: p.isAlive ?? true,
+    spinner: {
+      position: { x: p.x, y: 100 },
+      velocity: { x: p.vx ?? 0, y: 0 },
+      size: p.size ?? 20
+    }
+  }]))
+});
+
+describe('LagCompensationManager', () => {
+  let lagCompensation: LagCompensationManager;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    lagCompensation = new LagCompensationManager();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('returns nothing before any snapshot is taken', () => {
+    expect(lagCompensation.getPlayerStateAtTime('a', 1000)).toBeNull();
+    expect(lagCompensation.getMetrics(1000).missedRewinds).toBe(1);
+  });
+
+  test('interpolates position, velocity and size between bracketing snapshots', () => {
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 100, vx: 0, size: 20 } }), 1000);
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 200, vx: 40, size: 30 } }), 1020);
+
+    const state = lagCompensation.getPlayerStateAtTime('a', 1005)!;
+
+    expect(state.position).toEqual({ x: 125, y: 100 });
+    expect(state.velocity).toEqual({ x: 10, y: 0 });
+    expect(state.size).toBe(22.5);
+    expect(state.timestamp).toBe(1005);
+    expect(lagCompensation.getMetrics(1020).interpolatedRewinds).toBe(1);
+  });
+
+  test('returns a stored snapshot exactly when the time matches', () => {
+    for (let i = 0; i < 5; i++) {
+      lagCompensation.takeSnapshot(stateWith({ a: { x: i * 10 } }), 1000 + i * 16);
+    }
+
+    expect(lagCompensation.getPlayerStateAtTime('a', 1032)!.position.x).toBe(20);
+    expect(lagCompensation.getPlayerStateAtTime('a', 1040)!.position.x).toBe(25);
+  });
+
+  test('clamps to the ends of history and gives up beyond the history window', () => {
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 100 } }), 5000);
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 200 } }), 5016);
+
+    expect(lagCompensation.getPlayerStateAtTime('a', 4500)!.position.x).toBe(100);
+    expect(lagCompensation.getPlayerStateAtTime('a', 5100)!.position.x).toBe(200);
+    expect(lagCompensation.getPlayerStateAtTime('a', 3000)).toBeNull();
+
+    expect(lagCompensation.getMetrics(5016)).toEqual(expect.objectContaining({ clampedRewinds: 2, missedRewinds: 1 }));
+  });
+
+  test('overwrites the oldest snapshot once the ring buffer is full', () => {
+    lagCompensation = new LagCompensationManager(3);
+
+    for (let i = 0; i < 5; i++) {
+      lagCompensation.takeSnapshot(stateWith({ a: { x: i } }), 1000 + i * 10);
+    }
+
+    const metrics = lagCompensation.getMetrics(1040);
+    expect(metrics.historySize).toBe(3);
+    expect(metrics.historyCapacity).toBe(3);
+    expect(metrics.oldestSnapshot).toBe(20);
+    expect(lagCompensation.getPlayerStateAtTime('a', 1000)!.position.x).toBe(2);
+    expect(lagCompensation.getPlayerStateAtTime('a', 1035)!.position.x).toBe(3.5);
+  });
+
+  test('drops snapshots older than the history window but keeps the newest', () => {
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 1 } }), 1000);
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 2 } }), 1500);
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 3 } }), 2200);
+
+    expect(lagCompensation.getMetrics(2200).historySize).toBe(2);
+
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 4 } }), 9000);
+
+    expect(lagCompensation.getMetrics(9000)).toEqual(expect.objectContaining({ historySize: 1, newestSnapshot: 0 }));
+  });
+
+  test('treats a player eliminated between snapshots as already gone', () => {
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 100 } }), 1000);
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 100, isAlive: false } }), 1016);
+
+    expect(lagCompensation.getPlayerStateAtTime('a', 1004)!.isAlive).toBe(false);
+  });
+
+  test('validateHit checks overlap at the interpolated rewind time', () => {
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 0 }, b: { x: 100 } }), 1000);
+    lagCompensation.takeSnapshot(stateWith({ a: { x: 100 }, b: { x: 100 } }), 1100);
+
+    // At 1050 the spinners are 50 apart, more than the combined radius of 20
+    expect(lagCompensation.validateHit('a', 'b', 1100, 50).isValid).toBe(false);
+    // At 1090 they are 10 apart
+    expect(lagCompensation.validateHit('a', 'b', 1100, 10).isValid).toBe(true);
+  });
+});
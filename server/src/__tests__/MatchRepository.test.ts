@@ -0,0 +1,162 @@
+/**
+ * Tests for match history and player profiles
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryMatchRepository, JsonFileMatchRepository } from '../MatchRepository';
+import { MatchParticipant, MatchRecord } from '../types';
+
+const participant = (playerId: string, overrides: Partial<MatchParticipant> = {}): MatchParticipant => ({
+  playerId,
+  name: playerId,
+  isBot: false,
+  placement: 1,
+  finalSize: 20,
+  eliminations: 0,
+  eliminatedBy: null,
+  survived: false,
+  ...overrides
+});
+
+const match = (id: string, endedAt: number, participants: MatchParticipant[]): MatchRecord => ({
+  id,
+  roomCode: 'ABCD',
+  startedAt: endedAt - 60000,
+  endedAt,
+  winnerId: participants.find(p => p.survived)?.playerId ?? null,
+  participants,
+  eliminations: []
+});
+
+describe('InMemoryMatchRepository', () => {
+  let repository: InMemoryMatchRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryMatchRepository(3);
+  });
+
+  test('builds profile totals from finished matches', async () => {
+    await repository.recordMatch(match('m1', 100000, [
+      participant('alice', { survived: true, finalSize: 80, eliminations: 2 }),
+      participant('bob', { placement: 2, eliminatedBy: 'alice' })
+    ]));
+    await repository.recordMatch(match('m2', 200000, [
+      participant('alice', { name: 'Alice', placement: 2, finalSize: 50, eliminations: 1, eliminatedBy: 'bob' }),
+      participant('bob', { survived: true })
+    ]));
+
+    expect(await repository.getPlayerProfile('alice')).toEqual({
+      playerId: 'alice',
+      name: 'Alice',
+      matchesPlayed: 2,
+      wins: 1,
+      eliminations: 3,
+      deaths: 1,
+      bestSize: 80,
+      firstPlayedAt: 40000,
+      lastPlayedAt: 200000
+    });
+    expect(await repository.getMatch('m2')).toEqual(expect.objectContaining({ winnerId: 'bob' }));
+    expect(await repository.getMatch('missing')).toBeNull();
+    expect(await repository.getPlayerProfile('missing')).toBeNull();
+  });
+
+  test('bots get no profile or history', async () => {
+    await repository.recordMatch(match('m1', 100000, [participant('alice', { survived: true }), participant('bot_1', { isBot: true })]));
+
+    expect(await repository.getPlayerProfile('bot_1')).toBeNull();
+    expect(await repository.getPlayerMatches('bot_1')).toEqual([]);
+  });
+
+  test('lists a player\'s matches newest first, paging back with before', async () => {
+    for (let i = 1; i <= 3; i++) {
+      await repository.recordMatch(match(`m${i}`, i * 1000, [participant('alice')]));
+    }
+
+    expect((await repository.getPlayerMatches('alice')).map(m => m.id)).toEqual(['m3', 'm2', 'm1']);
+    expect((await repository.getPlayerMatches('alice', { limit: 2 })).map(m => m.id)).toEqual(['m3', 'm2']);
+    expect((await repository.getPlayerMatches('alice', { limit: 2, before: 2000 })).map(m => m.id)).toEqual(['m1']);
+  });
+
+  test('drops the oldest matches past the limit but keeps profile totals', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await repository.recordMatch(match(`m${i}`, i * 1000, [participant('alice'), participant(`rival${i}`)]));
+    }
+
+    expect(await repository.getMatch('m2')).toBeNull();
+    expect((await repository.getPlayerMatches('alice')).map(m => m.id)).toEqual(['m5', 'm4', 'm3']);
+    expect(await repository.getPlayerMatches('rival1')).toEqual([]);
+    expect((await repository.getPlayerProfile('alice'))!.matchesPlayed).toBe(5);
+  });
+});
+
+describe('JsonFileMatchRepository', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spinio-matches-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('a missing file is an empty store', async () => {
+    const repository = new JsonFileMatchRepository(path.join(dir, 'matches.json'));
+    await repository.load();
+
+    expect(await repository.getPlayerMatches('alice')).toEqual([]);
+  });
+
+  test('saved matches and profiles are there after a reload', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const filePath = path.join(dir, 'nested', 'matches.json');
+    const repository = new JsonFileMatchRepository(filePath, 100, 60000);
+    await repository.recordMatch(match('m1', 1000, [participant('alice', { survived: true }), participant('bob')]));
+    await repository.flush();
+
+    const reloaded = new JsonFileMatchRepository(filePath);
+    await reloaded.load();
+
+    expect(await reloaded.getMatch('m1')).toEqual(await repository.getMatch('m1'));
+    expect(await reloaded.getPlayerProfile('alice')).toEqual(await repository.getPlayerProfile('alice'));
+    expect((await reloaded.getPlayerMatches('bob')).map(m => m.id)).toEqual(['m1']);
+    jest.restoreAllMocks();
+  });
+
+  test('large stores are written in chunks and read back whole', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const filePath = path.join(dir, 'matches.json');
+    const repository = new JsonFileMatchRepository(filePath, 1000, 60000);
+    for (let i = 0; i < 450; i++) {
+      await repository.recordMatch(match(`m${i}`, i * 1000, [participant(`player${i}`)]));
+    }
+    await repository.flush();
+
+    const reloaded = new JsonFileMatchRepository(filePath);
+    await reloaded.load();
+
+    expect(await reloaded.getMatch('m449')).toEqual(await repository.getMatch('m449'));
+    expect(await reloaded.getPlayerProfile('player0')).toEqual(await repository.getPlayerProfile('player0'));
+    jest.restoreAllMocks();
+  });
+
+  test('a corrupt store is moved aside instead of being overwritten', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const filePath = path.join(dir, 'matches.json');
+    await fs.writeFile(filePath, '{"version":1,"matches":[');
+
+    const repository = new JsonFileMatchRepository(filePath, 100, 60000);
+    await repository.load();
+    await repository.recordMatch(match('m1', 1000, [participant('alice')]));
+    await repository.flush();
+
+    const files = await fs.readdir(dir);
+    const aside = files.find(file => file.startsWith('matches.json.corrupt-'))!;
+    expect(await fs.readFile(path.join(dir, aside), 'utf8')).toBe('{"version":1,"matches":[');
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8')).matches).toHaveLength(1);
+    jest.restoreAllMocks();
+  });
+});
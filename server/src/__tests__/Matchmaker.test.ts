@@ -0,0 +1,194 @@
+/**
+ * Tests for the quick-play matchmaker
+ */
+
+import { Server, Socket } from 'socket.io';
+import { GameRoom } from '../GameRoom';
+import { Matchmaker } from '../Matchmaker';
+import { GAME_CONFIG } from '../types';
+
+interface EmittedEvent {
+  target: string;
+  event: string;
+  data: unknown;
+}
+
+const createMockIo = (emitted: EmittedEvent[]): Server => ({
+  to: jest.fn((target: string) => ({
+    emit: jest.fn((event: string, data: unknown) => {
+      emitted.push({ target, event, data });
+    })
+  }))
+}) as unknown as Server;
+
+const createMockSocket = (id: string, emitted: EmittedEvent[]): Socket => ({
+  id,
+  join: jest.fn(),
+  leave: jest.fn(),
+  emit: jest.fn((event: string, data: unknown) => {
+    emitted.push({ target: id, event, data });
+  })
+}) as unknown as Socket;
+
+describe('Matchmaker', () => {
+  let emitted: EmittedEvent[];
+  let io: Server;
+  let rooms: Map<string, GameRoom>;
+  let matchmaker: Matchmaker;
+  let nextCode: number;
+  let unplaceable: Set<string>;
+
+  const eventsNamed = (event: string): EmittedEvent[] => emitted.filter(e => e.event === event);
+  const socket = (id: string): Socket => createMockSocket(id, emitted);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    emitted = [];
+    io = createMockIo(emitted);
+    rooms = new Map();
+    nextCode = 1000;
+    unplaceable = new Set();
+
+    matchmaker = new Matchmaker(io, {
+      getOpenRooms: (): GameRoom[] => Array.from(rooms.values()).filter(r => !r.isEmpty),
+      createRoom: (): GameRoom => {
+        const gameRoom = new GameRoom('Quick Play', io, { code: String(nextCode++), isMatchmade: true });
+        rooms.set(gameRoom.code, gameRoom);
+        return gameRoom;
+      },
+      placePlayer: (playerSocket, gameRoom, playerName): boolean =>
+        !unplaceable.has(playerSocket.id) && gameRoom.addPlayer(playerSocket, playerName).success,
+      removeRoom: (gameRoom): void => {
+        gameRoom.destroy();
+        rooms.delete(gameRoom.code);
+      },
+      hasRoom: (roomCode): boolean => rooms.has(roomCode)
+    });
+  });
+
+  afterEach(() => {
+    matchmaker.destroy();
+    rooms.forEach(gameRoom => gameRoom.destroy());
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('a lone player waits in the queue with a position and ETA', () => {
+    matchmaker.enqueue(socket('p1'), 'Alice');
+
+    expect(rooms.size).toBe(0);
+    expect(matchmaker.queueSize).toBe(1);
+    expect(eventsNamed('QUEUE_STATUS')).toEqual([
+      {
+        target: 'p1',
+        event: 'QUEUE_STATUS',
+        data: { position: 1, queueSize: 1, estimatedWaitSeconds: GAME_CONFIG.MATCHMAKING_DEFAULT_ETA_MS / 1000 }
+      }
+    ]);
+  });
+
+  test('rejects a socket that is already queued', () => {
+    const s = socket('p1');
+    matchmaker.enqueue(s, 'Alice');
+
+    expect(matchmaker.enqueue(s, 'Alice').error).toBe('Already in queue');
+  });
+
+  test('groups queued players into a new room and starts it after the countdown', () => {
+    matchmaker.enqueue(socket('p1'), 'Alice');
+    matchmaker.enqueue(socket('p2'), 'Bob');
+
+    expect(rooms.size).toBe(1);
+    const [gameRoom] = Array.from(rooms.values());
+    expect(gameRoom.playerCount).toBe(2);
+    expect(matchmaker.queueSize).toBe(0);
+    expect(eventsNamed('MATCH_COUNTDOWN')).toHaveLength(1);
+    expect(gameRoom.isPlaying).toBe(false);
+
+    jest.advanceTimersByTime(GAME_CONFIG.MATCHMAKING_COUNTDOWN_MS);
+
+    expect(gameRoom.isPlaying).toBe(true);
+    expect(eventsNamed('GAME_STARTED')).toHaveLength(1);
+  });
+
+  test('fills open lobby rooms before creating new ones', () => {
+    const hostRoom = new GameRoom('Host', io, { code: '9999' });
+    hostRoom.addPlayer(socket('host'), 'Host');
+    rooms.set(hostRoom.code, hostRoom);
+
+    matchmaker.enqueue(socket('p1'), 'Alice');
+
+    expect(rooms.size).toBe(1);
+    expect(hostRoom.playerCount).toBe(2);
+    // Host-created rooms are still started by their host
+    expect(eventsNamed('MATCH_COUNTDOWN')).toHaveLength(0);
+  });
+
+  test('cancels the countdown when the room drops below the minimum', () => {
+    matchmaker.enqueue(socket('p1'), 'Alice');
+    matchmaker.enqueue(socket('p2'), 'Bob');
+    const [gameRoom] = Array.from(rooms.values());
+
+    gameRoom.removePlayer('p2');
+    matchmaker.updateCountdown(gameRoom);
+    jest.advanceTimersByTime(GAME_CONFIG.MATCHMAKING_COUNTDOWN_MS);
+
+    expect(eventsNamed('MATCH_COUNTDOWN_CANCELLED')).toHaveLength(1);
+    expect(gameRoom.isPlaying).toBe(false);
+  });
+
+  test('fills a room with bots for a player left waiting too long', () => {
+    matchmaker.enqueue(socket('p1'), 'Alice');
+
+    jest.advanceTimersByTime(GAME_CONFIG.MATCHMAKING_BOT_FILL_MS);
+
+    expect(matchmaker.queueSize).toBe(0);
+    const [gameRoom] = Array.from(rooms.values());
+    expect(gameRoom.playerCount).toBe(GAME_CONFIG.MATCHMAKING_BOT_FILL_TARGET);
+    expect(gameRoom.botCount).toBe(GAME_CONFIG.MATCHMAKING_BOT_FILL_TARGET - 1);
+    expect(eventsNamed('MATCH_COUNTDOWN')).toHaveLength(1);
+  });
+
+  test('does not fill with bots once the queue has emptied', () => {
+    matchmaker.enqueue(socket('p1'), 'Alice');
+    matchmaker.dequeue('p1');
+
+    jest.advanceTimersByTime(GAME_CONFIG.MATCHMAKING_BOT_FILL_MS);
+
+    expect(rooms.size).toBe(0);
+  });
+
+  test('tells players it could not place and drops the room nobody joined', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    unplaceable = new Set(['p1', 'p2']);
+
+    matchmaker.enqueue(socket('p1'), 'Alice');
+    matchmaker.enqueue(socket('p2'), 'Bob');
+
+    expect(rooms.size).toBe(0);
+    expect(matchmaker.queueSize).toBe(0);
+    expect(eventsNamed('ERROR').map(e => e.target)).toEqual(['p1', 'p2']);
+    expect(eventsNamed('MATCH_COUNTDOWN')).toHaveLength(0);
+  });
+
+  test('does not fill a room with bots when the waiting player cannot be placed', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    unplaceable = new Set(['p1']);
+    matchmaker.enqueue(socket('p1'), 'Alice');
+
+    jest.advanceTimersByTime(GAME_CONFIG.MATCHMAKING_BOT_FILL_MS);
+
+    expect(rooms.size).toBe(0);
+    expect(eventsNamed('ERROR').map(e => e.target)).toEqual(['p1']);
+  });
+
+  test('dequeue removes a waiting socket', () => {
+    matchmaker.enqueue(socket('p1'), 'Alice');
+
+    expect(matchmaker.dequeue('p1')).toBe(true);
+    expect(matchmaker.dequeue('p1')).toBe(false);
+    expect(matchmaker.isQueued('p1')).toBe(false);
+    expect(matchmaker.queueSize).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for token bucket rate limiting
+ */
+
+import { RateLimiter } from '../RateLimiter';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter({
+      '*': { capacity: 5, refillPerSecond: 1 },
+      CREATE_ROOM: { capacity: 2, refillPerSecond: 0.5 }
+    });
+  });
+
+  test('allows a burst up to capacity, then rejects', () => {
+    expect(limiter.consume('s1', 'CREATE_ROOM', 0)).toBe(true);
+    expect(limiter.consume('s1', 'CREATE_ROOM', 0)).toBe(true);
+    expect(limiter.consume('s1', 'CREATE_ROOM', 0)).toBe(false);
+  });
+
+  test('refills over time without exceeding capacity', () => {
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+
+    expect(limiter.consume('s1', 'CREATE_ROOM', 1000)).toBe(false);
+    expect(limiter.consume('s1', 'CREATE_ROOM', 2000)).toBe(true);
+
+    // A long pause only restores the burst size
+    const allowed = [1, 2, 3].map(() => limiter.consume('s1', 'CREATE_ROOM', 60000));
+    expect(allowed).toEqual([true, true, false]);
+  });
+
+  test('keeps separate budgets per key and per message', () => {
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+
+    expect(limiter.consume('s2', 'CREATE_ROOM', 0)).toBe(true);
+    expect(limiter.consume('s1', 'JOIN_ROOM', 0)).toBe(true);
+  });
+
+  test('messages without their own limit share the default budget', () => {
+    for (let i = 0; i < 5; i++) {
+      limiter.consume('s1', i % 2 ? 'START_GAME' : 'constructor', 0);
+    }
+
+    expect(limiter.consume('s1', 'LEAVE_ROOM', 0)).toBe(false);
+    expect(limiter.getMetrics().violationsByEvent).toEqual({ '*': 1 });
+  });
+
+  test('without a default, unlisted messages are not limited', () => {
+    const ipLimiter = new RateLimiter({ connection: { capacity: 1, refillPerSecond: 1 } });
+
+    expect([1, 2, 3].every(() => ipLimiter.consume('1.2.3.4', 'PLAYER_INPUT', 0))).toBe(true);
+    expect(ipLimiter.consume('1.2.3.4', 'connection', 0)).toBe(true);
+    expect(ipLimiter.consume('1.2.3.4', 'connection', 0)).toBe(false);
+  });
+
+  test('counts violations and forgets idle or removed keys', () => {
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+    limiter.consume('s1', 'CREATE_ROOM', 0);
+    limiter.consume('s2', 'START_GAME', 0);
+
+    expect(limiter.getMetrics()).toEqual({ buckets: 2, violations: 1, violationsByEvent: { CREATE_ROOM: 1 } });
+
+    limiter.remove('s2');
+    expect(limiter.getMetrics().buckets).toBe(1);
+
+    limiter.prune(1000);
+    expect(limiter.getMetrics().buckets).toBe(1);
+    limiter.prune(4000);
+    expect(limiter.getMetrics().buckets).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for the background room reaper
+ */
+
+import { Server, Socket } from 'socket.io';
+import { GameRoom } from '../GameRoom';
+import { RoomReaper } from '../RoomReaper';
+import { GAME_CONFIG, GamePhase, RoomExpiryReason } from '../types';
+
+interface EmittedEvent {
+  target: string;
+  event: string;
+  data: unknown;
+}
+
+const createMockIo = (emitted: EmittedEvent[], socketsLeave: jest.Mock): Server => ({
+  to: jest.fn((target: string) => ({
+    emit: jest.fn((event: string, data: unknown) => {
+      emitted.push({ target, event, data });
+    })
+  })),
+  in: jest.fn((target: string) => ({
+    socketsLeave: jest.fn(() => socketsLeave(target))
+  }))
+}) as unknown as Server;
+
+const createMockSocket = (id: string): Socket => ({
+  id,
+  join: jest.fn(),
+  leave: jest.fn()
+}) as unknown as Socket;
+
+const minutes = (count: number): number => count * 60 * 1000;
+
+describe('RoomReaper', () => {
+  let emitted: EmittedEvent[];
+  let socketsLeave: jest.Mock;
+  let io: Server;
+  let rooms: Map<string, GameRoom>;
+  let playerRooms: Map<string, string>;
+  let onPlayerRemoved: jest.Mock;
+  let onRoomRemoved: jest.Mock;
+  let reaper: RoomReaper;
+
+  const eventsNamed = (event: string): EmittedEvent[] => emitted.filter(e => e.event === event);
+
+  const createRoom = (code: string, playerIds: string[]): GameRoom => {
+    const gameRoom = new GameRoom('Host', io, { code });
+    playerIds.forEach(playerId => {
+      gameRoom.addPlayer(createMockSocket(playerId), playerId);
+      playerRooms.set(playerId, code);
+    });
+    rooms.set(code, gameRoom);
+    return gameRoom;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    emitted = [];
+    socketsLeave = jest.fn();
+    io = createMockIo(emitted, socketsLeave);
+    rooms = new Map();
+    playerRooms = new Map();
+    onPlayerRemoved = jest.fn();
+    onRoomRemoved = jest.fn();
+    reaper = new RoomReaper(rooms, playerRooms, io, onPlayerRemoved, onRoomRemoved);
+  });
+
+  afterEach(() => {
+    reaper.stop();
+    rooms.forEach(gameRoom => gameRoom.destroy());
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('leaves rooms within their limits alone', () => {
+    createRoom('1111', ['p1']);
+
+    expect(reaper.sweep(Date.now() + minutes(GAME_CONFIG.LOBBY_IDLE_MINUTES) - 1)).toEqual([]);
+    expect(rooms.size).toBe(1);
+    expect(eventsNamed('ROOM_EXPIRED')).toHaveLength(0);
+  });
+
+  test('expires an idle lobby, telling its players and cleaning up their sessions', () => {
+    const gameRoom = createRoom('1111', ['p1', 'p2']);
+    createRoom('2222', ['p3']);
+    const destroy = jest.spyOn(gameRoom, 'destroy');
+
+    // The other room was created later, so it is not idle yet
+    jest.advanceTimersByTime(minutes(1));
+    rooms.get('2222')!.addPlayer(createMockSocket('p4'), 'p4');
+    playerRooms.set('p4', '2222');
+
+    expect(reaper.sweep(gameRoom.lastActivity + minutes(GAME_CONFIG.LOBBY_IDLE_MINUTES) + 1)).toEqual(['1111']);
+
+    expect(eventsNamed('ROOM_EXPIRED')).toEqual([{
+      target: '1111',
+      event: 'ROOM_EXPIRED',
+      data: { roomCode: '1111', reason: RoomExpiryReason.LOBBY_IDLE, message: 'Lobby closed after being idle' }
+    }]);
+    expect(destroy).toHaveBeenCalled();
+    expect(socketsLeave).toHaveBeenCalledWith('1111');
+    expect(Array.from(rooms.keys())).toEqual(['2222']);
+    expect(Array.from(playerRooms.keys())).toEqual(['p3', 'p4']);
+    expect(onPlayerRemoved.mock.calls).toEqual([['p1'], ['p2']]);
+    expect(onRoomRemoved.mock.calls).toEqual([['1111']]);
+  });
+
+  test('expires a match nobody is playing, spectators included', () => {
+    const gameRoom = createRoom('1111', ['p1', 'p2']);
+    gameRoom.startGame('p1');
+    gameRoom.addSpectator(createMockSocket('s1'), 'Watcher');
+    playerRooms.set('s1', '1111');
+
+    reaper.sweep(gameRoom.lastActivity + minutes(GAME_CONFIG.ROOM_INACTIVITY_MINUTES) + 1);
+
+    expect(eventsNamed('ROOM_EXPIRED')[0].data).toEqual(expect.objectContaining({ reason: RoomExpiryReason.INACTIVE }));
+    expect(rooms.size).toBe(0);
+    expect(playerRooms.size).toBe(0);
+    expect(onPlayerRemoved.mock.calls).toEqual([['p1'], ['p2'], ['s1']]);
+  });
+
+  test('expires a room left on the results screen', () => {
+    const gameRoom = createRoom('1111', ['p1', 'p2']);
+    gameRoom.startGame('p1');
+    gameRoom.removePlayer('p2');
+    expect(gameRoom.phase).toBe(GamePhase.GAME_OVER);
+
+    // Still within the inactivity limit, but the results have been up long enough
+    reaper.sweep(Date.now() + minutes(GAME_CONFIG.GAME_OVER_EXPIRY_MINUTES) + 1);
+
+    expect(eventsNamed('ROOM_EXPIRED')[0].data).toEqual(expect.objectContaining({ reason: RoomExpiryReason.GAME_OVER_TIMEOUT }));
+    expect(rooms.size).toBe(0);
+  });
+
+  test('expires a room past its maximum lifetime even while busy', () => {
+    const gameRoom = createRoom('1111', ['p1']);
+    const expiresAt = gameRoom.createdAt.getTime() + minutes(GAME_CONFIG.ROOM_EXPIRY_MINUTES) + 1;
+
+    // Keep the lobby active right up to the end
+    jest.setSystemTime(expiresAt - 1);
+    gameRoom.addPlayer(createMockSocket('p2'), 'p2');
+
+    reaper.sweep(expiresAt);
+
+    expect(eventsNamed('ROOM_EXPIRED')[0].data).toEqual(expect.objectContaining({ reason: RoomExpiryReason.MAX_AGE }));
+    expect(rooms.size).toBe(0);
+  });
+
+  test('sweeps on an interval once started', () => {
+    createRoom('1111', ['p1']);
+    reaper.start(minutes(1));
+
+    jest.advanceTimersByTime(minutes(GAME_CONFIG.LOBBY_IDLE_MINUTES));
+    expect(rooms.size).toBe(1);
+
+    jest.advanceTimersByTime(minutes(1));
+    expect(rooms.size).toBe(0);
+
+    reaper.stop();
+    createRoom('2222', ['p2']);
+    jest.advanceTimersByTime(minutes(GAME_CONFIG.ROOM_EXPIRY_MINUTES));
+    expect(rooms.size).toBe(1);
+  });
+});
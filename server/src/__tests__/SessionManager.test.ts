@@ -0,0 +1,99 @@
+/**
+ * Tests for resumable player sessions
+ * Runs in the node environment so uuid resolves to its CommonJS build
+ *
+ * @jest-environment node
+ */
+
+import { SessionManager } from '../SessionManager';
+
+const GRACE_MS = 30000;
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    sessions = new SessionManager(GRACE_MS);
+  });
+
+  afterEach(() => {
+    sessions.destroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('issues one token per player, replacing the previous one', () => {
+    const first = sessions.createSession('p1', 'ABCD', 'socket-1');
+    const second = sessions.createSession('p1', 'EFGH', 'socket-2');
+
+    expect(second).not.toBe(first);
+    expect(sessions.getSession(first)).toBeNull();
+    expect(sessions.getSessionForPlayer('p1')).toEqual({
+      token: second,
+      playerId: 'p1',
+      roomCode: 'EFGH',
+      socketId: 'socket-2',
+      disconnectedAt: null
+    });
+    expect(sessions.activeSessionCount).toBe(1);
+  });
+
+  test('a disconnected player is dropped once the grace period runs out', () => {
+    const token = sessions.createSession('p1', 'ABCD', 'socket-1');
+    const onExpire = jest.fn();
+
+    expect(sessions.startGracePeriod('p1', onExpire)).toBe(true);
+    expect(sessions.getSession(token)!.disconnectedAt).toBe(Date.now());
+
+    jest.advanceTimersByTime(GRACE_MS - 1);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledWith(expect.objectContaining({ playerId: 'p1', roomCode: 'ABCD' }));
+    expect(sessions.getSession(token)).toBeNull();
+  });
+
+  test('resuming within the grace period moves the session to the new socket', () => {
+    const token = sessions.createSession('p1', 'ABCD', 'socket-1');
+    const onExpire = jest.fn();
+    sessions.startGracePeriod('p1', onExpire);
+
+    const resumed = sessions.resumeSession(token, 'socket-2');
+    jest.advanceTimersByTime(GRACE_MS);
+
+    expect(resumed).toEqual(expect.objectContaining({ playerId: 'p1', socketId: 'socket-2', disconnectedAt: null }));
+    expect(onExpire).not.toHaveBeenCalled();
+    expect(sessions.getSession(token)).not.toBeNull();
+  });
+
+  test('the old socket disconnecting after a resume is recognised as stale', () => {
+    const token = sessions.createSession('p1', 'ABCD', 'socket-1');
+
+    // The player reconnected before the server noticed the old socket was gone
+    sessions.resumeSession(token, 'socket-2');
+
+    expect(sessions.isSuperseded('p1', 'socket-1')).toBe(true);
+    expect(sessions.isSuperseded('p1', 'socket-2')).toBe(false);
+    expect(sessions.isSuperseded('nobody', 'socket-1')).toBe(false);
+  });
+
+  test('unknown and expired tokens cannot be resumed', () => {
+    const token = sessions.createSession('p1', 'ABCD', 'socket-1');
+    sessions.startGracePeriod('p1', () => {});
+    jest.advanceTimersByTime(GRACE_MS);
+
+    expect(sessions.resumeSession(token, 'socket-2')).toBeNull();
+    expect(sessions.resumeSession('forged', 'socket-2')).toBeNull();
+  });
+
+  test('nothing is held when grace periods are disabled', () => {
+    const noGrace = new SessionManager(0);
+    noGrace.createSession('p1', 'ABCD', 'socket-1');
+
+    expect(noGrace.startGracePeriod('p1', () => {})).toBe(false);
+    expect(sessions.startGracePeriod('unknown', () => {})).toBe(false);
+    noGrace.destroy();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for signed guest identities
+ */
+
+import { GuestAuth } from '../auth';
+
+describe('GuestAuth', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let auth: GuestAuth;
+
+  beforeEach(() => {
+    auth = new GuestAuth('test-secret', DAY_MS);
+  });
+
+  test('issues tokens that verify to a stable guest identity', () => {
+    const issued = auth.issueGuestToken(undefined, 1000);
+
+    expect(issued.playerId).toMatch(/^guest_[0-9a-f]{32}$/);
+    expect(issued.expiresAt).toBe(1000 + DAY_MS);
+    expect(auth.verifyToken(issued.token, 2000)).toEqual({
+      playerId: issued.playerId,
+      issuedAt: 1000,
+      expiresAt: 1000 + DAY_MS
+    });
+  });
+
+  test('every new guest gets a different identity', () => {
+    expect(auth.issueGuestToken().playerId).not.toBe(auth.issueGuestToken().playerId);
+  });
+
+  test('renewing a valid token keeps the identity and pushes back the expiry', () => {
+    const first = auth.issueGuestToken(undefined, 1000);
+    const renewed = auth.issueGuestToken(first.token, DAY_MS / 2);
+
+    expect(renewed.playerId).toBe(first.playerId);
+    expect(renewed.expiresAt).toBe(DAY_MS / 2 + DAY_MS);
+  });
+
+  test('expired tokens are rejected, and renewing one starts a new identity', () => {
+    const issued = auth.issueGuestToken(undefined, 1000);
+
+    expect(auth.verifyToken(issued.token, 1000 + DAY_MS)).toBeNull();
+    expect(auth.issueGuestToken(issued.token, 1000 + DAY_MS).playerId).not.toBe(issued.playerId);
+  });
+
+  test('rejects tampered tokens and tokens signed with another secret', () => {
+    const issued = auth.issueGuestToken();
+    const [payload, signature] = issued.token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      sub: `guest_${'0'.repeat(32)}`,
+      iat: Date.now(),
+      exp: Date.now() + DAY_MS
+    })).toString('base64url');
+
+    expect(auth.verifyToken(`${forgedPayload}.${signature}`)).toBeNull();
+    expect(auth.verifyToken(`${payload}.${signature.slice(1)}`)).toBeNull();
+    expect(new GuestAuth('another-secret').verifyToken(issued.token)).toBeNull();
+  });
+
+  test('rejects anything that is not a token', () => {
+    expect(auth.verifyToken(undefined)).toBeNull();
+    expect(auth.verifyToken(42)).toBeNull();
+    expect(auth.verifyToken('')).toBeNull();
+    expect(auth.verifyToken('a.b.c')).toBeNull();
+    expect(auth.verifyToken('x'.repeat(1000))).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for the binary wire format
+ */
+
+import { CODEC_VERSION, GameStateReader, GameStateWriter, MessageType, decodePlayerInput, encodePlayerInput } from '../codec';
+import { createSnapshot, encodeDelta } from '../DeltaEncoder';
+import { Dot, GameStateDelta, PlayerData } from '../types';
+
+const createPlayer = (id: string, x: number, rotation: number = 1.234): PlayerData => ({
+  id,
+  name: `Player ${id} ✨`,
+  spinner: {
+    position: { x, y: 321.5 },
+    velocity: { x: -42.25, y: 17 },
+    targetDirection: { x: 0.6, y: 0.8 },
+    size: 31.42,
+    spinSpeed: Math.PI * 2,
+    rotation,
+    maxSpeed: 187.5
+  },
+  score: 31.42,
+  isAlive: true,
+  isHost: id === 'k3j9x0a1b',
+  isConnected: true,
+  isBot: false
+});
+
+const createDot = (index: number): Dot => ({
+  id: `dot${index.toString(36).padStart(6, '0')}`,
+  position: { x: 12.5 + index * 7.5, y: 543.25 - index * 3.25 },
+  size: 8.5,
+  value: 2.5
+});
+
+const arena = { width: 800, height: 600 };
+const playerIds = ['k3j9x0a1b', 'q8w7e6r5t', 'z1x2c3v4b', 'm9n8b7v6c'];
+
+const createState = (x: number, rotation: number) => ({
+  players: playerIds.map((id, i) => createPlayer(id, x + i * 100, rotation)),
+  dots: Array.from({ length: 50 }, (_, i) => createDot(i))
+});
+
+describe('Player input encoding', () => {
+  test('round-trips sequence, timestamp and direction', () => {
+    const encoded = encodePlayerInput({ direction: { x: 0.6, y: -0.8 }, timestamp: 1760000000123, sequenceNumber: 300 });
+    const decoded = decodePlayerInput(encoded)!;
+
+    expect(decoded.sequenceNumber).toBe(300);
+    expect(decoded.timestamp).toBe(1760000000123);
+    expect(decoded.direction.x).toBeCloseTo(0.6, 2);
+    expect(decoded.direction.y).toBeCloseTo(-0.8, 2);
+  });
+
+  test('a zero direction stays zero', () => {
+    const decoded = decodePlayerInput(encodePlayerInput({ direction: { x: 0, y: 0 }, timestamp: 1, sequenceNumber: 1 }))!;
+
+    expect(decoded.direction).toEqual({ x: 0, y: 0 });
+  });
+
+  test('rejects other codec versions, other message types and truncated messages', () => {
+    const encoded = encodePlayerInput({ direction: { x: 1, y: 0 }, timestamp: 1000, sequenceNumber: 1 });
+
+    expect(decodePlayerInput(Uint8Array.from([CODEC_VERSION + 1, ...encoded.slice(1)]))).toBeNull();
+    expect(decodePlayerInput(Uint8Array.from([CODEC_VERSION, MessageType.GAME_STATE, ...encoded.slice(2)]))).toBeNull();
+    expect(decodePlayerInput(encoded.slice(0, encoded.length - 1))).toBeNull();
+  });
+});
+
+describe('Game state encoding', () => {
+  let writer: GameStateWriter;
+  let reader: GameStateReader;
+
+  beforeEach(() => {
+    writer = new GameStateWriter();
+    reader = new GameStateReader();
+  });
+
+  test('round-trips a keyframe', () => {
+    const { players, dots } = createState(100, 1.234);
+    const keyframe = encodeDelta(null, createSnapshot(7, 12.345, arena, players, dots, new Map([[playerIds[0], 99]])));
+
+    const decoded = reader.decode(writer.encode(keyframe))!;
+
+    expect(decoded.tick).toBe(7);
+    expect(decoded.baseTick).toBeNull();
+    expect(decoded.timeElapsed).toBe(12.345);
+    expect(decoded.arena).toEqual(arena);
+    expect(decoded.dotsAdded).toEqual(keyframe.dotsAdded);
+    decoded.players.forEach((player, i) => {
+      const { rotation, ...rest } = keyframe.players[i];
+      expect(player).toEqual(expect.objectContaining(rest));
+      expect(player.rotation).toBeCloseTo(rotation!, 3);
+    });
+  });
+
+  test('round-trips a delta, including negative values and removals', () => {
+    const delta: GameStateDelta = {
+      tick: 8,
+      baseTick: 7,
+      timeElapsed: 12.4,
+      players: [{ id: 'a', position: { x: -5.5, y: 0.01 }, isAlive: false, score: 0 }],
+      removedPlayers: ['b'],
+      dotsAdded: [],
+      dotsRemoved: ['d1', 'd2']
+    };
+
+    expect(reader.decode(writer.encode(delta))).toEqual(delta);
+  });
+
+  test('sends each ID in full once, then by index until the next keyframe', () => {
+    const delta: GameStateDelta = {
+      tick: 1, baseTick: null, timeElapsed: 0,
+      players: [{ id: 'k3j9x0a1b', score: 1 }], removedPlayers: [], dotsAdded: [], dotsRemoved: []
+    };
+
+    const first = writer.encode(delta);
+    const second = writer.encode({ ...delta, tick: 2, baseTick: 1 });
+
+    expect(second.length).toBe(first.length - 'k3j9x0a1b'.length - 1);
+    expect(reader.decode(first)!.players[0].id).toBe('k3j9x0a1b');
+    expect(reader.decode(second)!.players[0].id).toBe('k3j9x0a1b');
+
+    // A fresh reader only understands the indices after a keyframe
+    const lateReader = new GameStateReader();
+    expect(lateReader.decode(writer.encode({ ...delta, tick: 3, baseTick: 2 }))).toBeNull();
+    expect(lateReader.decode(writer.encode({ ...delta, tick: 4 }))!.players[0].id).toBe('k3j9x0a1b');
+  });
+
+  test('reuses the index of a removed dot instead of growing the ID table', () => {
+    const churn = (id: number, removed: number[]): GameStateDelta => ({
+      tick: 1000, baseTick: 999, timeElapsed: 0, players: [], removedPlayers: [],
+      dotsAdded: [{ id: `dot_${String(id).padStart(4, '0')}`, position: { x: 1, y: 2 }, size: 3, value: 1 }],
+      dotsRemoved: removed.map(n => `dot_${String(n).padStart(4, '0')}`)
+    });
+    reader.decode(writer.encode(churn(0, [])));
+
+    // Each tick a dot is eaten and a new one spawns in its place
+    const sizes = new Set<number>();
+    for (let id = 1; id < 300; id++) {
+      const encoded = writer.encode(churn(id, [id - 1]));
+      sizes.add(encoded.length);
+
+      const decoded = reader.decode(encoded)!;
+      expect(decoded.dotsAdded[0].id).toBe(`dot_${String(id).padStart(4, '0')}`);
+      expect(decoded.dotsRemoved).toEqual([`dot_${String(id - 1).padStart(4, '0')}`]);
+    }
+
+    // Indices never climb past a single byte
+    expect(sizes.size).toBe(1);
+  });
+
+  test('frees the index of a dot that came and went between acknowledgements', () => {
+    const dotId = (n: number): string => `dot_${String(n).padStart(4, '0')}`;
+    const delta = (dots: Dot[]): GameStateDelta => ({
+      tick: 1000, baseTick: 999, timeElapsed: 0, players: [], removedPlayers: [], dotsAdded: dots, dotsRemoved: []
+    });
+    reader.decode(writer.encode(delta([])));
+
+    const sizes = new Set<number>();
+    for (let n = 0; n < 300; n++) {
+      const dot = { id: dotId(n), position: { x: 1, y: 2 }, size: 3, value: 1 };
+
+      // The dot spawns and is sent again until acknowledged, then is eaten before the client acks a state with it,
+      // so it never shows up as a removal
+      reader.decode(writer.encode(delta([dot])));
+      const resent = writer.encode(delta([dot]));
+      sizes.add(resent.length);
+      expect(reader.decode(resent)!.dotsAdded[0].id).toBe(dotId(n));
+      reader.decode(writer.encode(delta([])));
+
+      // The client acknowledges a state without it
+      writer.release(new Set());
+    }
+
+    // Indices never climb past a single byte
+    expect(sizes.size).toBe(1);
+  });
+
+  test('a released ID sent again is interned afresh on both ends', () => {
+    const dot = { id: 'dot_a', position: { x: 1, y: 2 }, size: 3, value: 1 };
+    const delta = (dots: Dot[]): GameStateDelta => ({
+      tick: 1000, baseTick: 999, timeElapsed: 0, players: [], removedPlayers: [], dotsAdded: dots, dotsRemoved: []
+    });
+    reader.decode(writer.encode(delta([dot])));
+
+    writer.release(new Set());
+    const decoded = reader.decode(writer.encode(delta([dot, { ...dot, id: 'dot_b' }])));
+
+    expect(decoded!.dotsAdded.map(d => d.id)).toEqual(['dot_a', 'dot_b']);
+    expect(reader.decode(writer.encode(delta([{ ...dot, id: 'dot_b' }, dot])))!.dotsAdded.map(d => d.id))
+      .toEqual(['dot_b', 'dot_a']);
+  });
+
+  test('rejects other codec versions and truncated messages', () => {
+    const { players, dots } = createState(100, 1);
+    const encoded = writer.encode(encodeDelta(null, createSnapshot(1, 0, arena, players, dots, new Map())));
+
+    expect(reader.decode(Uint8Array.from([CODEC_VERSION + 1, ...encoded.slice(1)]))).toBeNull();
+    expect(reader.decode(encoded.slice(0, encoded.length - 3))).toBeNull();
+  });
+
+  test('is much smaller than the equivalent JSON', () => {
+    const before = createState(100, 1);
+    const after = createState(103.37, 1.1);
+    const baseline = createSnapshot(1, 0.05, arena, before.players, before.dots, new Map());
+    const current = createSnapshot(2, 0.1, arena, after.players, after.dots.slice(1), new Map());
+
+    const keyframe = encodeDelta(null, baseline);
+    const delta = encodeDelta(baseline, current);
+    // What GAME_STATE used to send every tick
+    const legacyJson = JSON.stringify({ players: after.players, dots: after.dots.slice(1), timeElapsed: 0.1, arena });
+
+    const keyframeBytes = writer.encode(keyframe).length;
+    const deltaBytes = writer.encode(delta).length;
+
+    expect(keyframeBytes).toBeLessThan(JSON.stringify(keyframe).length / 2);
+    expect(deltaBytes).toBeLessThan(JSON.stringify(delta).length / 4);
+    expect(deltaBytes).toBeLessThan(legacyJson.length / 50);
+  });
+});
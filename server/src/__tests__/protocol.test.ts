@@ -0,0 +1,49 @@
+/**
+ * Tests for the connection handshake
+ */
+
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, ProtocolFeature, SUPPORTED_FEATURES, negotiateProtocol } from '../protocol';
+
+describe('negotiateProtocol', () => {
+  test('accepts a current client with every feature', () => {
+    const result = negotiateProtocol({ protocolVersion: PROTOCOL_VERSION, features: SUPPORTED_FEATURES });
+
+    expect(result).toEqual({ success: true, features: SUPPORTED_FEATURES });
+  });
+
+  test('agrees on the features both sides know, ignoring unknown ones', () => {
+    const result = negotiateProtocol({
+      protocolVersion: PROTOCOL_VERSION,
+      features: [ProtocolFeature.BINARY_CODEC, 'hologram-mode']
+    });
+
+    expect(result).toEqual({ success: true, features: [ProtocolFeature.BINARY_CODEC] });
+  });
+
+  test('asks outdated clients to update', () => {
+    const result = negotiateProtocol({ protocolVersion: MIN_PROTOCOL_VERSION - 1, features: SUPPORTED_FEATURES });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/update/i);
+  });
+
+  test('rejects clients newer than the server', () => {
+    const result = negotiateProtocol({ protocolVersion: PROTOCOL_VERSION + 1, features: SUPPORTED_FEATURES });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/older version/);
+  });
+
+  test('rejects clients missing a required feature', () => {
+    const result = negotiateProtocol({ protocolVersion: PROTOCOL_VERSION, features: [ProtocolFeature.DELTA_STATE] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(ProtocolFeature.BINARY_CODEC);
+  });
+
+  test('rejects malformed handshakes', () => {
+    expect(negotiateProtocol(undefined).success).toBe(false);
+    expect(negotiateProtocol({ protocolVersion: '1', features: [] }).success).toBe(false);
+    expect(negotiateProtocol({ protocolVersion: PROTOCOL_VERSION }).success).toBe(false);
+  });
+});
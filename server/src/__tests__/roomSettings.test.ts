@@ -0,0 +1,44 @@
+/**
+ * Tests for per-room game rule validation
+ */
+
+import { DEFAULT_ROOM_SETTINGS, validateRoomSettings } from '../roomSettings';
+import { GAME_CONFIG } from '../types';
+
+describe('Room Settings', () => {
+  test('defaults mirror the global game config', () => {
+    expect(DEFAULT_ROOM_SETTINGS).toEqual({
+      arenaWidth: GAME_CONFIG.ARENA_WIDTH,
+      arenaHeight: GAME_CONFIG.ARENA_HEIGHT,
+      dotCount: GAME_CONFIG.DOT_COUNT,
+      maxPlayers: GAME_CONFIG.MAX_PLAYERS_PER_ROOM,
+      eliminationRatio: GAME_CONFIG.ELIMINATION_SIZE_RATIO,
+      killGrowthRatio: GAME_CONFIG.KILL_GROWTH_RATIO,
+      bounceBoost: GAME_CONFIG.WALL_BOUNCE_BOOST
+    });
+  });
+
+  test('no update keeps the current settings', () => {
+    expect(validateRoomSettings(undefined)).toEqual({ success: true, settings: DEFAULT_ROOM_SETTINGS });
+  });
+
+  test('applies a partial update on top of the current settings', () => {
+    const current = { ...DEFAULT_ROOM_SETTINGS, dotCount: 10 };
+
+    const result = validateRoomSettings({ maxPlayers: 6, eliminationRatio: 1.5 }, current);
+
+    expect(result.success).toBe(true);
+    expect(result.settings).toEqual({ ...current, maxPlayers: 6, eliminationRatio: 1.5 });
+  });
+
+  test.each([
+    [{ arenaWidth: 100 }, 'arenaWidth must be between 400 and 2000'],
+    [{ maxPlayers: 3.5 }, 'maxPlayers must be a whole number'],
+    [{ bounceBoost: '0.5' }, 'bounceBoost must be a number'],
+    [{ dotCount: Infinity }, 'dotCount must be a number'],
+    [{ gravity: 9.8 }, 'Unknown room setting: gravity'],
+    ['fast', 'Invalid room settings'],
+  ])('rejects %p', (update, error) => {
+    expect(validateRoomSettings(update)).toEqual({ success: false, error });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for server utility functions
+ */
+
+import {
+  generateRoomCode,
+  generateUniqueRoomCode,
+  hashPassword,
+  verifyPassword,
+} from '../utils';
+import { GAME_CONFIG } from '../types';
+
+describe('Server Utils', () => {
+  describe('Room Codes', () => {
+    test('generateRoomCode uses the configured length and alphabet', () => {
+      const code = generateRoomCode();
+      expect(code).toHaveLength(GAME_CONFIG.ROOM_CODE_LENGTH);
+      expect(code.split('').every(c => GAME_CONFIG.ROOM_CODE_ALPHABET.includes(c))).toBe(true);
+    });
+
+    test('generateRoomCode respects a custom alphabet', () => {
+      const code = generateRoomCode(6, 'AB');
+      expect(code).toMatch(/^[AB]{6}$/);
+    });
+
+    test('generateUniqueRoomCode never returns a taken code', () => {
+      const taken = new Set<string>();
+      for (let i = 0; i < 50; i++) {
+        taken.add(generateUniqueRoomCode(code => taken.has(code), 2, 'ABCDEFGH'));
+      }
+      expect(taken.size).toBe(50);
+    });
+
+    test('generateUniqueRoomCode grows the code once the code space is exhausted', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const taken = new Set(['A', 'B']);
+
+      const code = generateUniqueRoomCode(c => taken.has(c), 1, 'AB', 10);
+
+      expect(code).toHaveLength(2);
+      jest.restoreAllMocks();
+    });
+
+    test('generateUniqueRoomCode gives up past the maximum code length', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(() => generateUniqueRoomCode(() => true, 1, 'AB', 1)).toThrow(/No free room code/);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('Room Passwords', () => {
+    test('verifyPassword accepts the original password', async () => {
+      const stored = await hashPassword('hunter2');
+      expect(await verifyPassword('hunter2', stored)).toBe(true);
+    });
+
+    test('verifyPassword rejects a wrong password', async () => {
+      const stored = await hashPassword('hunter2');
+      expect(await verifyPassword('hunter3', stored)).toBe(false);
+    });
+
+    test('hashPassword salts each hash', async () => {
+      expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+    });
+
+    test('verifyPassword rejects malformed hashes', async () => {
+      expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+    });
+  });
+});
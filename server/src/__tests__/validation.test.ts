@@ -0,0 +1,99 @@
+/**
+ * Tests for inbound message validation
+ */
+
+import { sanitizeDirection, sanitizePlayerName, validateMessage } from '../validation';
+import { ErrorCode } from '../protocol';
+import { encodePlayerInput } from '../codec';
+import { GAME_CONFIG } from '../types';
+import { generateUniqueRoomCode } from '../utils';
+
+describe('sanitizePlayerName', () => {
+  test('trims and collapses whitespace', () => {
+    expect(sanitizePlayerName('  Alice   the  Great ').value).toBe('Alice the Great');
+  });
+
+  test('keeps letters from any alphabet', () => {
+    expect(sanitizePlayerName('Zoë 李').value).toBe('Zoë 李');
+  });
+
+  test('strips invisible characters', () => {
+    expect(sanitizePlayerName('Bo\u200bb\u0007').value).toBe('Bob');
+  });
+
+  test('rejects empty, overlong and oddly punctuated names', () => {
+    expect(sanitizePlayerName('   ').code).toBe(ErrorCode.INVALID_NAME);
+    expect(sanitizePlayerName('x'.repeat(GAME_CONFIG.PLAYER_NAME_MAX_LENGTH + 1)).code).toBe(ErrorCode.INVALID_NAME);
+    expect(sanitizePlayerName('<script>').code).toBe(ErrorCode.INVALID_NAME);
+    expect(sanitizePlayerName(42).code).toBe(ErrorCode.INVALID_NAME);
+  });
+});
+
+describe('sanitizeDirection', () => {
+  test('normalises directions longer than 1', () => {
+    const direction = sanitizeDirection({ x: 600, y: 800 });
+
+    expect(direction.x).toBeCloseTo(0.6);
+    expect(direction.y).toBeCloseTo(0.8);
+  });
+
+  test('leaves shorter directions alone', () => {
+    expect(sanitizeDirection({ x: 0.3, y: 0 })).toEqual({ x: 0.3, y: 0 });
+  });
+
+  test('treats non-finite directions as no input', () => {
+    expect(sanitizeDirection({ x: NaN, y: 1 })).toEqual({ x: 0, y: 0 });
+    expect(sanitizeDirection({ x: Infinity, y: 0 })).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('validateMessage', () => {
+  test('returns a sanitised payload without unknown fields', () => {
+    const result = validateMessage('CREATE_ROOM', [{ playerName: ' Alice ', isPrivate: true, isAdmin: true }]);
+
+    expect(result).toEqual({ success: true, value: { playerName: 'Alice', isPrivate: true } });
+  });
+
+  test('reports which rule failed with a typed code', () => {
+    expect(validateMessage('CREATE_ROOM', [{ playerName: 'Alice', password: 'x'.repeat(100) }]).code)
+      .toBe(ErrorCode.INVALID_PASSWORD);
+    expect(validateMessage('CREATE_ROOM', [{ playerName: 'Alice', settings: { dotCount: 10000 } }]).code)
+      .toBe(ErrorCode.INVALID_SETTINGS);
+    expect(validateMessage('JOIN_ROOM', [{ roomCode: '../1', playerName: 'Alice' }]).code)
+      .toBe(ErrorCode.ROOM_NOT_FOUND);
+    expect(validateMessage('STATE_ACK', [{ tick: -1 }]).code).toBe(ErrorCode.INVALID_PAYLOAD);
+  });
+
+  test('accepts the longer codes handed out once short ones are crowded', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    // Every code shorter than six characters is taken
+    const roomCode = generateUniqueRoomCode(code => code.length < 6);
+    jest.restoreAllMocks();
+
+    expect(roomCode).toHaveLength(6);
+    expect(validateMessage('JOIN_ROOM', [{ roomCode, playerName: 'Alice' }]))
+      .toEqual({ success: true, value: { roomCode, playerName: 'Alice' } });
+    expect(validateMessage('JOIN_ROOM', [{ roomCode: '1'.repeat(GAME_CONFIG.ROOM_CODE_MAX_LENGTH + 1), playerName: 'Alice' }]).code)
+      .toBe(ErrorCode.ROOM_NOT_FOUND);
+  });
+
+  test('rejects unknown messages and extra arguments', () => {
+    expect(validateMessage('DROP_TABLES', [{}]).success).toBe(false);
+    expect(validateMessage('toString', []).success).toBe(false);
+    expect(validateMessage('START_GAME', [{}, {}]).success).toBe(false);
+  });
+
+  test('messages without a payload accept nothing or an empty object', () => {
+    expect(validateMessage('START_GAME', []).success).toBe(true);
+    expect(validateMessage('START_GAME', [{}]).success).toBe(true);
+    expect(validateMessage('START_GAME', ['go']).success).toBe(false);
+  });
+
+  test('player input must be a small binary message', () => {
+    const input = encodePlayerInput({ direction: { x: 1, y: 0 }, timestamp: 1, sequenceNumber: 1 });
+
+    expect(validateMessage('PLAYER_INPUT', [Buffer.from(input)]).success).toBe(true);
+    expect(validateMessage('PLAYER_INPUT', [{ direction: { x: 1000, y: 0 } }]).success).toBe(false);
+    expect(validateMessage('PLAYER_INPUT', [new Uint8Array(1024)]).success).toBe(false);
+  });
+});
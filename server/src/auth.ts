@@ -0,0 +1,86 @@
+/**
+ * Signed guest identities
+ * The server issues and verifies its own tokens, there is no external identity provider
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { GAME_CONFIG } from './types';
+import { GuestAuthResponse } from './protocol';
+
+export interface GuestIdentity {
+  playerId: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Payload field names are kept short, the token travels with every connection
+interface TokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+const PLAYER_ID_PATTERN = /^guest_[0-9a-f]{32}$/;
+
+const sign = (secret: Buffer, payload: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+/**
+ * Guest Auth
+ * Issues HMAC signed guest tokens and checks them. Set AUTH_SECRET so tokens
+ * (and so player identities) stay valid across server restarts.
+ */
+export class GuestAuth {
+  private secret: Buffer;
+  private tokenTtlMs: number;
+
+  constructor(secret: string | undefined = process.env.AUTH_SECRET, tokenTtlMs: number = GAME_CONFIG.GUEST_TOKEN_TTL_MS) {
+    if (!secret) {
+      console.warn('⚠️ AUTH_SECRET is not set, guest identities will not survive a server restart');
+    }
+
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+    this.tokenTtlMs = tokenTtlMs;
+  }
+
+  /**
+   * Issue a token for a new guest, or a fresh one for an existing guest presenting a valid token
+   */
+  issueGuestToken(existingToken?: unknown, now: number = Date.now()): GuestAuthResponse {
+    const playerId = this.verifyToken(existingToken, now)?.playerId ?? `guest_${randomBytes(16).toString('hex')}`;
+    const payload: TokenPayload = { sub: playerId, iat: now, exp: now + this.tokenTtlMs };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      token: `${encodedPayload}.${sign(this.secret, encodedPayload)}`,
+      playerId,
+      expiresAt: payload.exp
+    };
+  }
+
+  /**
+   * Check a token's signature and expiry. Returns null for anything that is not a valid token.
+   */
+  verifyToken(token: unknown, now: number = Date.now()): GuestIdentity | null {
+    if (typeof token !== 'string' || token.length > 512) return null;
+
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(this.secret, encodedPayload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    let payload: Partial<TokenPayload>;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    if (typeof payload.sub !== 'string' || !PLAYER_ID_PATTERN.test(payload.sub)) return null;
+    if (typeof payload.iat !== 'number' || typeof payload.exp !== 'number' || payload.exp <= now) return null;
+
+    return { playerId: payload.sub, issuedAt: payload.iat, expiresAt: payload.exp };
+  }
+}
@@ -0,0 +1,502 @@
+/**
+ * Compact binary wire format for the hot-path messages (PLAYER_INPUT and GAME_STATE).
+ * Shared by the server and the client, so it only depends on types.
+ *
+ * Every message starts with a header of [codec version, message type].
+ * Numbers are varints (zigzag for signed values), positions use 0.01px steps, angles are 16 bit.
+ * Player and dot IDs are interned per connection: the first time an ID is sent it is written in full
+ * and gets the next index, afterwards only its index is sent. Removing a player or dot frees its index
+ * for the next new ID, as does releasing IDs the client can no longer be sent against (see
+ * GameStateWriter.release). Keyframes reset the table on both ends.
+ */
+
+import type { Dot, GameStateDelta, NetPlayerDelta, Vector2 } from './types';
+
+export const CODEC_VERSION = 1;
+
+export enum MessageType {
+  PLAYER_INPUT = 1,
+  GAME_STATE = 2,
+}
+
+export interface PlayerInputMessage {
+  direction: Vector2;
+  timestamp: number;
+  sequenceNumber: number;
+}
+
+const TAU = Math.PI * 2;
+const POSITION_SCALE = 100; // Matches the 2 decimal rounding of state snapshots
+const SPIN_SCALE = 1000;
+const TIME_SCALE = 1000;
+const ANGLE_STEPS = 65536;
+
+// Order of the optional player fields in the presence mask
+const PLAYER_FIELDS = [
+  'name', 'position', 'velocity', 'rotation', 'spinSpeed', 'size', 'maxSpeed',
+  'score', 'isAlive', 'isHost', 'isConnected', 'isBot', 'lastProcessedInput'
+] as const;
+const BOOLEAN_FIELDS = ['isAlive', 'isHost', 'isConnected', 'isBot'] as const;
+
+type PlayerField = typeof PLAYER_FIELDS[number];
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private length = 0;
+
+  writeUint8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeUint16(value: number): void {
+    this.writeUint8(value >> 8);
+    this.writeUint8(value);
+  }
+
+  /** Unsigned LEB128, safe up to Number.MAX_SAFE_INTEGER (timestamps need more than 32 bits) */
+  writeVarUint(value: number): void {
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      this.writeUint8((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.writeUint8(remaining);
+  }
+
+  writeVarInt(value: number): void {
+    const rounded = Math.round(value);
+    this.writeVarUint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+  }
+
+  writeString(value: string): void {
+    const bytes = encodeUtf8(value);
+    this.writeVarUint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + extra));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  readUint8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new RangeError('Unexpected end of message');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readUint16(): number {
+    return (this.readUint8() << 8) | this.readUint8();
+  }
+
+  readVarUint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.readUint8();
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 0x80;
+      if (multiplier > Number.MAX_SAFE_INTEGER) {
+        throw new RangeError('Varint too long');
+      }
+    }
+  }
+
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readString(): string {
+    const length = this.readVarUint();
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError('Unexpected end of message');
+    }
+    const value = decodeUtf8(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+const encodeUtf8 = (value: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  let result = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    result += String.fromCodePoint(code);
+  }
+  return result;
+};
+
+const toBytes = (data: ArrayBuffer | ArrayBufferView): Uint8Array =>
+  data instanceof ArrayBuffer
+    ? new Uint8Array(data)
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+const writeHeader = (writer: ByteWriter, type: MessageType): void => {
+  writer.writeUint8(CODEC_VERSION);
+  writer.writeUint8(type);
+};
+
+/** Returns a reader positioned after the header, or null if the header does not match */
+const readHeader = (data: ArrayBuffer | ArrayBufferView, type: MessageType): ByteReader | null => {
+  const bytes = toBytes(data);
+  if (bytes.length < 2 || bytes[0] !== CODEC_VERSION || bytes[1] !== type) return null;
+
+  const reader = new ByteReader(bytes);
+  reader.readUint8();
+  reader.readUint8();
+  return reader;
+};
+
+const encodeAngle = (angle: number): number => {
+  const wrapped = ((angle % TAU) + TAU) % TAU;
+  return Math.round((wrapped / TAU) * ANGLE_STEPS) % ANGLE_STEPS;
+};
+
+const decodeAngle = (steps: number): number => (steps / ANGLE_STEPS) * TAU;
+
+const writeVector = (writer: ByteWriter, vector: Vector2): void => {
+  writer.writeVarInt(vector.x * POSITION_SCALE);
+  writer.writeVarInt(vector.y * POSITION_SCALE);
+};
+
+const readVector = (reader: ByteReader): Vector2 => ({
+  x: reader.readVarInt() / POSITION_SCALE,
+  y: reader.readVarInt() / POSITION_SCALE
+});
+
+/**
+ * Encode a PLAYER_INPUT message. The direction is sent as a 16 bit angle and an 8 bit magnitude.
+ */
+export const encodePlayerInput = (input: PlayerInputMessage): Uint8Array => {
+  const writer = new ByteWriter();
+  writeHeader(writer, MessageType.PLAYER_INPUT);
+  writer.writeVarUint(input.sequenceNumber);
+  writer.writeVarUint(input.timestamp);
+
+  const magnitude = Math.min(1, Math.hypot(input.direction.x, input.direction.y));
+  writer.writeUint16(encodeAngle(Math.atan2(input.direction.y, input.direction.x)));
+  writer.writeUint8(Math.round(magnitude * 255));
+
+  return writer.finish();
+};
+
+/**
+ * Decode a PLAYER_INPUT message, or null if it is malformed or from another codec version
+ */
+export const decodePlayerInput = (data: ArrayBuffer | ArrayBufferView): PlayerInputMessage | null => {
+  try {
+    const reader = readHeader(data, MessageType.PLAYER_INPUT);
+    if (!reader) return null;
+
+    const sequenceNumber = reader.readVarUint();
+    const timestamp = reader.readVarUint();
+    const angle = decodeAngle(reader.readUint16());
+    const magnitude = reader.readUint8() / 255;
+
+    return {
+      sequenceNumber,
+      timestamp,
+      direction: magnitude === 0
+        ? { x: 0, y: 0 }
+        : { x: Math.cos(angle) * magnitude, y: Math.sin(angle) * magnitude }
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Encodes GAME_STATE deltas for one connection, remembering which IDs it has already sent
+ */
+export class GameStateWriter {
+  private ids = new Map<string, number>();
+  private freeIndices: number[] = []; // Indices of removed IDs, reused before new ones
+  private nextIndex: number = 0;
+  private releasedIds: string[] = []; // Freed at the start of the next message
+
+  encode(delta: GameStateDelta): Uint8Array {
+    // Keyframes start a fresh ID table
+    if (delta.baseTick === null) {
+      this.ids.clear();
+      this.freeIndices = [];
+      this.nextIndex = 0;
+      this.releasedIds = [];
+    }
+
+    const writer = new ByteWriter();
+    writeHeader(writer, MessageType.GAME_STATE);
+
+    writer.writeVarUint(delta.tick);
+    writer.writeVarUint(delta.baseTick === null ? 0 : delta.baseTick + 1);
+    writer.writeVarUint(delta.timeElapsed * TIME_SCALE);
+
+    writer.writeUint8(delta.arena ? 1 : 0);
+    if (delta.arena) {
+      writer.writeVarUint(delta.arena.width);
+      writer.writeVarUint(delta.arena.height);
+    }
+
+    // Released before anything else is read, so an ID sent again later is interned afresh
+    const released = this.releasedIds.filter(id => this.ids.has(id));
+    this.releasedIds = [];
+    writer.writeVarUint(released.length);
+    released.forEach(id => {
+      const index = this.ids.get(id)!;
+      writer.writeVarUint(index);
+      this.freeIndices.push(index);
+      this.ids.delete(id);
+    });
+
+    writer.writeVarUint(delta.players.length);
+    delta.players.forEach(player => this.writePlayer(writer, player));
+
+    writer.writeVarUint(delta.removedPlayers.length);
+    delta.removedPlayers.forEach(playerId => this.writeRemovedId(writer, playerId));
+
+    writer.writeVarUint(delta.dotsAdded.length);
+    delta.dotsAdded.forEach(dot => {
+      this.writeId(writer, dot.id);
+      writeVector(writer, dot.position);
+      writer.writeVarUint(dot.size * POSITION_SCALE);
+      writer.writeVarUint(dot.value * POSITION_SCALE);
+    });
+
+    writer.writeVarUint(delta.dotsRemoved.length);
+    delta.dotsRemoved.forEach(dotId => this.writeRemovedId(writer, dotId));
+
+    return writer.finish();
+  }
+
+  /**
+   * Free every interned ID not in liveIds, the IDs in the client's acknowledged state and every state sent since.
+   * Catches IDs that came and went between acknowledgements and so never showed up as a removal.
+   */
+  release(liveIds: ReadonlySet<string>): void {
+    this.releasedIds = Array.from(this.ids.keys()).filter(id => !liveIds.has(id));
+  }
+
+  private writeId(writer: ByteWriter, id: string): void {
+    const index = this.ids.get(id);
+    if (index !== undefined) {
+      writer.writeVarUint(index + 1);
+      return;
+    }
+
+    this.ids.set(id, this.freeIndices.pop() ?? this.nextIndex++);
+    writer.writeVarUint(0);
+    writer.writeString(id);
+  }
+
+  /**
+   * Write an ID that is gone for good, so the next new ID can take its index
+   */
+  private writeRemovedId(writer: ByteWriter, id: string): void {
+    this.writeId(writer, id);
+    this.freeIndices.push(this.ids.get(id)!);
+    this.ids.delete(id);
+  }
+
+  private writePlayer(writer: ByteWriter, player: NetPlayerDelta): void {
+    this.writeId(writer, player.id);
+
+    const present = PLAYER_FIELDS.filter(field => player[field] !== undefined);
+    writer.writeVarUint(present.reduce((mask, field) => mask | (1 << PLAYER_FIELDS.indexOf(field)), 0));
+
+    const booleans = BOOLEAN_FIELDS.filter(field => player[field] !== undefined);
+    if (booleans.length > 0) {
+      writer.writeUint8(BOOLEAN_FIELDS.reduce((bits, field, i) => bits | (player[field] ? 1 << i : 0), 0));
+    }
+
+    for (const field of present) {
+      this.writePlayerField(writer, field, player);
+    }
+  }
+
+  private writePlayerField(writer: ByteWriter, field: PlayerField, player: NetPlayerDelta): void {
+    switch (field) {
+      case 'name': writer.writeString(player.name!); break;
+      case 'position': writeVector(writer, player.position!); break;
+      case 'velocity': writeVector(writer, player.velocity!); break;
+      case 'rotation': writer.writeUint16(encodeAngle(player.rotation!)); break;
+      case 'spinSpeed': writer.writeVarInt(player.spinSpeed! * SPIN_SCALE); break;
+      case 'size': writer.writeVarUint(player.size! * POSITION_SCALE); break;
+      case 'maxSpeed': writer.writeVarUint(player.maxSpeed! * POSITION_SCALE); break;
+      case 'score': writer.writeVarUint(player.score! * POSITION_SCALE); break;
+      case 'lastProcessedInput': writer.writeVarUint(player.lastProcessedInput!); break;
+      default: break; // Booleans are packed into a single byte
+    }
+  }
+}
+
+/**
+ * Decodes GAME_STATE messages written by the matching GameStateWriter on the other end of the connection
+ */
+export class GameStateReader {
+  private ids: (string | undefined)[] = [];
+  private freeIndices: number[] = []; // Mirrors the writer's free list
+
+  /**
+   * Decode one message, or null if it is malformed, from another codec version or refers to an unknown ID
+   */
+  decode(data: ArrayBuffer | ArrayBufferView): GameStateDelta | null {
+    try {
+      const reader = readHeader(data, MessageType.GAME_STATE);
+      if (!reader) return null;
+
+      const tick = reader.readVarUint();
+      const encodedBase = reader.readVarUint();
+      const baseTick = encodedBase === 0 ? null : encodedBase - 1;
+      const timeElapsed = reader.readVarUint() / TIME_SCALE;
+
+      if (baseTick === null) {
+        this.reset();
+      }
+
+      const arena = reader.readUint8() === 1
+        ? { width: reader.readVarUint(), height: reader.readVarUint() }
+        : undefined;
+
+      this.readList(reader, () => this.releaseIndex(reader.readVarUint()));
+      const players = this.readList(reader, () => this.readPlayer(reader));
+      const removedPlayers = this.readList(reader, () => this.readRemovedId(reader));
+      const dotsAdded = this.readList(reader, (): Dot => ({
+        id: this.readId(reader),
+        position: readVector(reader),
+        size: reader.readVarUint() / POSITION_SCALE,
+        value: reader.readVarUint() / POSITION_SCALE
+      }));
+      const dotsRemoved = this.readList(reader, () => this.readRemovedId(reader));
+
+      return {
+        tick,
+        baseTick,
+        timeElapsed,
+        ...(arena ? { arena } : {}),
+        players,
+        removedPlayers,
+        dotsAdded,
+        dotsRemoved
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Forget interned IDs (e.g. on a new connection)
+   */
+  reset(): void {
+    this.ids = [];
+    this.freeIndices = [];
+  }
+
+  private readList<T>(reader: ByteReader, readItem: () => T): T[] {
+    const count = reader.readVarUint();
+    const items: T[] = [];
+    for (let i = 0; i < count; i++) {
+      items.push(readItem());
+    }
+    return items;
+  }
+
+  private readId(reader: ByteReader): string {
+    const index = reader.readVarUint();
+    if (index === 0) {
+      const id = reader.readString();
+      this.ids[this.freeIndices.pop() ?? this.ids.length] = id;
+      return id;
+    }
+
+    const id = this.ids[index - 1];
+    if (id === undefined) {
+      throw new RangeError(`Unknown ID index ${index - 1}`);
+    }
+    return id;
+  }
+
+  private readRemovedId(reader: ByteReader): string {
+    const id = this.readId(reader);
+    this.releaseIndex(this.ids.indexOf(id));
+    return id;
+  }
+
+  private releaseIndex(index: number): void {
+    if (this.ids[index] === undefined) {
+      throw new RangeError(`Unknown ID index ${index}`);
+    }
+    this.ids[index] = undefined;
+    this.freeIndices.push(index);
+  }
+
+  private readPlayer(reader: ByteReader): NetPlayerDelta {
+    const player: NetPlayerDelta = { id: this.readId(reader) };
+    const mask = reader.readVarUint();
+    const has = (field: PlayerField) => (mask & (1 << PLAYER_FIELDS.indexOf(field))) !== 0;
+
+    if (BOOLEAN_FIELDS.some(has)) {
+      const bits = reader.readUint8();
+      BOOLEAN_FIELDS.forEach((field, i) => {
+        if (has(field)) player[field] = (bits & (1 << i)) !== 0;
+      });
+    }
+
+    if (has('name')) player.name = reader.readString();
+    if (has('position')) player.position = readVector(reader);
+    if (has('velocity')) player.velocity = readVector(reader);
+    if (has('rotation')) player.rotation = decodeAngle(reader.readUint16());
+    if (has('spinSpeed')) player.spinSpeed = reader.readVarInt() / SPIN_SCALE;
+    if (has('size')) player.size = reader.readVarUint() / POSITION_SCALE;
+    if (has('maxSpeed')) player.maxSpeed = reader.readVarUint() / POSITION_SCALE;
+    if (has('score')) player.score = reader.readVarUint() / POSITION_SCALE;
+    if (has('lastProcessedInput')) player.lastProcessedInput = reader.readVarUint();
+
+    return player;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Spinner movement step shared by the server simulation and client prediction
+ */
+
+import { GAME_CONFIG, Vector2 } from './types';
+
+export interface MovingBody {
+  position: Vector2;
+  velocity: Vector2;
+  targetDirection: Vector2;
+  maxSpeed: number;
+}
+
+/**
+ * Advance a body by one simulation step: steer its velocity towards targetDirection * maxSpeed, damp it, then move.
+ * The steering blend is capped at 1 so a long step lands on the target velocity instead of overshooting it.
+ */
+export const stepSpinnerMovement = (body: MovingBody, deltaTime: number): void => {
+  const blend = Math.min(GAME_CONFIG.ACCELERATION * deltaTime, 1);
+
+  const velocity = {
+    x: (body.velocity.x + (body.targetDirection.x * body.maxSpeed - body.velocity.x) * blend) * GAME_CONFIG.MOVEMENT_DAMPING,
+    y: (body.velocity.y + (body.targetDirection.y * body.maxSpeed - body.velocity.y) * blend) * GAME_CONFIG.MOVEMENT_DAMPING
+  };
+
+  body.velocity = velocity;
+  body.position = {
+    x: body.position.x + velocity.x * deltaTime,
+    y: body.position.y + velocity.y * deltaTime
+  };
+};
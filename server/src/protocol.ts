@@ -0,0 +1,91 @@
+/**
+ * Protocol version and feature negotiation, shared by the server and the client.
+ * Bump PROTOCOL_VERSION whenever a message shape or the binary codec changes in a way older peers cannot read.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+/** Oldest client protocol the server still talks to */
+export const MIN_PROTOCOL_VERSION = 1;
+
+export enum ProtocolFeature {
+  BINARY_CODEC = 'binary-codec',
+  DELTA_STATE = 'delta-state',
+  CLOCK_SYNC = 'clock-sync',
+}
+
+/** Machine-readable reason sent with every ERROR */
+export enum ErrorCode {
+  PROTOCOL_MISMATCH = 'PROTOCOL_MISMATCH',
+  INVALID_PAYLOAD = 'INVALID_PAYLOAD',
+  INVALID_NAME = 'INVALID_NAME',
+  INVALID_PASSWORD = 'INVALID_PASSWORD',
+  INVALID_SETTINGS = 'INVALID_SETTINGS',
+  NOT_IN_ROOM = 'NOT_IN_ROOM',
+  ALREADY_IN_ROOM = 'ALREADY_IN_ROOM',
+  ROOM_NOT_FOUND = 'ROOM_NOT_FOUND',
+  ACCESS_DENIED = 'ACCESS_DENIED',
+  ACTION_REJECTED = 'ACTION_REJECTED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  KICKED = 'KICKED',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+}
+
+/** ERROR payload */
+export interface ServerError {
+  message: string;
+  code: ErrorCode;
+}
+
+/** POST /auth/guest response, the token goes in the socket.io handshake `auth` */
+export interface GuestAuthResponse {
+  token: string;
+  playerId: string;
+  expiresAt: number;
+}
+
+/** Features a client cannot play without */
+export const REQUIRED_FEATURES: ProtocolFeature[] = [ProtocolFeature.BINARY_CODEC];
+
+/** Everything this build supports */
+export const SUPPORTED_FEATURES: ProtocolFeature[] = Object.values(ProtocolFeature);
+
+/** HELLO payload, the first message a client sends */
+export interface ClientHello {
+  protocolVersion: number;
+  features: string[];
+}
+
+/** HELLO_ACK payload */
+export interface ServerHello {
+  protocolVersion: number;
+  features: ProtocolFeature[];
+}
+
+/**
+ * Check a client's HELLO against what this build supports.
+ * On success returns the features both sides will use.
+ */
+export const negotiateProtocol = (hello: unknown): { success: boolean; features?: ProtocolFeature[]; error?: string } => {
+  const { protocolVersion, features } = (hello ?? {}) as Partial<ClientHello>;
+
+  if (typeof protocolVersion !== 'number' || !Array.isArray(features)) {
+    return { success: false, error: 'Malformed handshake' };
+  }
+
+  if (protocolVersion < MIN_PROTOCOL_VERSION) {
+    return { success: false, error: `Please update spin.io to play online (client protocol ${protocolVersion}, server requires ${MIN_PROTOCOL_VERSION} or newer)` };
+  }
+
+  if (protocolVersion > PROTOCOL_VERSION) {
+    return { success: false, error: `The server is running an older version (protocol ${PROTOCOL_VERSION}), please try again later` };
+  }
+
+  const shared = SUPPORTED_FEATURES.filter(feature => features.includes(feature));
+  const missing = REQUIRED_FEATURES.filter(feature => !shared.includes(feature));
+  if (missing.length > 0) {
+    return { success: false, error: `Please update spin.io to play online (missing ${missing.join(', ')})` };
+  }
+
+  return { success: true, features: shared };
+};
@@ -0,0 +1,75 @@
+/**
+ * Defaults and validation for per-room game rules
+ */
+
+import { GAME_CONFIG, RoomSettings } from './types';
+
+/** Rules used when the host does not change anything */
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  arenaWidth: GAME_CONFIG.ARENA_WIDTH,
+  arenaHeight: GAME_CONFIG.ARENA_HEIGHT,
+  dotCount: GAME_CONFIG.DOT_COUNT,
+  maxPlayers: GAME_CONFIG.MAX_PLAYERS_PER_ROOM,
+  eliminationRatio: GAME_CONFIG.ELIMINATION_SIZE_RATIO,
+  killGrowthRatio: GAME_CONFIG.KILL_GROWTH_RATIO,
+  bounceBoost: GAME_CONFIG.WALL_BOUNCE_BOOST,
+};
+
+interface SettingLimit {
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+/** Allowed range for every setting */
+export const ROOM_SETTINGS_LIMITS: Record<keyof RoomSettings, SettingLimit> = {
+  arenaWidth: { min: 400, max: 2000, integer: true },
+  arenaHeight: { min: 300, max: 2000, integer: true },
+  dotCount: { min: 0, max: 200, integer: true },
+  maxPlayers: { min: 2, max: 8, integer: true },
+  eliminationRatio: { min: 1.05, max: 3, integer: false },
+  killGrowthRatio: { min: 0, max: 2, integer: false },
+  bounceBoost: { min: 0, max: 1.5, integer: false },
+};
+
+/**
+ * Apply a partial settings update on top of the current settings.
+ * Rejects unknown keys, non-numbers and values outside ROOM_SETTINGS_LIMITS.
+ */
+export const validateRoomSettings = (
+  update: unknown,
+  current: RoomSettings = DEFAULT_ROOM_SETTINGS
+): { success: boolean; settings?: RoomSettings; error?: string } => {
+  if (update === undefined || update === null) {
+    return { success: true, settings: { ...current } };
+  }
+
+  if (typeof update !== 'object' || Array.isArray(update)) {
+    return { success: false, error: 'Invalid room settings' };
+  }
+
+  const settings = { ...current };
+
+  for (const [key, value] of Object.entries(update)) {
+    const limit = ROOM_SETTINGS_LIMITS[key as keyof RoomSettings];
+    if (!limit) {
+      return { success: false, error: `Unknown room setting: ${key}` };
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { success: false, error: `${key} must be a number` };
+    }
+
+    if (limit.integer && !Number.isInteger(value)) {
+      return { success: false, error: `${key} must be a whole number` };
+    }
+
+    if (value < limit.min || value > limit.max) {
+      return { success: false, error: `${key} must be between ${limit.min} and ${limit.max}` };
+    }
+
+    settings[key as keyof RoomSettings] = value;
+  }
+
+  return { success: true, settings };
+};
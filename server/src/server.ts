@@ -2,10 +2,23 @@
  * Basic multiplayer server for spin.io
  */
 
-import express from 'express';
+import express, { Request, RequestHandler, Response } from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import { GameRoom } from './GameRoom';
+import { SessionManager } from './SessionManager';
+import { RoomReaper } from './RoomReaper';
+import { Matchmaker } from './Matchmaker';
+import { BotDifficulty, GAME_CONFIG, GamePhase, MatchRecord, RoomSettings, RoomSummary } from './types';
+import { validateRoomSettings } from './roomSettings';
+import { decodePlayerInput } from './codec';
+import { ErrorCode, PROTOCOL_VERSION, ProtocolFeature, ServerError, negotiateProtocol } from './protocol';
+import { validateMessage } from './validation';
+import { IP_RATE_LIMITS, RateLimiter, SOCKET_RATE_LIMITS, VIOLATION_LIMIT } from './RateLimiter';
+import { AntiCheat, AntiCheatAction } from './AntiCheat';
+import { GuestAuth } from './auth';
+import { JsonFileMatchRepository } from './MatchRepository';
+import { clamp, generateUniqueRoomCode, hashPassword } from './utils';
 
 const app = express();
 const server = createServer(app);
@@ -13,145 +26,824 @@ const io = new Server(server, {
   cors: {
     origin: "*",
     methods: ["GET", "POST"]
-  }
+  },
+  // Oversized messages close the connection before they are parsed
+  maxHttpBufferSize: GAME_CONFIG.MAX_MESSAGE_BYTES
 });
 
 // In-memory storage for rooms
 const rooms = new Map<string, GameRoom>();
 const playerRooms = new Map<string, string>(); // playerId -> roomCode
+const sessions = new SessionManager();
+const matchRepository = new JsonFileMatchRepository(process.env.MATCH_DB_PATH ?? 'data/matches.json');
+const roomReaper = new RoomReaper(
+  rooms,
+  playerRooms,
+  io,
+  (playerId) => forgetPlayer(playerId),
+  (roomCode) => matchmaker.cancelCountdown(roomCode)
+);
+const matchmaker = new Matchmaker(io, {
+  getOpenRooms: () => Array.from(rooms.values())
+    .filter(gameRoom => !gameRoom.isPrivate && !gameRoom.isEmpty && gameRoom.phase === GamePhase.LOBBY),
+  createRoom: () => {
+    const gameRoom = new GameRoom('Quick Play', io, {
+      code: generateUniqueRoomCode(code => rooms.has(code)),
+      isMatchmade: true,
+      onMatchComplete: recordMatch
+    });
+    rooms.set(gameRoom.code, gameRoom);
+    return gameRoom;
+  },
+  placePlayer: (socket, gameRoom, playerName) => {
+    // Another tab signed in as the same player may have joined a room while this one was queued
+    if (playerRooms.has(getPlayerId(socket))) return false;
+    return addPlayerToRoom(socket, gameRoom, playerName).success;
+  },
+  removeRoom: (gameRoom) => {
+    gameRoom.destroy();
+    rooms.delete(gameRoom.code);
+  },
+  hasRoom: (roomCode) => rooms.has(roomCode)
+});
+
+// Message budgets per socket and per IP address
+const socketLimiter = new RateLimiter(SOCKET_RATE_LIMITS);
+const ipLimiter = new RateLimiter(IP_RATE_LIMITS);
+const violationLimiter = new RateLimiter({ violation: VIOLATION_LIMIT });
+const rateLimitStats = { warnings: 0, disconnects: 0, rejectedConnections: 0 };
+const antiCheat = new AntiCheat();
+const guestAuth = new GuestAuth();
+
+// Socket.io room for clients watching the public room list
+const ROOM_BROWSER_CHANNEL = 'room-browser';
+
+/**
+ * The signed identity a socket acts for, set when its handshake is authenticated
+ */
+const getPlayerId = (socket: Socket): string => socket.data.playerId;
+
+/**
+ * Save a finished match to the match history and its players' profiles
+ */
+const recordMatch = (match: MatchRecord): void => {
+  matchRepository.recordMatch(match)
+    .then(() => console.log(`📝 Recorded match ${match.id} from room ${match.roomCode}`))
+    .catch(error => console.error(`❌ Failed to record match ${match.id}:`, error));
+};
+
+/**
+ * Run an async REST handler, answering 500 if it fails instead of leaving the request hanging
+ */
+const asyncRoute = (handler: (req: Request, res: Response) => Promise<void>): RequestHandler => (req, res) => {
+  handler(req, res).catch(error => {
+    console.error(`❌ ${req.method} ${req.path} failed:`, error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: 'Something went wrong, please try again' });
+    }
+  });
+};
+
+/**
+ * Tell a client why its request failed
+ */
+const sendError = (socket: Socket, code: ErrorCode, message: string): void => {
+  socket.emit('ERROR', { message, code });
+};
+
+/**
+ * Reject a malformed message, disconnecting sockets that keep sending them
+ */
+const rejectInvalidMessage = (socket: Socket, code: ErrorCode, message: string): void => {
+  socket.data.invalidMessages = (socket.data.invalidMessages ?? 0) + 1;
+  sendError(socket, code, message);
+
+  if (socket.data.invalidMessages >= GAME_CONFIG.MAX_INVALID_MESSAGES) {
+    console.log(`🚫 Disconnecting ${socket.id} after ${socket.data.invalidMessages} invalid messages`);
+    socket.disconnect(true);
+  }
+};
+
+/**
+ * Drop a message that went over budget. Warns the client, then disconnects it if it keeps flooding.
+ */
+const rejectRateLimited = (socket: Socket, event: string): void => {
+  if (!violationLimiter.consume(socket.id, 'violation')) {
+    console.log(`🚫 Disconnecting ${socket.id} (${socket.handshake.address}) for flooding ${event}`);
+    rateLimitStats.disconnects++;
+    socket.disconnect(true);
+    return;
+  }
+
+  const now = Date.now();
+  if (now - (socket.data.lastRateLimitWarning ?? 0) >= GAME_CONFIG.RATE_LIMIT_WARNING_INTERVAL_MS) {
+    socket.data.lastRateLimitWarning = now;
+    rateLimitStats.warnings++;
+    sendError(socket, ErrorCode.RATE_LIMITED, 'Too many requests, please slow down');
+  }
+};
+
+/**
+ * Whether a socket negotiated a protocol feature in its handshake
+ */
+const hasFeature = (socket: Socket, feature: ProtocolFeature): boolean =>
+  (socket.data.features as ProtocolFeature[] | undefined)?.includes(feature) ?? false;
+
+/**
+ * Drop the session and anti-cheat state of a player who has left their room for good
+ */
+const forgetPlayer = (playerId: string): void => {
+  sessions.removeSession(playerId);
+  antiCheat.removePlayer(playerId);
+};
+
+/**
+ * Remove a player from their room for good and clean up the room if it is empty
+ */
+const removePlayerFromRoom = (playerId: string, roomCode: string): void => {
+  const gameRoom = rooms.get(roomCode);
+  if (gameRoom) {
+    gameRoom.removePlayer(playerId);
+    afterPlayerRemoved(roomCode, gameRoom);
+  }
+
+  playerRooms.delete(playerId);
+  forgetPlayer(playerId);
+  broadcastRoomList();
+};
+
+/**
+ * Give up a slot still held for a player after a dropped connection, e.g. when they reloaded and are starting over
+ */
+const releaseHeldSlot = (playerId: string): void => {
+  const roomCode = playerRooms.get(playerId);
+  if (roomCode && sessions.getSessionForPlayer(playerId)?.disconnectedAt) {
+    removePlayerFromRoom(playerId, roomCode);
+  }
+};
+
+/**
+ * Throw a player out of their room and off the server
+ */
+const kickPlayer = (socket: Socket, playerId: string, roomCode: string, reason: string): void => {
+  console.log(`👢 Kicking ${playerId} from room ${roomCode}: ${reason}`);
+  sendError(socket, ErrorCode.KICKED, 'You were removed from the match for suspicious activity');
+  socket.leave(roomCode);
+  removePlayerFromRoom(playerId, roomCode);
+  socket.disconnect(true);
+};
+
+/**
+ * Add a socket to an existing room as a new player and tell everyone about it
+ */
+const addPlayerToRoom = (
+  socket: Socket,
+  gameRoom: GameRoom,
+  playerName: string
+): { success: boolean; error?: string } => {
+  const playerId = getPlayerId(socket);
+  const result = gameRoom.addPlayer(socket, playerName, playerId);
+  if (!result.success) {
+    return result;
+  }
+
+  matchmaker.dequeue(socket.id);
+  playerRooms.set(playerId, gameRoom.code);
+  
+  socket.emit('ROOM_JOINED', { 
+    roomCode: gameRoom.code, 
+    playerId,
+    sessionToken: sessions.createSession(playerId, gameRoom.code, socket.id),
+    players: gameRoom.players
+  });
+  
+  // Notify other players
+  socket.to(gameRoom.code).emit('PLAYER_JOINED', { 
+    player: gameRoom.getPlayer(playerId)
+  });
+  
+  gameRoom.broadcastRoomState();
+  broadcastRoomList();
+
+  return result;
+};
+
+/**
+ * Add a socket to a match in progress as a spectator
+ */
+const addSpectatorToRoom = (
+  socket: Socket,
+  gameRoom: GameRoom,
+  spectatorName: string
+): { success: boolean; error?: string } => {
+  const playerId = getPlayerId(socket);
+  const result = gameRoom.addSpectator(socket, spectatorName, playerId);
+  if (!result.success) {
+    return result;
+  }
+
+  matchmaker.dequeue(socket.id);
+  playerRooms.set(playerId, gameRoom.code);
+
+  socket.emit('SPECTATING', {
+    roomCode: gameRoom.code,
+    playerId,
+    // Spectators can resume too, and keep the session when they are promoted to players
+    sessionToken: sessions.createSession(playerId, gameRoom.code, socket.id),
+    players: gameRoom.players
+  });
+
+  gameRoom.broadcastRoomState();
+  broadcastRoomList();
+
+  return result;
+};
+
+/**
+ * Re-check a room after a player has gone: update its matchmaking countdown and destroy it once empty
+ */
+const afterPlayerRemoved = (roomCode: string, gameRoom: GameRoom): void => {
+  matchmaker.updateCountdown(gameRoom);
+
+  if (gameRoom.isEmpty) {
+    matchmaker.cancelCountdown(roomCode);
+    gameRoom.destroy();
+    rooms.delete(roomCode);
+    console.log(`Empty room ${roomCode} cleaned up`);
+  }
+};
+
+/**
+ * List every public room for the room browser
+ */
+const listPublicRooms = (): RoomSummary[] => {
+  const now = Date.now();
+  return Array.from(rooms.values())
+    .filter(gameRoom => !gameRoom.isPrivate && !gameRoom.isEmpty)
+    .map(gameRoom => gameRoom.getSummary(now));
+};
+
+/**
+ * Push the current room list to everyone watching the room browser
+ */
+const broadcastRoomList = (): void => {
+  if (!io.sockets.adapter.rooms.get(ROOM_BROWSER_CHANNEL)?.size) return;
+  io.to(ROOM_BROWSER_CHANNEL).emit('ROOM_LIST', { rooms: listPublicRooms() });
+};
 
 // Basic health check endpoint
 app.get('/health', (req, res) => {
+  const loops = Array.from(rooms.values()).filter(room => room.isPlaying).map(room => room.loopMetrics);
+
   res.json({ 
     status: 'ok', 
     rooms: rooms.size,
+    gameLoop: {
+      averageTickMs: loops.reduce((total, loop) => total + loop.averageTickMs, 0) / (loops.length || 1),
+      maxTickMs: Math.max(0, ...loops.map(loop => loop.maxTickMs)),
+      overruns: loops.reduce((total, loop) => total + loop.overruns, 0),
+      droppedTicks: loops.reduce((total, loop) => total + loop.droppedTicks, 0)
+    },
+    rateLimits: {
+      ...rateLimitStats,
+      socket: socketLimiter.getMetrics(),
+      ip: ipLimiter.getMetrics()
+    },
+    antiCheat: antiCheat.getMetrics(),
     timestamp: new Date().toISOString()
   });
 });
 
+// Guest sign in: a new identity, or a fresh token for the identity in a still valid token
+app.post('/auth/guest', express.json({ limit: '1kb' }), (req, res) => {
+  if (!ipLimiter.consume(req.ip ?? 'unknown', 'AUTH_GUEST')) {
+    res.status(429).json({ message: 'Too many requests, please slow down', code: ErrorCode.RATE_LIMITED });
+    return;
+  }
+
+  res.json(guestAuth.issueGuestToken(req.body?.token));
+});
+
+// Public room browser
+app.get('/rooms', (req, res) => {
+  res.json({
+    rooms: listPublicRooms(),
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Player profile with lifetime totals
+app.get('/players/:id', asyncRoute(async (req, res) => {
+  const profile = await matchRepository.getPlayerProfile(req.params.id);
+  if (!profile) {
+    res.status(404).json({ message: 'Player not found' });
+    return;
+  }
+
+  res.json(profile);
+}));
+
+// A player's match history, most recent first. Page back with ?before=<endedAt of the last match>
+app.get('/players/:id/matches', asyncRoute(async (req, res) => {
+  const limit = clamp(Number(req.query.limit) || GAME_CONFIG.MATCH_HISTORY_PAGE_SIZE, 1, GAME_CONFIG.MATCH_HISTORY_MAX_PAGE_SIZE);
+  const before = Number(req.query.before) || undefined;
+
+  res.json({ matches: await matchRepository.getPlayerMatches(req.params.id, { limit: Math.floor(limit), before }) });
+}));
+
+// A single finished match
+app.get('/matches/:id', asyncRoute(async (req, res) => {
+  const match = await matchRepository.getMatch(req.params.id);
+  if (!match) {
+    res.status(404).json({ message: 'Match not found' });
+    return;
+  }
+
+  res.json(match);
+}));
+
+// Refuse new connections from addresses that reconnect too often
+io.use((socket, next) => {
+  if (ipLimiter.consume(socket.handshake.address, 'connection')) {
+    next();
+    return;
+  }
+
+  console.log(`🚫 Refused connection from ${socket.handshake.address}: too many connections`);
+  rateLimitStats.rejectedConnections++;
+  next(new Error('Too many connections, please try again later'));
+});
+
+// Only signed guests may connect, their token carries the player identity
+io.use((socket, next) => {
+  const identity = guestAuth.verifyToken(socket.handshake.auth?.token);
+  if (!identity) {
+    const error = new Error('Sign in required') as Error & { data?: ServerError };
+    error.data = { message: 'Sign in required', code: ErrorCode.UNAUTHORIZED };
+    next(error);
+    return;
+  }
+
+  socket.data.playerId = identity.playerId;
+  next();
+});
+
 // Socket.io connection handling
 io.on('connection', (socket) => {
-  console.log(`Player connected: ${socket.id}`);
+  console.log(`Player connected: ${getPlayerId(socket)} on socket ${socket.id}`);
 
   // Test connection
   socket.emit('connected', { 
     message: 'Connected to spin.io server',
-    playerId: socket.id
+    playerId: getPlayerId(socket)
+  });
+
+  // Every message spends from the socket's budget and its address's budget
+  socket.use(([event], next) => {
+    if (socketLimiter.consume(socket.id, event) && ipLimiter.consume(socket.handshake.address, event)) {
+      next();
+      return;
+    }
+    rejectRateLimited(socket, event);
+  });
+
+  // Nothing but the handshake is accepted until the client has said which protocol it speaks
+  socket.use(([event], next) => {
+    if (event === 'HELLO' || socket.data.features) {
+      next();
+      return;
+    }
+    rejectInvalidMessage(socket, ErrorCode.PROTOCOL_MISMATCH, 'Please update spin.io to play online');
+  });
+
+  // Validate and sanitise every payload, handlers only ever see the cleaned up value
+  socket.use((packet, next) => {
+    const [event, ...args] = packet;
+    const result = validateMessage(event, args);
+    if (!result.success) {
+      rejectInvalidMessage(socket, result.code!, result.error!);
+      return;
+    }
+
+    packet.splice(1, packet.length - 1, result.value);
+    next();
+  });
+
+  socket.on('HELLO', (hello: unknown) => {
+    const result = negotiateProtocol(hello);
+    if (!result.success) {
+      console.log(`🚫 Rejected handshake from ${socket.id}: ${result.error}`);
+      sendError(socket, ErrorCode.PROTOCOL_MISMATCH, result.error!);
+      socket.disconnect(true);
+      return;
+    }
+
+    socket.data.features = result.features;
+    socket.emit('HELLO_ACK', { protocolVersion: PROTOCOL_VERSION, features: result.features });
   });
 
   // Create room
-  socket.on('CREATE_ROOM', (data: { playerName: string }) => {
-    const gameRoom = new GameRoom(data.playerName, io);
-    const result = gameRoom.addPlayer(socket, data.playerName);
+  socket.on('CREATE_ROOM', async (data: { playerName: string; isPrivate?: boolean; password?: string; settings?: Partial<RoomSettings> }) => {
+    const playerId = getPlayerId(socket);
+    releaseHeldSlot(playerId);
+    if (playerRooms.has(playerId)) {
+      sendError(socket, ErrorCode.ALREADY_IN_ROOM, 'Already in a room');
+      return;
+    }
+
+    const settings = validateRoomSettings(data.settings);
+    if (!settings.success) {
+      sendError(socket, ErrorCode.INVALID_SETTINGS, settings.error!);
+      return;
+    }
+
+    const passwordHash = data.isPrivate && data.password ? await hashPassword(data.password) : undefined;
+
+    // The player may have left or joined another room while the password was hashing
+    if (!socket.connected) return;
+    if (playerRooms.has(playerId)) {
+      sendError(socket, ErrorCode.ALREADY_IN_ROOM, 'Already in a room');
+      return;
+    }
+
+    const gameRoom = new GameRoom(data.playerName, io, {
+      code: generateUniqueRoomCode(code => rooms.has(code)),
+      isPrivate: data.isPrivate,
+      passwordHash,
+      settings: settings.settings,
+      onMatchComplete: recordMatch
+    });
+    const result = gameRoom.addPlayer(socket, data.playerName, playerId);
 
     if (result.success) {
+      matchmaker.dequeue(socket.id);
       rooms.set(gameRoom.code, gameRoom);
-      playerRooms.set(socket.id, gameRoom.code);
+      playerRooms.set(playerId, gameRoom.code);
       
       socket.emit('ROOM_CREATED', { 
         roomCode: gameRoom.code, 
-        playerId: socket.id 
+        playerId,
+        sessionToken: sessions.createSession(playerId, gameRoom.code, socket.id),
+        inviteToken: gameRoom.inviteToken
       });
       
       gameRoom.broadcastRoomState();
+      broadcastRoomList();
     } else {
-      socket.emit('ERROR', { message: result.error });
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
     }
   });
 
   // Join room
-  socket.on('JOIN_ROOM', (data: { roomCode: string; playerName: string }) => {
+  socket.on('JOIN_ROOM', async (data: { roomCode: string; playerName: string; password?: string; inviteToken?: string }) => {
+    const playerId = getPlayerId(socket);
+    releaseHeldSlot(playerId);
+    if (playerRooms.has(playerId)) {
+      sendError(socket, ErrorCode.ALREADY_IN_ROOM, 'Already in a room');
+      return;
+    }
+
     const gameRoom = rooms.get(data.roomCode);
     
     if (!gameRoom) {
-      socket.emit('ERROR', { message: 'Room not found' });
+      sendError(socket, ErrorCode.ROOM_NOT_FOUND, 'Room not found');
+      return;
+    }
+
+    if (!await gameRoom.canJoin({ password: data.password, inviteToken: data.inviteToken })) {
+      sendError(socket, ErrorCode.ACCESS_DENIED, 'Incorrect room password or invite');
       return;
     }
 
-    const result = gameRoom.addPlayer(socket, data.playerName);
+    // Things may have moved on while the password was checked
+    if (!socket.connected) return;
+    if (playerRooms.has(playerId)) {
+      sendError(socket, ErrorCode.ALREADY_IN_ROOM, 'Already in a room');
+      return;
+    }
+    if (rooms.get(data.roomCode) !== gameRoom) {
+      sendError(socket, ErrorCode.ROOM_NOT_FOUND, 'Room not found');
+      return;
+    }
+
+    // Late joiners watch the current match and play from the next round
+    const result = gameRoom.isPlaying
+      ? addSpectatorToRoom(socket, gameRoom, data.playerName)
+      : addPlayerToRoom(socket, gameRoom, data.playerName);
     
     if (result.success) {
-      playerRooms.set(socket.id, data.roomCode);
-      
-      socket.emit('ROOM_JOINED', { 
-        roomCode: data.roomCode, 
-        playerId: socket.id,
-        players: Array.from(gameRoom['room'].players.values())
-      });
-      
-      // Notify other players
-      socket.to(data.roomCode).emit('PLAYER_JOINED', { 
-        player: gameRoom['room'].players.get(socket.id)
-      });
-      
-      gameRoom.broadcastRoomState();
+      matchmaker.updateCountdown(gameRoom);
     } else {
-      socket.emit('ERROR', { message: result.error });
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  // Quick play: queue up for matchmaking instead of picking a room
+  socket.on('QUICK_PLAY', (data: { playerName: string }) => {
+    releaseHeldSlot(getPlayerId(socket));
+    if (playerRooms.has(getPlayerId(socket))) {
+      sendError(socket, ErrorCode.ALREADY_IN_ROOM, 'Already in a room');
+      return;
+    }
+
+    const result = matchmaker.enqueue(socket, data.playerName);
+    if (!result.success) {
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  socket.on('LEAVE_QUEUE', () => {
+    if (matchmaker.dequeue(socket.id)) {
+      socket.emit('QUEUE_LEFT', {});
+    }
+  });
+
+  // Leave the current room without disconnecting
+  socket.on('LEAVE_ROOM', () => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    if (!roomCode) {
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
+      return;
+    }
+
+    const gameRoom = rooms.get(roomCode);
+    if (gameRoom) {
+      gameRoom.leaveRoom(socket, playerId);
+      afterPlayerRemoved(roomCode, gameRoom);
+    }
+
+    playerRooms.delete(playerId);
+    forgetPlayer(playerId);
+
+    socket.emit('ROOM_LEFT', { roomCode });
+    broadcastRoomList();
+  });
+
+  // Resume a session after reconnecting on a new socket
+  socket.on('RESUME_SESSION', (data: { sessionToken: string }) => {
+    const previousSession = sessions.getSession(data.sessionToken);
+    const previousSocketId = previousSession?.socketId;
+    const gameRoom = previousSession ? rooms.get(previousSession.roomCode) : undefined;
+
+    // A session can only be picked up by the identity it was created for
+    if (previousSession && previousSession.playerId !== getPlayerId(socket)) {
+      socket.emit('SESSION_RESUME_FAILED', { message: 'Session belongs to another player' });
+      return;
     }
+
+    if (!previousSession || !gameRoom || !gameRoom.hasMember(previousSession.playerId)) {
+      if (previousSession) {
+        sessions.removeSession(previousSession.playerId);
+      }
+      socket.emit('SESSION_RESUME_FAILED', { message: 'Session expired' });
+      return;
+    }
+
+    const session = sessions.resumeSession(data.sessionToken, socket.id)!;
+    gameRoom.reconnectPlayer(socket, session.playerId);
+
+    // Drop the stale socket if the server has not noticed it is gone yet
+    if (previousSocketId && previousSocketId !== socket.id) {
+      io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+    }
+
+    socket.emit('SESSION_RESUMED', {
+      roomCode: session.roomCode,
+      playerId: session.playerId,
+      sessionToken: session.token,
+      players: gameRoom.players,
+      isPlaying: gameRoom.isPlaying
+    });
+
+    socket.to(session.roomCode).emit('PLAYER_RECONNECTED', { playerId: session.playerId });
+    gameRoom.broadcastRoomState();
   });
 
   // Start game
   socket.on('START_GAME', () => {
-    const roomCode = playerRooms.get(socket.id);
+    const roomCode = playerRooms.get(getPlayerId(socket));
     if (!roomCode) {
-      socket.emit('ERROR', { message: 'Not in a room' });
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
       return;
     }
 
     const gameRoom = rooms.get(roomCode);
     if (!gameRoom) {
-      socket.emit('ERROR', { message: 'Room not found' });
+      sendError(socket, ErrorCode.ROOM_NOT_FOUND, 'Room not found');
       return;
     }
 
-    const result = gameRoom.startGame(socket.id);
+    const result = gameRoom.startGame(getPlayerId(socket));
     
     if (result.success) {
       io.to(roomCode).emit('GAME_STARTED', {});
       gameRoom.broadcastGameState();
+      broadcastRoomList();
+    } else {
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  // Host changes the room's game rules from the lobby
+  socket.on('UPDATE_ROOM_SETTINGS', (data: { settings: Partial<RoomSettings> }) => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    const gameRoom = roomCode ? rooms.get(roomCode) : undefined;
+    if (!gameRoom) {
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
+      return;
+    }
+
+    const result = gameRoom.updateSettings(playerId, data?.settings);
+    if (result.success) {
+      broadcastRoomList();
+    } else {
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  // Host adds a bot to the lobby
+  socket.on('ADD_BOT', (data?: { difficulty?: BotDifficulty }) => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    const gameRoom = roomCode ? rooms.get(roomCode) : undefined;
+    if (!gameRoom) {
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
+      return;
+    }
+
+    const result = gameRoom.addBot(playerId, data?.difficulty);
+    if (result.success) {
+      matchmaker.updateCountdown(gameRoom);
+      broadcastRoomList();
+    } else {
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  // Host removes a bot from the lobby
+  socket.on('REMOVE_BOT', (data: { botId: string }) => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    const gameRoom = roomCode ? rooms.get(roomCode) : undefined;
+    if (!gameRoom) {
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
+      return;
+    }
+
+    const result = gameRoom.removeBot(playerId, data?.botId);
+    if (result.success) {
+      matchmaker.updateCountdown(gameRoom);
+      broadcastRoomList();
     } else {
-      socket.emit('ERROR', { message: result.error });
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
     }
   });
 
+  // Vote for a rematch after GAME_OVER
+  socket.on('REMATCH_VOTE', () => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    const gameRoom = roomCode ? rooms.get(roomCode) : undefined;
+    if (!gameRoom) {
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
+      return;
+    }
+
+    const result = gameRoom.voteRematch(playerId);
+    if (!result.success) {
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  // Host sends everyone back to the lobby after GAME_OVER
+  socket.on('RETURN_TO_LOBBY', () => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    const gameRoom = roomCode ? rooms.get(roomCode) : undefined;
+    if (!gameRoom) {
+      sendError(socket, ErrorCode.NOT_IN_ROOM, 'Not in a room');
+      return;
+    }
+
+    const result = gameRoom.returnToLobby(playerId);
+    if (result.success) {
+      broadcastRoomList();
+    } else {
+      sendError(socket, ErrorCode.ACTION_REJECTED, result.error!);
+    }
+  });
+
+  // Watch the public room list
+  socket.on('LIST_ROOMS', (data?: { subscribe?: boolean }) => {
+    if (data?.subscribe) {
+      socket.join(ROOM_BROWSER_CHANNEL);
+    }
+    socket.emit('ROOM_LIST', { rooms: listPublicRooms() });
+  });
+
+  socket.on('UNSUBSCRIBE_ROOM_LIST', () => {
+    socket.leave(ROOM_BROWSER_CHANNEL);
+  });
+
   // Handle player input
-  socket.on('PLAYER_INPUT', (data: { direction: { x: number; y: number } }) => {
-    const roomCode = playerRooms.get(socket.id);
+  socket.on('PLAYER_INPUT', (payload: Uint8Array) => {
+    const data = decodePlayerInput(payload);
+    if (!data) return;
+
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
     if (!roomCode) return;
 
     const gameRoom = rooms.get(roomCode);
     if (!gameRoom) return;
 
-    gameRoom.handlePlayerInput(socket.id, data.direction);
+    // Without clock sync the timestamp is on the client's clock and says nothing about latency
+    const timestamp = hasFeature(socket, ProtocolFeature.CLOCK_SYNC) ? data.timestamp : undefined;
+
+    const verdict = antiCheat.checkInput(playerId, data.direction, timestamp);
+    if (verdict.reasons.length > 0 && verdict.action !== AntiCheatAction.NONE) {
+      console.warn(`🕵️ Suspicious input from ${playerId} (${verdict.reasons.join(', ')}), score ${verdict.score.toFixed(1)}`);
+    }
+
+    if (verdict.action === AntiCheatAction.KICK) {
+      kickPlayer(socket, playerId, roomCode, `suspicion score ${verdict.score.toFixed(1)}`);
+      return;
+    }
+
+    if (verdict.action === AntiCheatAction.IGNORE_INPUT) return;
+
+    // A spoofed timestamp would buy a bigger rewind
+    gameRoom.handlePlayerInput(playerId, data.direction, data.sequenceNumber, verdict.trustTimestamp ? timestamp : undefined);
+  });
+
+  // Client applied a GAME_STATE and can use it as a delta baseline
+  socket.on('STATE_ACK', (data: { tick: number }) => {
+    // Clients without delta support keep getting keyframes
+    if (!hasFeature(socket, ProtocolFeature.DELTA_STATE)) return;
+
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    if (!roomCode) return;
+
+    rooms.get(roomCode)?.acknowledgeState(playerId, data.tick);
+  });
+
+  // Client is missing the baseline of a delta and needs a full state
+  socket.on('REQUEST_KEYFRAME', () => {
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    if (!roomCode) return;
+
+    rooms.get(roomCode)?.requestKeyframe(playerId);
   });
 
   // Handle disconnect
   socket.on('disconnect', () => {
     console.log(`Player disconnected: ${socket.id}`);
+    matchmaker.dequeue(socket.id);
+    socketLimiter.remove(socket.id);
+    violationLimiter.remove(socket.id);
     
-    const roomCode = playerRooms.get(socket.id);
-    if (roomCode) {
-      const gameRoom = rooms.get(roomCode);
-      if (gameRoom) {
-        gameRoom.removePlayer(socket.id);
-        
-        // Notify other players
-        socket.to(roomCode).emit('PLAYER_LEFT', { playerId: socket.id });
-        
-        // Clean up empty room
-        if (gameRoom.isEmpty) {
-          gameRoom.destroy();
-          rooms.delete(roomCode);
-          console.log(`Empty room ${roomCode} cleaned up`);
-        } else {
-          gameRoom.broadcastRoomState();
-        }
+    const playerId = getPlayerId(socket);
+    const roomCode = playerRooms.get(playerId);
+    if (!roomCode) return;
+
+    // A newer socket has already reclaimed this player
+    if (sessions.isSuperseded(playerId, socket.id)) return;
+
+    const gameRoom = rooms.get(roomCode);
+    if (!gameRoom) {
+      playerRooms.delete(playerId);
+      forgetPlayer(playerId);
+      return;
+    }
+
+    // Hold the player's slot so they can resume from a new socket
+    const isHeld = sessions.startGracePeriod(playerId, () => {
+      removePlayerFromRoom(playerId, roomCode);
+    });
+
+    if (isHeld) {
+      gameRoom.markPlayerDisconnected(playerId);
+      if (gameRoom.hasPlayer(playerId)) {
+        io.to(roomCode).emit('PLAYER_DISCONNECTED', { 
+          playerId, 
+          gracePeriodMs: sessions.gracePeriod 
+        });
       }
-      
-      playerRooms.delete(socket.id);
+      gameRoom.broadcastRoomState();
+    } else {
+      removePlayerFromRoom(playerId, roomCode);
     }
   });
 
+  // Clock sync round trip, the client works out offset and RTT from the reply
+  socket.on('TIME_SYNC', (data: { clientTime: number }) => {
+    socket.emit('TIME_SYNC_REPLY', { clientTime: data.clientTime, serverTime: Date.now() });
+  });
+
   socket.on('ping', () => {
     socket.emit('pong', { timestamp: Date.now() });
   });
@@ -159,9 +851,36 @@ io.on('connection', (socket) => {
 
 const PORT = process.env.PORT || 3001;
 
-server.listen(PORT, () => {
-  console.log(`🚀 spin.io server running on port ${PORT}`);
-  console.log(`📡 WebSocket server ready for connections`);
-});
+roomReaper.start();
+
+
+// Catch phase changes that happen inside the game loop (game over, rematch, expiry)
+setInterval(broadcastRoomList, GAME_CONFIG.ROOM_LIST_REFRESH_MS);
+
+// Forget addresses that have gone quiet
+setInterval(() => ipLimiter.prune(), GAME_CONFIG.RATE_LIMIT_PRUNE_INTERVAL_MS);
+
+// Match history must be in memory before any match can end, or the next save would overwrite it
+matchRepository.load()
+  .then(() => {
+    server.listen(PORT, () => {
+      console.log(`🚀 spin.io server running on port ${PORT}`);
+      console.log(`📡 WebSocket server ready for connections`);
+    });
+  })
+  .catch(error => {
+    console.error('❌ Failed to load match history, not starting:', error);
+    process.exit(1);
+  });
+
+// Write out matches still waiting for the save delay before exiting
+const shutdown = (signal: string): void => {
+  console.log(`🛑 ${signal} received, saving match history`);
+  matchRepository.flush()
+    .catch(error => console.error('❌ Failed to save match history on shutdown:', error))
+    .finally(() => process.exit(0));
+};
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
 
 export { io, rooms };
\ No newline at end of file
@@ -2,6 +2,8 @@
  * Core game types for multiplayer spin.io server
  */
 
+import type { ClientHello, ServerError, ServerHello } from './protocol';
+
 /** 2D Vector for position, velocity, etc. */
 export interface Vector2 {
   x: number;
@@ -34,6 +36,21 @@ export enum GamePhase {
   GAME_OVER = 'game_over',
 }
 
+/** Reasons a room can be reaped by the server */
+export enum RoomExpiryReason {
+  MAX_AGE = 'max_age',
+  INACTIVE = 'inactive',
+  GAME_OVER_TIMEOUT = 'game_over_timeout',
+  LOBBY_IDLE = 'lobby_idle',
+}
+
+/** How well server-controlled bots play */
+export enum BotDifficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard',
+}
+
 /** Multiplayer game state */
 export interface MultiplayerGameState {
   phase: GamePhase;
@@ -54,6 +71,105 @@ export interface PlayerData {
   score: number;
   isAlive: boolean;
   isHost: boolean;
+  isConnected: boolean;
+  isBot: boolean;
+  botDifficulty?: BotDifficulty;
+}
+
+/** Flattened player fields sent in GAME_STATE, tagged with the last input the server applied for them */
+export interface NetPlayerState {
+  id: string;
+  name: string;
+  position: Vector2;
+  velocity: Vector2;
+  rotation: number;
+  spinSpeed: number;
+  size: number;
+  maxSpeed: number;
+  score: number;
+  isAlive: boolean;
+  isHost: boolean;
+  isConnected: boolean;
+  isBot: boolean;
+  lastProcessedInput: number;
+}
+
+/** Changed fields of one player since the baseline */
+export type NetPlayerDelta = Partial<NetPlayerState> & { id: string };
+
+/** GAME_STATE payload: a delta against a tick the client acknowledged, or a full keyframe */
+export interface GameStateDelta {
+  tick: number;
+  /** Tick this delta applies on top of, null for a keyframe */
+  baseTick: number | null;
+  timeElapsed: number;
+  /** Only sent in keyframes */
+  arena?: { width: number; height: number };
+  players: NetPlayerDelta[];
+  removedPlayers: string[];
+  dotsAdded: Dot[];
+  dotsRemoved: string[];
+}
+
+/** Someone watching a match without a spinner */
+export interface SpectatorData {
+  id: string;
+  name: string;
+  isConnected: boolean;
+}
+
+/** Final standing of a player in a finished match */
+export interface MatchResult {
+  playerId: string;
+  name: string;
+  score: number;
+  isAlive: boolean;
+  placement: number;
+}
+
+/** One player's part in a finished match */
+export interface MatchParticipant {
+  playerId: string;
+  name: string;
+  isBot: boolean;
+  placement: number;
+  finalSize: number;
+  eliminations: number;
+  /** Who eliminated them, null if they survived or left */
+  eliminatedBy: string | null;
+  survived: boolean;
+}
+
+/** An elimination during a match, timed from the start */
+export interface MatchElimination {
+  playerId: string;
+  eliminatedBy: string | null;
+  atMs: number;
+}
+
+/** A finished match as stored in the match history */
+export interface MatchRecord {
+  id: string;
+  roomCode: string;
+  startedAt: number;
+  endedAt: number;
+  winnerId: string | null;
+  participants: MatchParticipant[];
+  eliminations: MatchElimination[];
+}
+
+/** Lifetime totals for a player */
+export interface PlayerProfile {
+  playerId: string;
+  /** Name used in the most recent match */
+  name: string;
+  matchesPlayed: number;
+  wins: number;
+  eliminations: number;
+  deaths: number;
+  bestSize: number;
+  firstPlayedAt: number;
+  lastPlayedAt: number;
 }
 
 /** Room information */
@@ -62,30 +178,116 @@ export interface Room {
   code: string;
   host: string;
   players: Map<string, PlayerData>;
+  spectators: Map<string, SpectatorData>;
   gameState: MultiplayerGameState;
   isPlaying: boolean;
   createdAt: Date;
+  isPrivate: boolean;
+  passwordHash: string | null;
+  inviteToken: string | null;
+  isMatchmade: boolean;
+  settings: RoomSettings;
+}
+
+/** Public listing entry for the room browser */
+export interface RoomSummary {
+  code: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  phase: GamePhase;
+  ageSeconds: number;
+}
+
+/** Game rules the host can change per room */
+export interface RoomSettings {
+  arenaWidth: number;
+  arenaHeight: number;
+  dotCount: number;
+  maxPlayers: number;
+  /** How much bigger a spinner must be to eliminate another on contact */
+  eliminationRatio: number;
+  /** Share of the victim's size the victor gains on a kill */
+  killGrowthRatio: number;
+  /** Share of speed kept when bouncing off an arena wall */
+  bounceBoost: number;
+}
+
+/** Options used when creating a room */
+export interface RoomOptions {
+  code?: string;
+  isPrivate?: boolean;
+  /** Room password as hashed by hashPassword */
+  passwordHash?: string;
+  isMatchmade?: boolean;
+  settings?: RoomSettings;
+  /** Simulation ticks per second, defaults to GAME_CONFIG.TARGET_FPS */
+  tickRate?: number;
+  /** GAME_STATE broadcasts per second, defaults to GAME_CONFIG.SEND_RATE */
+  sendRate?: number;
+  /** Called with the finished match when GAME_OVER fires */
+  onMatchComplete?: (match: MatchRecord) => void;
+}
+
+/** Credentials presented when joining a private room */
+export interface RoomCredentials {
+  password?: string;
+  inviteToken?: string;
 }
 
 /** Network message types */
 export interface NetworkMessages {
   // Client to Server
-  CREATE_ROOM: { playerName: string };
-  JOIN_ROOM: { roomCode: string; playerName: string };
+  HELLO: ClientHello;
+  CREATE_ROOM: { playerName: string; isPrivate?: boolean; password?: string; settings?: Partial<RoomSettings> };
+  UPDATE_ROOM_SETTINGS: { settings: Partial<RoomSettings> };
+  JOIN_ROOM: { roomCode: string; playerName: string; password?: string; inviteToken?: string };
   LEAVE_ROOM: {};
   START_GAME: {};
-  PLAYER_INPUT: { direction: Vector2; timestamp: number };
+  REMATCH_VOTE: {};
+  LIST_ROOMS: { subscribe?: boolean };
+  UNSUBSCRIBE_ROOM_LIST: {};
+  QUICK_PLAY: { playerName: string };
+  LEAVE_QUEUE: {};
+  RETURN_TO_LOBBY: {};
+  ADD_BOT: { difficulty?: BotDifficulty };
+  REMOVE_BOT: { botId: string };
+  /** Sent binary encoded, see codec.ts */
+  PLAYER_INPUT: { direction: Vector2; timestamp: number; sequenceNumber: number };
+  STATE_ACK: { tick: number };
+  REQUEST_KEYFRAME: {};
+  RESUME_SESSION: { sessionToken: string };
+  TIME_SYNC: { clientTime: number };
 
   // Server to Client  
-  ROOM_CREATED: { roomCode: string; playerId: string };
-  ROOM_JOINED: { roomCode: string; playerId: string; players: PlayerData[] };
+  HELLO_ACK: ServerHello;
+  TIME_SYNC_REPLY: { clientTime: number; serverTime: number };
+  ROOM_CREATED: { roomCode: string; playerId: string; sessionToken: string; inviteToken: string | null };
+  ROOM_JOINED: { roomCode: string; playerId: string; sessionToken: string; players: PlayerData[] };
+  ROOM_LEFT: { roomCode: string };
+  SPECTATING: { roomCode: string; playerId: string; sessionToken: string; players: PlayerData[] };
+  SPECTATOR_JOINED: { spectator: SpectatorData };
+  SPECTATOR_LEFT: { spectatorId: string };
+  SESSION_RESUMED: { roomCode: string; playerId: string; sessionToken: string; players: PlayerData[]; isPlaying: boolean };
+  SESSION_RESUME_FAILED: { message: string };
   PLAYER_JOINED: { player: PlayerData };
   PLAYER_LEFT: { playerId: string };
+  PLAYER_DISCONNECTED: { playerId: string; gracePeriodMs: number };
+  PLAYER_RECONNECTED: { playerId: string };
+  ROOM_EXPIRED: { roomCode: string; reason: RoomExpiryReason; message: string };
   GAME_STARTED: {};
-  GAME_STATE: { players: PlayerData[]; dots: Dot[]; timeElapsed: number };
+  /** Sent binary encoded, see codec.ts */
+  GAME_STATE: GameStateDelta;
   PLAYER_ELIMINATED: { playerId: string };
-  GAME_OVER: { winner: PlayerData | null };
-  ERROR: { message: string };
+  GAME_OVER: { winner: PlayerData | null; results: MatchResult[] };
+  REMATCH_VOTES: { votes: string[]; required: number };
+  ROOM_LIST: { rooms: RoomSummary[] };
+  QUEUE_STATUS: { position: number; queueSize: number; estimatedWaitSeconds: number };
+  QUEUE_LEFT: {};
+  MATCH_COUNTDOWN: { roomCode: string; startsAt: number; secondsRemaining: number };
+  MATCH_COUNTDOWN_CANCELLED: { roomCode: string };
+  ERROR: ServerError;
 }
 
 /** Game configuration constants */
@@ -108,9 +310,43 @@ export const GAME_CONFIG = {
   MOVEMENT_DAMPING: 0.95,
   ACCELERATION: 800,
   
-  TARGET_FPS: 60,
+  TARGET_FPS: 60, // Simulation ticks per second
+  SEND_RATE: 20, // GAME_STATE broadcasts per second
+  MAX_CATCH_UP_TICKS: 5,
+  STATE_HISTORY_TICKS: 64,
   MAX_PLAYERS_PER_ROOM: 4,
+  MAX_SPECTATORS_PER_ROOM: 8,
   ROOM_EXPIRY_MINUTES: 30,
+  ROOM_INACTIVITY_MINUTES: 5,
+  GAME_OVER_EXPIRY_MINUTES: 5,
+  LOBBY_IDLE_MINUTES: 10,
+  ROOM_REAPER_INTERVAL_MS: 60000,
+  ROOM_CODE_LENGTH: 4,
+  ROOM_CODE_MAX_LENGTH: 8, // Codes grow up to this length when shorter ones run out
+  ROOM_CODE_ALPHABET: '0123456789',
+  ROOM_CODE_MAX_ATTEMPTS: 50,
+  ROOM_PASSWORD_MAX_LENGTH: 32,
+  PLAYER_NAME_MAX_LENGTH: 20,
+  MAX_MESSAGE_BYTES: 16 * 1024,
+  MAX_INVALID_MESSAGES: 10, // Malformed messages tolerated before a socket is disconnected
+  RATE_LIMIT_WARNING_INTERVAL_MS: 5000,
+  RATE_LIMIT_PRUNE_INTERVAL_MS: 60000,
+  ROOM_LIST_REFRESH_MS: 5000,
+  MATCHMAKING_MIN_PLAYERS: 2,
+  MATCHMAKING_COUNTDOWN_MS: 5000,
+  MATCHMAKING_DEFAULT_ETA_MS: 15000,
+  MATCHMAKING_BOT_FILL_MS: 20000,
+  MATCHMAKING_BOT_FILL_TARGET: 4,
+  ELIMINATION_SIZE_RATIO: 1.3,
+  KILL_GROWTH_RATIO: 0.5,
+  WALL_BOUNCE_BOOST: 0.8,
+  BOT_DEFAULT_DIFFICULTY: BotDifficulty.MEDIUM,
+  RECONNECT_GRACE_PERIOD_MS: 30000,
+  GUEST_TOKEN_TTL_MS: 30 * 24 * 60 * 60 * 1000,
+  MATCH_HISTORY_PAGE_SIZE: 20,
+  MATCH_HISTORY_MAX_PAGE_SIZE: 100,
+  MATCH_STORE_MAX_MATCHES: 10000, // Oldest matches are dropped, profile totals are kept
+  MATCH_STORE_SAVE_DELAY_MS: 1000,
 } as const;
 
 /** Collision detection result */
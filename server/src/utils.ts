@@ -2,7 +2,9 @@
  * Mathematical utility functions for game physics and calculations
  */
 
-import { Vector2, CollisionResult } from './types';
+import { randomBytes, randomInt, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Vector2, CollisionResult, GAME_CONFIG } from './types';
 
 /**
  * Creates a new Vector2
@@ -48,6 +50,16 @@ export const subtract = (a: Vector2, b: Vector2): Vector2 => {
   return createVector2(a.x - b.x, a.y - b.y);
 };
 
+/**
+ * Linear interpolation between two vectors
+ */
+export const lerp = (a: Vector2, b: Vector2, t: number): Vector2 => {
+  return createVector2(
+    a.x + (b.x - a.x) * t,
+    a.y + (b.y - a.y) * t
+  );
+};
+
 /**
  * Clamps a number between min and max values
  */
@@ -95,8 +107,71 @@ export const generateId = (): string => {
 };
 
 /**
- * Generates a 4-digit room code
+ * Generates a random room code from the given alphabet
+ */
+export const generateRoomCode = (
+  length: number = GAME_CONFIG.ROOM_CODE_LENGTH,
+  alphabet: string = GAME_CONFIG.ROOM_CODE_ALPHABET
+): string => {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+};
+
+/**
+ * Generates a room code that is not already taken.
+ * Falls back to longer codes, up to ROOM_CODE_MAX_LENGTH, if the code space is crowded.
  */
-export const generateRoomCode = (): string => {
-  return Math.floor(Math.random() * 9000 + 1000).toString();
-};
\ No newline at end of file
+export const generateUniqueRoomCode = (
+  isTaken: (code: string) => boolean,
+  length: number = GAME_CONFIG.ROOM_CODE_LENGTH,
+  alphabet: string = GAME_CONFIG.ROOM_CODE_ALPHABET,
+  maxAttempts: number = GAME_CONFIG.ROOM_CODE_MAX_ATTEMPTS
+): string => {
+  const maxLength = Math.max(length, GAME_CONFIG.ROOM_CODE_MAX_LENGTH);
+
+  for (let codeLength = length; codeLength <= maxLength; codeLength++) {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const code = generateRoomCode(codeLength, alphabet);
+      if (!isTaken(code)) {
+        return code;
+      }
+    }
+    console.warn(`⚠️ No free ${codeLength}-character room code after ${maxAttempts} attempts, trying longer codes`);
+  }
+
+  throw new Error(`No free room code of up to ${maxLength} characters`);
+};
+
+/**
+ * Generates a URL-safe random token
+ */
+export const generateToken = (bytes: number = 16): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+/**
+ * Hashes a password with a random salt, returning "salt:hash".
+ * Runs on the thread pool so other rooms keep ticking meanwhile.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = (await scryptAsync(password, salt, 32)).toString('hex');
+  return `${salt}:${hash}`;
+};
+
+/**
+ * Checks a password against a hash produced by hashPassword
+ */
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+};
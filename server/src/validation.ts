@@ -0,0 +1,204 @@
+/**
+ * Runtime validation and sanitisation of client to server messages
+ */
+
+import { BotDifficulty, GAME_CONFIG, Vector2 } from './types';
+import { ErrorCode } from './protocol';
+import { validateRoomSettings } from './roomSettings';
+
+export interface ValidationResult<T> {
+  success: boolean;
+  value?: T;
+  error?: string;
+  code?: ErrorCode;
+}
+
+type Validator<T> = (input: unknown, field: string) => ValidationResult<T>;
+
+const ok = <T>(value: T): ValidationResult<T> => ({ success: true, value });
+
+const fail = <T>(error: string, code: ErrorCode = ErrorCode.INVALID_PAYLOAD): ValidationResult<T> =>
+  ({ success: false, error, code });
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input) && !ArrayBuffer.isView(input);
+
+// Letters, digits, combining marks, spaces and a little punctuation
+const PLAYER_NAME_PATTERN = /^[\p{L}\p{N}\p{M} _.'-]+$/u;
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2060-\u206f\ufeff]/g;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const string = (options: { maxLength: number; pattern?: RegExp; code?: ErrorCode }): Validator<string> => (input, field) => {
+  if (typeof input !== 'string') return fail(`${field} must be text`, options.code);
+  if (input.length > options.maxLength) return fail(`${field} is too long`, options.code);
+  if (options.pattern && !options.pattern.test(input)) return fail(`${field} is not valid`, options.code);
+  return ok(input);
+};
+
+const number = (options: { min: number; max: number; integer?: boolean }): Validator<number> => (input, field) => {
+  if (typeof input !== 'number' || !Number.isFinite(input)) return fail(`${field} must be a number`);
+  if (options.integer && !Number.isInteger(input)) return fail(`${field} must be a whole number`);
+  if (input < options.min || input > options.max) return fail(`${field} is out of range`);
+  return ok(input);
+};
+
+const boolean: Validator<boolean> = (input, field) =>
+  typeof input === 'boolean' ? ok(input) : fail(`${field} must be true or false`);
+
+const oneOf = <T extends string>(values: T[]): Validator<T> => (input, field) =>
+  values.includes(input as T) ? ok(input as T) : fail(`${field} must be one of ${values.join(', ')}`);
+
+const arrayOf = <T>(item: Validator<T>, maxLength: number): Validator<T[]> => (input, field) => {
+  if (!Array.isArray(input)) return fail(`${field} must be a list`);
+  if (input.length > maxLength) return fail(`${field} has too many entries`);
+
+  const values: T[] = [];
+  for (const entry of input) {
+    const result = item(entry, field);
+    if (!result.success) return fail(result.error!, result.code);
+    values.push(result.value!);
+  }
+  return ok(values);
+};
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (input, field) =>
+  input === undefined || input === null ? ok(undefined) : validator(input, field);
+
+/** Known fields are validated, anything else is dropped */
+const object = <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> => (input, field) => {
+  if (!isPlainObject(input)) return fail(`${field} must be an object`);
+
+  const value = {} as T;
+  for (const key of Object.keys(shape) as (keyof T)[]) {
+    const result = shape[key](input[key as string], String(key));
+    if (!result.success) return fail(result.error!, result.code);
+    if (result.value !== undefined) value[key] = result.value as T[keyof T];
+  }
+  return ok(value);
+};
+
+/** Messages that carry nothing */
+const empty: Validator<{}> = (input, field) =>
+  input === undefined || input === null || isPlainObject(input) ? ok({}) : fail(`${field} must be empty`);
+
+const binary = (maxLength: number): Validator<Uint8Array> => (input, field) => {
+  const bytes = input instanceof ArrayBuffer ? new Uint8Array(input) : ArrayBuffer.isView(input)
+    ? new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+    : null;
+
+  if (!bytes) return fail(`${field} must be binary`);
+  if (bytes.length > maxLength) return fail(`${field} is too large`);
+  return ok(bytes);
+};
+
+/**
+ * Clean up a display name: strips invisible characters, collapses whitespace and
+ * allows only letters, digits, spaces and simple punctuation.
+ */
+export const sanitizePlayerName = (input: unknown, field: string = 'playerName'): ValidationResult<string> => {
+  if (typeof input !== 'string') return fail(`${field} must be text`, ErrorCode.INVALID_NAME);
+  // Bound the work before normalising
+  if (input.length > GAME_CONFIG.PLAYER_NAME_MAX_LENGTH * 4) return fail('Name is too long', ErrorCode.INVALID_NAME);
+
+  const name = input.normalize('NFC').replace(CONTROL_CHARACTERS, '').replace(/\s+/g, ' ').trim();
+
+  if (name.length === 0) return fail('Name cannot be empty', ErrorCode.INVALID_NAME);
+  if ([...name].length > GAME_CONFIG.PLAYER_NAME_MAX_LENGTH) {
+    return fail(`Name must be at most ${GAME_CONFIG.PLAYER_NAME_MAX_LENGTH} characters`, ErrorCode.INVALID_NAME);
+  }
+  if (!PLAYER_NAME_PATTERN.test(name)) {
+    return fail('Name can only contain letters, numbers, spaces and . _ \' -', ErrorCode.INVALID_NAME);
+  }
+
+  return ok(name);
+};
+
+/**
+ * Steering input as a direction of length at most 1. Anything non-finite counts as no input.
+ */
+export const sanitizeDirection = (direction: Vector2): Vector2 => {
+  const { x, y } = direction ?? {};
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+    return { x: 0, y: 0 };
+  }
+
+  const length = Math.hypot(x, y);
+  return length > 1 ? { x: x / length, y: y / length } : { x, y };
+};
+
+const playerName: Validator<string> = (input, field) => sanitizePlayerName(input, field);
+
+// Codes grow past ROOM_CODE_LENGTH when the shorter ones are crowded
+const roomCode = string({
+  maxLength: GAME_CONFIG.ROOM_CODE_MAX_LENGTH,
+  pattern: new RegExp(`^[${GAME_CONFIG.ROOM_CODE_ALPHABET}]{${GAME_CONFIG.ROOM_CODE_LENGTH},${GAME_CONFIG.ROOM_CODE_MAX_LENGTH}}$`),
+  code: ErrorCode.ROOM_NOT_FOUND
+});
+
+const password = string({ maxLength: GAME_CONFIG.ROOM_PASSWORD_MAX_LENGTH, code: ErrorCode.INVALID_PASSWORD });
+
+const sessionToken = string({ maxLength: 128, pattern: TOKEN_PATTERN });
+
+// The lobby sends whatever was typed in the password field as the invite too
+const inviteToken = string({ maxLength: 128, code: ErrorCode.ACCESS_DENIED });
+
+const roomSettings: Validator<Record<string, number>> = input => {
+  const result = validateRoomSettings(input);
+  return result.success ? ok(input as Record<string, number>) : fail(result.error!, ErrorCode.INVALID_SETTINGS);
+};
+
+/** Schema for every message a client may send */
+const MESSAGE_SCHEMAS: Record<string, Validator<unknown>> = {
+  HELLO: object({
+    protocolVersion: number({ min: 0, max: 1000, integer: true }),
+    features: arrayOf(string({ maxLength: 32 }), 16)
+  }),
+  CREATE_ROOM: object({
+    playerName,
+    isPrivate: optional(boolean),
+    password: optional(password),
+    settings: optional(roomSettings)
+  }),
+  JOIN_ROOM: object({
+    roomCode,
+    playerName,
+    password: optional(password),
+    inviteToken: optional(inviteToken)
+  }),
+  QUICK_PLAY: object({ playerName }),
+  LEAVE_QUEUE: empty,
+  LEAVE_ROOM: empty,
+  RESUME_SESSION: object({ sessionToken }),
+  START_GAME: empty,
+  UPDATE_ROOM_SETTINGS: object({ settings: roomSettings }),
+  ADD_BOT: optional(object({ difficulty: optional(oneOf(Object.values(BotDifficulty))) })),
+  REMOVE_BOT: object({ botId: string({ maxLength: 32, pattern: /^[a-z0-9_-]+$/i }) }),
+  REMATCH_VOTE: empty,
+  RETURN_TO_LOBBY: empty,
+  LIST_ROOMS: optional(object({ subscribe: optional(boolean) })),
+  UNSUBSCRIBE_ROOM_LIST: empty,
+  PLAYER_INPUT: binary(64),
+  STATE_ACK: object({ tick: number({ min: 0, max: Number.MAX_SAFE_INTEGER, integer: true }) }),
+  REQUEST_KEYFRAME: empty,
+  TIME_SYNC: object({ clientTime: number({ min: 0, max: Number.MAX_SAFE_INTEGER }) }),
+  ping: empty,
+};
+
+/**
+ * Validate the arguments of an inbound socket message.
+ * On success `value` is the sanitised payload to hand to the handler.
+ */
+export const validateMessage = (event: string, args: unknown[]): ValidationResult<unknown> => {
+  const validator = Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, event) ? MESSAGE_SCHEMAS[event] : undefined;
+  if (!validator) {
+    return fail(`Unknown message ${String(event).slice(0, 32)}`);
+  }
+
+  if (args.length > 1) {
+    return fail(`${event} takes a single payload`);
+  }
+
+  const result = validator(args[0], event);
+  return result.success ? result : fail(`${event}: ${result.error}`, result.code);
+};
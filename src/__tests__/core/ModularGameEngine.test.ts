@@ -0,0 +1,60 @@
+/**
+ * Tests for predicting the local player of a server-run match
+ */
+
+import { ModularGameEngine } from '../../core/ModularGameEngine';
+import { MovingBody, stepSpinnerMovement } from '../../../server/src/movement';
+
+describe('ModularGameEngine prediction', () => {
+  let engine: ModularGameEngine;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(10000);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    engine = new ModularGameEngine();
+    engine.startPrediction('p1', 'Alice', { x: 100, y: 100 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('simulates only the local spinner, the server owns the dots', () => {
+    engine.update(1 / 60);
+
+    expect(engine.getGameState().dots).toEqual([]);
+    expect(engine.getMultiplayerGameState().players.map(p => p.id)).toEqual(['p1']);
+  });
+
+  test('numbers inputs so server acks refer to them', () => {
+    expect(engine.setSpinnerDirection({ x: 1, y: 0 })).toBe(1);
+    expect(engine.setSpinnerDirection({ x: 0, y: 1 })).toBe(2);
+  });
+
+  test('rewinds to the server state and replays the inputs it has not acknowledged', () => {
+    engine.setSpinnerDirection({ x: 1, y: 0 });
+    jest.advanceTimersByTime(100);
+    engine.setSpinnerDirection({ x: 0, y: 1 });
+    jest.advanceTimersByTime(100);
+
+    // Input 2 simulated by hand from the server's state with the server's step: 100ms of moving down
+    const expected: MovingBody = { position: { x: 500, y: 400 }, velocity: { x: 0, y: 0 }, targetDirection: { x: 0, y: 1 }, maxSpeed: 200 };
+    for (let i = 0; i < 6; i++) stepSpinnerMovement(expected, 1 / 60);
+
+    // GAME_STATE, taken as input 2 was sent, puts us far from where we predicted and acknowledges input 1
+    engine.processServerUpdate('p1', { x: 500, y: 400 }, { x: 0, y: 0 }, 1, 10100);
+
+    const replayed = engine.getGameState().spinner.position;
+    expect(replayed.x).toBeCloseTo(expected.position.x);
+    expect(replayed.y).toBeCloseTo(expected.position.y);
+    expect(replayed.y).toBeGreaterThan(400);
+  });
+
+  test('takes size and speed from the server', () => {
+    engine.syncPlayerSpinner('p1', 42, 120);
+
+    expect(engine.getGameState().spinner).toEqual(expect.objectContaining({ size: 42, maxSpeed: 120 }));
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for client-side prediction and server reconciliation
+ */
+
+import { World } from '../../../core/ECS';
+import { COMPONENT_TYPES, NetworkComponent, PositionComponent, VelocityComponent } from '../../../core/components';
+import { NetworkSystem } from '../../../core/systems/NetworkSystem';
+import { PhysicsSystem } from '../../../core/systems/PhysicsSystem';
+import { MovingBody, stepSpinnerMovement } from '../../../../server/src/movement';
+
+const createPredictedSpinner = (world: World, x: number, y: number): number => {
+  const entityId = world.createEntity().id;
+  world.addComponent(entityId, new PositionComponent({ x, y }));
+  world.addComponent(entityId, new VelocityComponent({ x: 0, y: 0 }));
+  world.addComponent(entityId, new NetworkComponent('local_player', 0, 0, true));
+  return entityId;
+};
+
+// Moves a body the way the server simulates one tick
+const serverSteps = (body: MovingBody, direction: { x: number; y: number }, steps: number): void => {
+  body.targetDirection = direction;
+  for (let i = 0; i < steps; i++) stepSpinnerMovement(body, 1 / 60);
+};
+
+const positionIn = (world: World, entityId: number) =>
+  world.getComponent<PositionComponent>(entityId, COMPONENT_TYPES.POSITION)!.position;
+
+describe('NetworkSystem', () => {
+  let world: World;
+  let networkSystem: NetworkSystem;
+  let entityId: number;
+
+  const positionOf = (id: number) => positionIn(world, id);
+
+  const settle = () => {
+    for (let i = 0; i < 60; i++) networkSystem.update(1 / 60);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(10000);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    world = new World();
+    networkSystem = new NetworkSystem(world, new PhysicsSystem(world));
+    entityId = createPredictedSpinner(world, 100, 100);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('keeps a correct prediction untouched', () => {
+    networkSystem.processServerUpdate(entityId, { x: 100.5, y: 100 }, { x: 0, y: 0 }, 0, Date.now());
+
+    expect(positionOf(entityId)).toEqual({ x: 100, y: 100 });
+    expect(networkSystem.getNetworkStats(entityId)!.pendingCorrection).toBe(0);
+  });
+
+  test('smooths a small error out over a few frames instead of jumping', () => {
+    networkSystem.processServerUpdate(entityId, { x: 120, y: 100 }, { x: 0, y: 0 }, 0, Date.now());
+
+    expect(positionOf(entityId)).toEqual({ x: 100, y: 100 });
+    expect(networkSystem.getNetworkStats(entityId)!.pendingCorrection).toBe(20);
+
+    networkSystem.update(1 / 60);
+    expect(positionOf(entityId).x).toBeGreaterThan(100);
+    expect(positionOf(entityId).x).toBeLessThan(120);
+
+    settle();
+    expect(positionOf(entityId).x).toBeCloseTo(120);
+    expect(networkSystem.getNetworkStats(entityId)!.pendingCorrection).toBe(0);
+  });
+
+  test('snaps straight to the server when the error is large', () => {
+    networkSystem.processServerUpdate(entityId, { x: 600, y: 400 }, { x: 0, y: 0 }, 0, Date.now());
+
+    expect(positionOf(entityId)).toEqual({ x: 600, y: 400 });
+  });
+
+  test('replays unacknowledged inputs from the authoritative state with the server step', () => {
+    networkSystem.recordInput(entityId, { x: 1, y: 0 });
+    jest.advanceTimersByTime(100);
+    networkSystem.recordInput(entityId, { x: 0, y: 1 });
+    jest.advanceTimersByTime(100);
+    networkSystem.recordInput(entityId, { x: -1, y: 0 });
+    jest.advanceTimersByTime(100);
+
+    // The server took its state 50ms after applying the first input, so from there:
+    // 3 more steps right, then 6 steps down and 6 steps left
+    const server: MovingBody = { position: { x: 200, y: 200 }, velocity: { x: 0, y: 0 }, targetDirection: { x: 0, y: 0 }, maxSpeed: 200 };
+    serverSteps(server, { x: 1, y: 0 }, 3);
+    serverSteps(server, { x: 0, y: 1 }, 6);
+    serverSteps(server, { x: -1, y: 0 }, 6);
+
+    networkSystem.processServerUpdate(entityId, { x: 200, y: 200 }, { x: 0, y: 0 }, 1, 10050);
+    settle();
+
+    expect(positionOf(entityId).x).toBeCloseTo(server.position.x);
+    expect(positionOf(entityId).y).toBeCloseTo(server.position.y);
+    expect(networkSystem.getNetworkStats(entityId)).toEqual(expect.objectContaining({
+      inputBufferSize: 2,
+      lastSequence: 3,
+      lastAcknowledged: 1
+    }));
+  });
+
+  test('keeps moving a held direction when every input is acknowledged', () => {
+    const physics = new PhysicsSystem(world);
+    const velocity = world.getComponent<VelocityComponent>(entityId, COMPONENT_TYPES.VELOCITY)!;
+
+    // The player pushes right once and holds it, predicting 200ms of movement
+    networkSystem.recordInput(entityId, { x: 1, y: 0 });
+    velocity.targetDirection = { x: 1, y: 0 };
+    for (let i = 0; i < 12; i++) physics.updateEntityPhysics(entityId, 1 / 60);
+    jest.advanceTimersByTime(200);
+    const predicted = { ...positionOf(entityId) };
+
+    // The server applied the input straight away and sent its state after 100ms
+    const server: MovingBody = { position: { x: 100, y: 100 }, velocity: { x: 0, y: 0 }, targetDirection: { x: 0, y: 0 }, maxSpeed: 200 };
+    serverSteps(server, { x: 1, y: 0 }, 6);
+
+    networkSystem.processServerUpdate(entityId, server.position, server.velocity, 1, 10100);
+
+    expect(networkSystem.getNetworkStats(entityId)!.inputBufferSize).toBe(0);
+    expect(networkSystem.getNetworkStats(entityId)!.pendingCorrection).toBe(0);
+    expect(positionOf(entityId)).toEqual(predicted);
+    expect(predicted.x).toBeGreaterThan(server.position.x);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for estimating the server clock
+ */
+
+import { ClockSync } from '../../multiplayer/ClockSync';
+
+// Server clock runs 5 seconds ahead of the client
+const SERVER_AHEAD_MS = 5000;
+
+const roundTrip = (sendTime: number, upMs: number, downMs: number) => ({
+  clientSendTime: sendTime,
+  serverTime: sendTime + upMs + SERVER_AHEAD_MS,
+  clientReceiveTime: sendTime + upMs + downMs
+});
+
+describe('ClockSync', () => {
+  let clock: ClockSync;
+
+  beforeEach(() => {
+    clock = new ClockSync();
+  });
+
+  test('passes local time through until synced', () => {
+    expect(clock.isSynced).toBe(false);
+    expect(clock.serverTime(1000)).toBe(1000);
+  });
+
+  test('estimates offset and round trip from a symmetric exchange', () => {
+    clock.addSample(roundTrip(1000, 40, 40));
+
+    expect(clock.rtt).toBe(80);
+    expect(clock.offset).toBe(SERVER_AHEAD_MS);
+    expect(clock.serverTime(2000)).toBe(2000 + SERVER_AHEAD_MS);
+  });
+
+  test('ignores slow, lopsided round trips', () => {
+    clock.addSample(roundTrip(1000, 30, 30));
+    clock.addSample(roundTrip(2000, 32, 28));
+    clock.addSample(roundTrip(3000, 400, 20));
+    clock.addSample(roundTrip(4000, 29, 31));
+
+    expect(Math.abs(clock.offset - SERVER_AHEAD_MS)).toBeLessThanOrEqual(2);
+    expect(clock.rtt).toBe(60);
+  });
+
+  test('rejects offsets that disagree with the other fast samples', () => {
+    clock = new ClockSync({ maxOffsetDeviationMs: 20 });
+    for (let i = 0; i < 4; i++) {
+      clock.addSample(roundTrip(i * 1000, 20, 20));
+    }
+    // The fastest round trip of all, but its timestamp is way off
+    clock.addSample({ clientSendTime: 5000, serverTime: 5000 + SERVER_AHEAD_MS + 200, clientReceiveTime: 5030 });
+
+    expect(clock.offset).toBe(SERVER_AHEAD_MS);
+  });
+
+  test('keeps a bounded window of samples', () => {
+    clock = new ClockSync({ maxSamples: 3 });
+    for (let i = 0; i < 5; i++) {
+      clock.addSample(roundTrip(i * 1000, 10, 10));
+    }
+
+    expect(clock.sampleCount).toBe(3);
+  });
+
+  test('reset forgets the estimate', () => {
+    clock.addSample(roundTrip(1000, 40, 40));
+    clock.reset();
+
+    expect(clock.isSynced).toBe(false);
+    expect(clock.offset).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for rebuilding delta-compressed game states
+ */
+
+import { GameStateDecoder, GameStateDelta, NetPlayerState } from '../../multiplayer/GameStateDecoder';
+
+const createPlayer = (id: string, x: number): NetPlayerState => ({
+  id,
+  name: id,
+  position: { x, y: 100 },
+  velocity: { x: 0, y: 0 },
+  rotation: 0,
+  spinSpeed: Math.PI * 2,
+  size: 25,
+  maxSpeed: 200,
+  score: 25,
+  isAlive: true,
+  isHost: id === 'a',
+  isConnected: true,
+  isBot: false,
+  lastProcessedInput: 0
+});
+
+const keyframe: GameStateDelta = {
+  tick: 1,
+  baseTick: null,
+  timeElapsed: 0.1,
+  arena: { width: 800, height: 600 },
+  players: [createPlayer('a', 100), createPlayer('b', 200)],
+  removedPlayers: [],
+  dotsAdded: [{ id: 'd1', position: { x: 10, y: 10 }, size: 10, value: 2 }],
+  dotsRemoved: []
+};
+
+describe('GameStateDecoder', () => {
+  let decoder: GameStateDecoder;
+
+  beforeEach(() => {
+    decoder = new GameStateDecoder();
+  });
+
+  test('rebuilds a full state from a keyframe', () => {
+    const state = decoder.apply(keyframe)!;
+
+    expect(state.tick).toBe(1);
+    expect(state.arena).toEqual({ width: 800, height: 600 });
+    expect(state.players.map(p => [p.id, p.spinner.position.x, p.isHost])).toEqual([['a', 100, true], ['b', 200, false]]);
+    expect(state.dots.map(d => d.id)).toEqual(['d1']);
+  });
+
+  test('applies changed fields, removals and dot events on top of the baseline', () => {
+    decoder.apply(keyframe);
+
+    const state = decoder.apply({
+      tick: 2,
+      baseTick: 1,
+      timeElapsed: 0.2,
+      players: [{ id: 'a', position: { x: 110, y: 100 }, lastProcessedInput: 4 }],
+      removedPlayers: ['b'],
+      dotsAdded: [{ id: 'd2', position: { x: 20, y: 20 }, size: 10, value: 2 }],
+      dotsRemoved: ['d1']
+    })!;
+
+    expect(state.players).toHaveLength(1);
+    expect(state.players[0]).toEqual(expect.objectContaining({ id: 'a', name: 'a', score: 25, lastProcessedInput: 4 }));
+    expect(state.players[0].spinner.position).toEqual({ x: 110, y: 100 });
+    expect(state.dots.map(d => d.id)).toEqual(['d2']);
+    expect(state.arena).toEqual({ width: 800, height: 600 });
+  });
+
+  test('refuses a delta whose baseline it never saw', () => {
+    expect(decoder.apply({ ...keyframe, tick: 5, baseTick: 4, arena: undefined })).toBeNull();
+  });
+
+  test('a keyframe drops baselines from before it', () => {
+    decoder.apply(keyframe);
+    decoder.apply({ ...keyframe, tick: 10 });
+
+    expect(decoder.apply({ ...keyframe, tick: 11, baseTick: 1, arena: undefined })).toBeNull();
+    expect(decoder.apply({ ...keyframe, tick: 11, baseTick: 10, arena: undefined })).not.toBeNull();
+  });
+});
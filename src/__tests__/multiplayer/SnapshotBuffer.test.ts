@@ -0,0 +1,109 @@
+/**
+ * Tests for the remote player jitter buffer
+ */
+
+import { SnapshotBuffer } from '../../multiplayer/SnapshotBuffer';
+import { GamePhase, MultiplayerGameState, MultiplayerPlayer } from '../../types';
+
+const createPlayer = (id: string, x: number, rotation: number = 0, isCurrentPlayer: boolean = false): MultiplayerPlayer => ({
+  id,
+  name: id,
+  spinner: {
+    position: { x, y: 100 },
+    velocity: { x: 100, y: 0 },
+    targetDirection: { x: 1, y: 0 },
+    size: 25,
+    spinSpeed: Math.PI,
+    rotation,
+    maxSpeed: 200
+  },
+  score: 25,
+  isAlive: true,
+  isCurrentPlayer
+});
+
+const createState = (players: MultiplayerPlayer[]): MultiplayerGameState => ({
+  phase: GamePhase.PLAYING,
+  players,
+  dots: [],
+  score: 25,
+  timeElapsed: 0,
+  arena: { width: 800, height: 600 }
+});
+
+describe('SnapshotBuffer', () => {
+  let buffer: SnapshotBuffer;
+
+  const remoteX = (now: number) => buffer.sample(now)!.players.find(p => p.id === 'remote')!.spinner.position.x;
+
+  beforeEach(() => {
+    buffer = new SnapshotBuffer({ interpolationDelayMs: 100, maxExtrapolationMs: 200 });
+  });
+
+  test('returns nothing until a snapshot arrives', () => {
+    expect(buffer.sample(1000)).toBeNull();
+  });
+
+  test('interpolates remote players at the configured delay', () => {
+    buffer.push(createState([createPlayer('remote', 0)]), 1000, 1000);
+    buffer.push(createState([createPlayer('remote', 100)]), 1050, 1050);
+
+    expect(remoteX(1125)).toBe(50);
+  });
+
+  test('interpolates rotation along the shortest arc', () => {
+    buffer.push(createState([createPlayer('remote', 0, Math.PI * 2 - 0.2)]), 1000, 1000);
+    buffer.push(createState([createPlayer('remote', 0, 0.2)]), 1050, 1050);
+
+    const rotation = buffer.sample(1125)!.players[0].spinner.rotation;
+    expect(Math.cos(rotation)).toBeCloseTo(1);
+  });
+
+  test('draws the local player from the newest snapshot without delay', () => {
+    buffer.push(createState([createPlayer('me', 0, 0, true)]), 1000, 1000);
+    buffer.push(createState([createPlayer('me', 100, 0, true)]), 1050, 1050);
+
+    expect(buffer.sample(1060)!.players[0].spinner.position.x).toBe(100);
+  });
+
+  test('holds the oldest snapshot when rendering before the buffer starts', () => {
+    buffer.push(createState([createPlayer('remote', 10)]), 1000, 1000);
+    buffer.push(createState([createPlayer('remote', 20)]), 1050, 1050);
+
+    expect(remoteX(1020)).toBe(10);
+  });
+
+  test('extrapolates with velocity when the buffer runs dry, up to the cap', () => {
+    buffer.push(createState([createPlayer('remote', 0)]), 1000, 1000);
+
+    // 50ms past the newest snapshot at 100px/s
+    expect(remoteX(1150)).toBe(5);
+    // Capped at 200ms of extrapolation
+    expect(remoteX(2000)).toBe(20);
+  });
+
+  test('interpolates on the server timeline, smoothing out uneven arrivals', () => {
+    buffer.push(createState([createPlayer('remote', 0)]), 0, 1000);
+    // Taken 50ms after the first but held up 30ms on the way
+    buffer.push(createState([createPlayer('remote', 100)]), 50, 1080);
+    buffer.push(createState([createPlayer('remote', 200)]), 100, 1100);
+
+    expect(remoteX(1175)).toBe(150);
+  });
+
+  test('ignores snapshots older than the newest one', () => {
+    buffer.push(createState([createPlayer('remote', 100)]), 50, 1000);
+    buffer.push(createState([createPlayer('remote', 0)]), 0, 1010);
+
+    expect(buffer.size).toBe(1);
+  });
+
+  test('drops the oldest snapshots beyond its capacity', () => {
+    buffer = new SnapshotBuffer({ maxSnapshots: 3 });
+    for (let i = 0; i < 5; i++) {
+      buffer.push(createState([createPlayer('remote', i)]), 1000 + i * 50, 1000 + i * 50);
+    }
+
+    expect(buffer.size).toBe(3);
+  });
+});
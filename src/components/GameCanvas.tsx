@@ -53,20 +53,24 @@ export const GameCanvas: React.FC<GameCanvasProps> = React.memo(({
     }
   }
 
+  // Multiplayer rooms can change the arena size
+  const arenaWidth = gameState.arena?.width ?? GAME_CONFIG.ARENA_WIDTH;
+  const arenaHeight = gameState.arena?.height ?? GAME_CONFIG.ARENA_HEIGHT;
+
   // Calculate scale to fit arena in viewport
   const scale = useMemo(() => {
-    const scaleX = width / GAME_CONFIG.ARENA_WIDTH;
-    const scaleY = height / GAME_CONFIG.ARENA_HEIGHT;
+    const scaleX = width / arenaWidth;
+    const scaleY = height / arenaHeight;
     const calculatedScale = Math.min(scaleX, scaleY, 1);
     console.log('📏 Canvas scale calculation:', { scaleX, scaleY, finalScale: calculatedScale });
     return calculatedScale;
-  }, [width, height]);
+  }, [width, height, arenaWidth, arenaHeight]);
 
   // Calculate viewport offset to center arena
   const viewportOffset = useMemo(() => ({
-    x: (width - GAME_CONFIG.ARENA_WIDTH * scale) / 2,
-    y: (height - GAME_CONFIG.ARENA_HEIGHT * scale) / 2,
-  }), [width, height, scale]);
+    x: (width - arenaWidth * scale) / 2,
+    y: (height - arenaHeight * scale) / 2,
+  }), [width, height, scale, arenaWidth, arenaHeight]);
 
   /**
    * Transforms game world coordinates to screen coordinates
@@ -100,8 +104,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = React.memo(({
         <Rect
           x={viewportOffset.x}
           y={viewportOffset.y}
-          width={GAME_CONFIG.ARENA_WIDTH * scale}
-          height={GAME_CONFIG.ARENA_HEIGHT * scale}
+          width={arenaWidth * scale}
+          height={arenaHeight * scale}
           fill={COLORS.BACKGROUND}
           stroke={COLORS.UI_TEXT}
           strokeWidth={2}
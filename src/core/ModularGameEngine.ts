@@ -138,6 +138,7 @@ export class ModularGameEngine {
   // Game state
   private timeElapsed: number = 0;
   private lastUpdateTime: number = 0;
+  private isPredictionOnly: boolean = false; // Only the local player of a server-run match is simulated
 
   constructor() {
     // Initialize ECS world
@@ -148,7 +149,7 @@ export class ModularGameEngine {
     // Initialize systems
     this.physicsSystem = new PhysicsSystem(this.world);
     this.collisionSystem = new CollisionSystem(this.world);
-    this.networkSystem = new NetworkSystem(this.world);
+    this.networkSystem = new NetworkSystem(this.world, this.physicsSystem);
 
     // Add systems to world
     this.world.addSystem(this.physicsSystem);
@@ -239,6 +240,23 @@ export class ModularGameEngine {
     console.log(`✅ Multiplayer game started with ${players.length} players`);
   }
 
+  /**
+   * Predict the local player of a match the server runs.
+   * Only that spinner is simulated, the server owns the dots, collisions between players and the outcome.
+   */
+  public startPrediction(playerId: string, playerName: string, position: Vector2): void {
+    this.stateManager.forceTransition(GamePhase.PLAYING, 'Multiplayer prediction start');
+    this.clearGameState();
+    this.isPredictionOnly = true;
+
+    const entityId = this.entityFactory.createPlayerSpinner(playerId, playerName, position, true);
+    this.currentPlayerEntity = entityId;
+    this.playerEntities.set(playerId, entityId);
+    this.networkSystem.enableClientPrediction(entityId);
+
+    this.lastUpdateTime = Date.now();
+  }
+
   /**
    * Update game systems
    */
@@ -251,6 +269,8 @@ export class ModularGameEngine {
     // Update all ECS systems
     this.world.update(deltaTime);
 
+    if (this.isPredictionOnly) return;
+
     // Maintain collectible count
     this.maintainCollectibles();
 
@@ -260,24 +280,28 @@ export class ModularGameEngine {
 
   /**
    * Handle player input
+   * @returns Sequence number to send with the input for the local player, 0 otherwise
    */
-  public setSpinnerDirection(direction: Vector2, playerId?: string): void {
-    if (this.stateManager.getCurrentPhase() !== GamePhase.PLAYING) return;
+  public setSpinnerDirection(direction: Vector2, playerId?: string): number {
+    if (this.stateManager.getCurrentPhase() !== GamePhase.PLAYING) return 0;
 
     const entityId = playerId 
       ? this.playerEntities.get(playerId) 
       : this.currentPlayerEntity;
 
-    if (!entityId) return;
+    if (!entityId) return 0;
+
+    let sequenceNumber = 0;
 
     // For local player, record input for client prediction
     if (entityId === this.currentPlayerEntity) {
-      const sequenceNumber = this.networkSystem.recordInput(entityId, direction);
+      sequenceNumber = this.networkSystem.recordInput(entityId, direction);
       console.log(`🎯 Input recorded: seq ${sequenceNumber}, direction: (${direction.x.toFixed(2)}, ${direction.y.toFixed(2)})`);
     }
 
     // Apply input through physics system
     this.physicsSystem.setTargetDirection(entityId, direction);
+    return sequenceNumber;
   }
 
   /**
@@ -419,13 +443,16 @@ export class ModularGameEngine {
   }
 
   /**
-   * Process server update for multiplayer reconciliation
+   * Process server update for multiplayer reconciliation.
+   * acknowledgedSequence is the player's lastProcessedInput from GAME_STATE; inputs after it are replayed.
+   * stateTime is when the server simulated the state, on this client's clock.
    */
   public processServerUpdate(
     playerId: string, 
     serverPosition: Vector2, 
     serverVelocity: Vector2, 
-    acknowledgedSequence: number
+    acknowledgedSequence: number,
+    stateTime: number = Date.now()
   ): void {
     const entityId = this.playerEntities.get(playerId);
     if (!entityId) return;
@@ -435,10 +462,23 @@ export class ModularGameEngine {
       serverPosition,
       serverVelocity,
       acknowledgedSequence,
-      Date.now()
+      stateTime
     );
   }
 
+  /**
+   * Take a player's size and speed from the server, they change through collisions only the server sees
+   */
+  public syncPlayerSpinner(playerId: string, size: number, maxSpeed: number): void {
+    const entityId = this.playerEntities.get(playerId);
+    if (!entityId) return;
+
+    const spinner = this.world.getComponent<SpinnerComponent>(entityId, COMPONENT_TYPES.SPINNER);
+    const velocity = this.world.getComponent<VelocityComponent>(entityId, COMPONENT_TYPES.VELOCITY);
+    if (spinner) spinner.size = size;
+    if (velocity) velocity.maxSpeed = maxSpeed;
+  }
+
   /**
    * Reset game to menu state
    */
@@ -479,6 +519,7 @@ export class ModularGameEngine {
     this.collectibleEntities.clear();
     this.currentPlayerEntity = null;
     this.timeElapsed = 0;
+    this.isPredictionOnly = false;
   }
 
   private generateInitialDots(): void {
@@ -2,14 +2,28 @@
  * Network System - Client prediction, server reconciliation, and lag compensation
  */
 
-import { System } from '../ECS';
+import { System, World } from '../ECS';
 import { 
   COMPONENT_TYPES, 
   NetworkComponent, 
   PositionComponent, 
+  SpinnerComponent,
   VelocityComponent 
 } from '../components';
+import { PhysicsSystem } from './PhysicsSystem';
 import { Vector2 } from '../../types';
+import { magnitude, scale, subtract } from '../../utils/math';
+
+// Step size used when re-simulating inputs, the server's fixed tick
+const REPLAY_TIMESTEP = 1 / 60;
+// Never replay more than this many steps for a single input
+const MAX_REPLAY_STEPS_PER_INPUT = 60;
+// Corrections smaller than this are ignored
+const CORRECTION_THRESHOLD = 1;
+// Corrections larger than this are snapped instead of smoothed
+const SNAP_THRESHOLD = 150;
+// Fraction of the remaining correction applied each frame
+const CORRECTION_BLEND = 0.25;
 
 interface InputFrame {
   sequenceNumber: number;
@@ -30,9 +44,17 @@ export class NetworkSystem extends System {
   readonly requiredComponents = [COMPONENT_TYPES.NETWORK];
 
   private inputBuffer: Map<number, InputFrame[]> = new Map(); // entityId -> inputs
+  private acknowledgedInputs: Map<number, InputFrame> = new Map(); // entityId -> newest input the server has applied
   private serverUpdates: Map<number, ServerUpdate[]> = new Map(); // entityId -> updates
+  private correctionOffsets: Map<number, Vector2> = new Map(); // entityId -> error still to smooth out
   private clientPredictionEnabled = true;
   private reconciliationEnabled = true;
+  private physicsSystem: PhysicsSystem;
+
+  constructor(world: World, physicsSystem: PhysicsSystem = new PhysicsSystem(world)) {
+    super(world);
+    this.physicsSystem = physicsSystem;
+  }
 
   update(deltaTime: number): void {
     if (!this.clientPredictionEnabled) return;
@@ -48,10 +70,8 @@ export class NetworkSystem extends System {
     const network = this.world.getComponent<NetworkComponent>(entityId, COMPONENT_TYPES.NETWORK);
     if (!network || !network.clientPredicted) return;
 
-    // Process server reconciliation
-    if (this.reconciliationEnabled) {
-      this.reconcileWithServer(entityId);
-    }
+    // Ease out whatever is left of the last correction
+    this.applyCorrectionSmoothing(entityId);
 
     // Clean old inputs and updates
     this.cleanOldData(entityId);
@@ -95,7 +115,8 @@ export class NetworkSystem extends System {
   }
 
   /**
-   * Process server update and perform reconciliation
+   * Process server update and perform reconciliation.
+   * timestamp is when, on this client's clock, the server simulated the state
    */
   processServerUpdate(
     entityId: number, 
@@ -137,93 +158,129 @@ export class NetworkSystem extends System {
   }
 
   /**
-   * Reconcile client prediction with server state
+   * Reconcile client prediction with server state:
+   * rewind to the authoritative state, replay every unacknowledged input, then smooth the difference
    */
   private reconcileWithServer(entityId: number): void {
     const network = this.world.getComponent<NetworkComponent>(entityId, COMPONENT_TYPES.NETWORK);
     const position = this.world.getComponent<PositionComponent>(entityId, COMPONENT_TYPES.POSITION);
     const velocity = this.world.getComponent<VelocityComponent>(entityId, COMPONENT_TYPES.VELOCITY);
+    const spinner = this.world.getComponent<SpinnerComponent>(entityId, COMPONENT_TYPES.SPINNER);
     
     if (!network || !position || !velocity) return;
 
-    const inputBuffer = this.inputBuffer.get(entityId);
     const serverUpdates = this.serverUpdates.get(entityId);
-    
-    if (!inputBuffer || !serverUpdates || serverUpdates.length === 0) return;
+    if (!serverUpdates || serverUpdates.length === 0) return;
 
     // Get latest server update
     const latestUpdate = serverUpdates[serverUpdates.length - 1];
-    
-    // Find the input that corresponds to this server update
-    const acknowledgedInputIndex = inputBuffer.findIndex(
-      input => input.sequenceNumber === latestUpdate.sequenceNumber
-    );
-    
-    if (acknowledgedInputIndex === -1) return;
 
-    // Calculate prediction error
-    const acknowledgedInput = inputBuffer[acknowledgedInputIndex];
-    const positionError = {
-      x: latestUpdate.position.x - acknowledgedInput.position.x,
-      y: latestUpdate.position.y - acknowledgedInput.position.y
-    };
-    
-    const errorMagnitude = Math.sqrt(positionError.x ** 2 + positionError.y ** 2);
-    const errorThreshold = 5; // pixels
-
-    if (errorMagnitude > errorThreshold) {
-      console.log(`Reconciling entity ${entityId}: error = ${errorMagnitude.toFixed(2)}px`);
-      
-      // Apply server correction
-      position.position = { ...latestUpdate.position };
-      velocity.velocity = { ...latestUpdate.velocity };
-
-      // Re-apply unacknowledged inputs
-      const unacknowledgedInputs = inputBuffer.slice(acknowledgedInputIndex + 1);
-      this.reapplyInputs(entityId, unacknowledgedInputs);
+    // Everything the server has applied is settled, the rest still needs predicting
+    const inputs = this.inputBuffer.get(entityId) ?? [];
+    const appliedInputs = inputs.filter(input => input.sequenceNumber <= latestUpdate.sequenceNumber);
+    const pendingInputs = inputs.filter(input => input.sequenceNumber > latestUpdate.sequenceNumber);
+    if (appliedInputs.length > 0) {
+      this.acknowledgedInputs.set(entityId, appliedInputs[appliedInputs.length - 1]);
+    }
+    this.inputBuffer.set(entityId, pendingInputs);
+
+    // The server keeps steering with the newest input it has, even when no new ones are sent
+    const acknowledgedInput = this.acknowledgedInputs.get(entityId);
+    const heldDirection = acknowledgedInput && acknowledgedInput.sequenceNumber <= latestUpdate.sequenceNumber
+      ? acknowledgedInput.direction
+      : { x: 0, y: 0 };
+
+    // Where we are showing the spinner right now, including any correction still being smoothed
+    const predictedPosition = { ...position.position };
+    const predictedVelocity = { ...velocity.velocity };
+    const currentTarget = { ...velocity.targetDirection };
+    const previousPosition = position.previousPosition;
+    const rotation = spinner?.rotation;
+
+    // Snap to the authoritative state and re-simulate from when it was taken up to now
+    position.position = { ...latestUpdate.position };
+    velocity.velocity = { ...latestUpdate.velocity };
+    this.replayInputs(entityId, heldDirection, latestUpdate.timestamp, pendingInputs, Date.now());
+
+    // Replay only re-derives movement, leave render interpolation and spin alone
+    velocity.targetDirection = currentTarget;
+    position.previousPosition = previousPosition;
+    if (spinner && rotation !== undefined) {
+      spinner.rotation = rotation;
+    }
+
+    const error = subtract(predictedPosition, position.position);
+    const errorMagnitude = magnitude(error);
+
+    if (errorMagnitude < CORRECTION_THRESHOLD) {
+      // Prediction was right, keep it untouched
+      position.position = predictedPosition;
+      velocity.velocity = predictedVelocity;
+      return;
     }
 
-    // Remove acknowledged inputs
-    this.inputBuffer.set(entityId, inputBuffer.slice(acknowledgedInputIndex + 1));
+    if (errorMagnitude > SNAP_THRESHOLD) {
+      this.correctionOffsets.delete(entityId);
+      return;
+    }
+
+    // Keep showing the predicted position and fold the error out over the next few frames
+    position.position = predictedPosition;
+    this.correctionOffsets.set(entityId, error);
   }
 
   /**
-   * Re-apply unacknowledged inputs for client prediction
+   * Re-simulate movement from the current state, taken at `from`, up to `now` in fixed steps.
+   * PhysicsSystem moves predicted entities with the server's movement step; collisions are left to the server.
+   * heldDirection is steered until the first pending input, then each input until the next one.
+   * An input the server has not applied yet cannot have taken effect before `from`.
    */
-  private reapplyInputs(entityId: number, inputs: InputFrame[]): void {
-    const position = this.world.getComponent<PositionComponent>(entityId, COMPONENT_TYPES.POSITION);
-    const velocity = this.world.getComponent<VelocityComponent>(entityId, COMPONENT_TYPES.VELOCITY);
-    
-    if (!position || !velocity) return;
+  private replayInputs(entityId: number, heldDirection: Vector2, from: number, inputs: InputFrame[], now: number): void {
+    let time = from;
+    let direction = heldDirection;
 
     for (const input of inputs) {
-      // Simple physics step (should match server physics)
-      const deltaTime = 0.016; // Assume 60 FPS
-      
-      // Apply input direction
-      velocity.targetDirection = { ...input.direction };
-      
-      // Apply acceleration (simplified)
-      if (input.direction.x !== 0 || input.direction.y !== 0) {
-        const magnitude = Math.sqrt(input.direction.x ** 2 + input.direction.y ** 2);
-        const normalized = {
-          x: input.direction.x / magnitude,
-          y: input.direction.y / magnitude
-        };
-        
-        const acceleration = 800; // Should match server config
-        velocity.velocity.x += normalized.x * acceleration * deltaTime;
-        velocity.velocity.y += normalized.y * acceleration * deltaTime;
-      }
-      
-      // Apply damping
-      const damping = 0.95;
-      velocity.velocity.x *= damping;
-      velocity.velocity.y *= damping;
-      
-      // Update position
-      position.position.x += velocity.velocity.x * deltaTime;
-      position.position.y += velocity.velocity.y * deltaTime;
+      const issuedAt = Math.max(input.timestamp, time);
+      this.simulate(entityId, direction, issuedAt - time);
+      time = issuedAt;
+      direction = input.direction;
+    }
+
+    this.simulate(entityId, direction, now - time);
+  }
+
+  /**
+   * Steer in one direction for the given number of milliseconds
+   */
+  private simulate(entityId: number, direction: Vector2, durationMs: number): void {
+    const velocity = this.world.getComponent<VelocityComponent>(entityId, COMPONENT_TYPES.VELOCITY);
+    if (!velocity) return;
+
+    const steps = Math.min(Math.round(durationMs / 1000 / REPLAY_TIMESTEP), MAX_REPLAY_STEPS_PER_INPUT);
+
+    velocity.targetDirection = { ...direction };
+    for (let step = 0; step < steps; step++) {
+      this.physicsSystem.updateEntityPhysics(entityId, REPLAY_TIMESTEP);
+    }
+  }
+
+  /**
+   * Move a blend of the outstanding correction onto the entity's position
+   */
+  private applyCorrectionSmoothing(entityId: number): void {
+    const offset = this.correctionOffsets.get(entityId);
+    const position = this.world.getComponent<PositionComponent>(entityId, COMPONENT_TYPES.POSITION);
+    if (!offset || !position) return;
+
+    const step = scale(offset, CORRECTION_BLEND);
+    position.position = subtract(position.position, step);
+
+    const remaining = subtract(offset, step);
+    if (magnitude(remaining) < CORRECTION_THRESHOLD / 10) {
+      position.position = subtract(position.position, remaining);
+      this.correctionOffsets.delete(entityId);
+    } else {
+      this.correctionOffsets.set(entityId, remaining);
     }
   }
 
@@ -277,6 +334,7 @@ export class NetworkSystem extends System {
     serverUpdateCount: number;
     lastSequence: number;
     lastAcknowledged: number;
+    pendingCorrection: number;
   } | null {
     const network = this.world.getComponent<NetworkComponent>(entityId, COMPONENT_TYPES.NETWORK);
     if (!network) return null;
@@ -285,7 +343,8 @@ export class NetworkSystem extends System {
       inputBufferSize: this.inputBuffer.get(entityId)?.length || 0,
       serverUpdateCount: this.serverUpdates.get(entityId)?.length || 0,
       lastSequence: network.sequenceNumber,
-      lastAcknowledged: network.lastAcknowledged
+      lastAcknowledged: network.lastAcknowledged,
+      pendingCorrection: magnitude(this.correctionOffsets.get(entityId) ?? { x: 0, y: 0 })
     };
   }
 
@@ -3,9 +3,10 @@
  */
 
 import { System } from '../ECS';
-import { COMPONENT_TYPES, PositionComponent, VelocityComponent, PhysicsComponent, SpinnerComponent } from '../components';
+import { COMPONENT_TYPES, PositionComponent, VelocityComponent, PhysicsComponent, SpinnerComponent, NetworkComponent } from '../components';
 import { add, scale, normalize, createVector2 } from '../../utils/math';
 import { GAME_CONFIG } from '../../types';
+import { stepSpinnerMovement } from '../../../server/src/movement';
 
 export class PhysicsSystem extends System {
   readonly requiredComponents = [
@@ -21,7 +22,10 @@ export class PhysicsSystem extends System {
     }
   }
 
-  private updateEntityPhysics(entityId: number, deltaTime: number): void {
+  /**
+   * Advance a single entity by deltaTime (also used to replay predicted inputs)
+   */
+  updateEntityPhysics(entityId: number, deltaTime: number): void {
     const position = this.world.getComponent<PositionComponent>(entityId, COMPONENT_TYPES.POSITION);
     const velocity = this.world.getComponent<VelocityComponent>(entityId, COMPONENT_TYPES.VELOCITY);
     const physics = this.world.getComponent<PhysicsComponent>(entityId, COMPONENT_TYPES.PHYSICS);
@@ -35,6 +39,22 @@ export class PhysicsSystem extends System {
     // Skip physics for static objects
     if (physics?.isStatic) return;
 
+    // Predicted multiplayer entities move exactly like the server simulates them
+    const network = this.world.getComponent<NetworkComponent>(entityId, COMPONENT_TYPES.NETWORK);
+    if (network?.clientPredicted) {
+      const body = {
+        position: position.position,
+        velocity: velocity.velocity,
+        targetDirection: velocity.targetDirection,
+        maxSpeed: velocity.maxSpeed
+      };
+      stepSpinnerMovement(body, deltaTime);
+      position.position = body.position;
+      velocity.velocity = body.velocity;
+      this.updateSpinnerRotation(spinner, deltaTime);
+      return;
+    }
+
     // Apply acceleration towards target direction
     if (velocity.targetDirection.x !== 0 || velocity.targetDirection.y !== 0) {
       const acceleration = scale(
@@ -72,11 +92,18 @@ export class PhysicsSystem extends System {
     position.position = add(position.position, movement);
 
     // Update spinner rotation if applicable
-    if (spinner) {
-      spinner.rotation += spinner.spinSpeed * deltaTime;
-      if (spinner.rotation > Math.PI * 2) {
-        spinner.rotation -= Math.PI * 2;
-      }
+    this.updateSpinnerRotation(spinner, deltaTime);
+  }
+
+  /**
+   * Spin a spinner, keeping its rotation within one turn
+   */
+  private updateSpinnerRotation(spinner: SpinnerComponent | null, deltaTime: number): void {
+    if (!spinner) return;
+
+    spinner.rotation += spinner.spinSpeed * deltaTime;
+    if (spinner.rotation > Math.PI * 2) {
+      spinner.rotation -= Math.PI * 2;
     }
   }
 
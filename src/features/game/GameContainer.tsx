@@ -9,7 +9,7 @@ import { GameEngine } from './GameEngine';
 import { GameCanvas } from '@components/GameCanvas';
 import { useGameLoop } from '@hooks/useGameLoop';
 import { useInputHandler } from '@hooks/useInputHandler';
-import { GameState, MultiplayerGameState, GamePhase, Vector2 } from '../../types';
+import { GameState, MultiplayerGameState, GamePhase, Vector2, GAME_CONFIG } from '../../types';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -30,6 +30,8 @@ interface GameContainerProps {
   isMultiplayer?: boolean;
   /** Multiplayer game state (overrides engine state for rendering) */
   multiplayerGameState?: MultiplayerGameState;
+  /** World position to centre the camera on (spectator camera) */
+  cameraTarget?: Vector2;
 }
 
 /**
@@ -45,6 +47,7 @@ export const GameContainer: React.FC<GameContainerProps> = ({
   onGameEngineReady,
   isMultiplayer = false,
   multiplayerGameState,
+  cameraTarget,
 }) => {
   // Game engine instance (use external ref if provided, otherwise create new)
   const internalEngineRef = useRef<GameEngine>(new GameEngine());
@@ -198,9 +201,17 @@ export const GameContainer: React.FC<GameContainerProps> = ({
 
   // Camera offset for following spinner (optional enhancement)
   const cameraOffset = useMemo(() => {
-    // For now, keep camera static. Could add smooth following later
-    return { x: 0, y: 0 };
-  }, []);
+    // Static unless something asks the camera to follow a position
+    if (!cameraTarget) {
+      return { x: 0, y: 0 };
+    }
+
+    const arena = multiplayerGameState?.arena ?? { width: GAME_CONFIG.ARENA_WIDTH, height: GAME_CONFIG.ARENA_HEIGHT };
+    return {
+      x: cameraTarget.x - arena.width / 2,
+      y: cameraTarget.y - arena.height / 2,
+    };
+  }, [cameraTarget, multiplayerGameState?.arena]);
 
   return (
     <View style={styles.container}>
@@ -0,0 +1,98 @@
+/**
+ * NTP-style estimate of the server clock from TIME_SYNC round trips
+ */
+
+export interface ClockSyncSample {
+  /** Client clock when the request was sent */
+  clientSendTime: number;
+  /** Server clock when it answered */
+  serverTime: number;
+  /** Client clock when the reply arrived */
+  clientReceiveTime: number;
+}
+
+export interface ClockSyncOptions {
+  /** Round trips kept for the estimate */
+  maxSamples?: number;
+  /** Offsets further than this from the median of the fastest round trips are ignored (ms) */
+  maxOffsetDeviationMs?: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Clock Sync
+ * Each sample gives a round trip time and a clock offset, assuming the request and reply took equally long.
+ * Slow round trips are the least reliable for that assumption, so only the fastest half of the samples
+ * is used, and offsets that still disagree with the rest are rejected before taking the median.
+ */
+export class ClockSync {
+  private samples: Array<{ rtt: number; offset: number }> = [];
+  private maxSamples: number;
+  private maxOffsetDeviationMs: number;
+  private offsetMs: number = 0;
+  private rttMs: number = 0;
+
+  constructor(options: ClockSyncOptions = {}) {
+    this.maxSamples = options.maxSamples ?? 8;
+    this.maxOffsetDeviationMs = options.maxOffsetDeviationMs ?? 50;
+  }
+
+  /**
+   * Add a completed round trip and update the estimate
+   */
+  addSample(sample: ClockSyncSample): void {
+    const rtt = sample.clientReceiveTime - sample.clientSendTime;
+    if (rtt < 0) return;
+
+    this.samples.push({
+      rtt,
+      offset: sample.serverTime - (sample.clientSendTime + rtt / 2)
+    });
+
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+
+    this.updateEstimate();
+  }
+
+  /**
+   * Current time on the server's clock
+   */
+  serverTime(now: number = Date.now()): number {
+    return Math.round(now + this.offsetMs);
+  }
+
+  /**
+   * Forget all samples (e.g. after reconnecting)
+   */
+  reset(): void {
+    this.samples = [];
+    this.offsetMs = 0;
+    this.rttMs = 0;
+  }
+
+  private updateEstimate(): void {
+    const fastest = [...this.samples]
+      .sort((a, b) => a.rtt - b.rtt)
+      .slice(0, Math.ceil(this.samples.length / 2));
+
+    const typicalOffset = median(fastest.map(s => s.offset));
+    const agreeing = fastest.filter(s => Math.abs(s.offset - typicalOffset) <= this.maxOffsetDeviationMs);
+    const consistent = agreeing.length > 0 ? agreeing : fastest;
+
+    this.offsetMs = median(consistent.map(s => s.offset));
+    this.rttMs = median(consistent.map(s => s.rtt));
+  }
+
+  // Getters
+  get offset(): number { return this.offsetMs; }
+  get rtt(): number { return this.rttMs; }
+  get sampleCount(): number { return this.samples.length; }
+  get isSynced(): boolean { return this.samples.length > 0; }
+}
@@ -0,0 +1,100 @@
+/**
+ * Rebuilds full game states from the server's delta-compressed GAME_STATE messages
+ */
+
+import type { Dot, GameStateDelta, NetPlayerState } from '../../server/src/types';
+import type { MultiplayerGameState, MultiplayerPlayerData } from './NetworkManager';
+
+export type { GameStateDelta, NetPlayerState };
+
+interface DecodedState {
+  timeElapsed: number;
+  arena: { width: number; height: number };
+  players: Map<string, NetPlayerState>;
+  dots: Map<string, Dot>;
+}
+
+// Should cover the server's baseline history
+const MAX_DECODED_HISTORY = 64;
+
+/**
+ * Game State Decoder
+ * Keeps the states it has decoded by tick so later deltas can be applied on top of them
+ */
+export class GameStateDecoder {
+  private history = new Map<number, DecodedState>(); // tick -> decoded state
+
+  /**
+   * Apply a GAME_STATE payload.
+   * Returns null when the baseline it refers to is unknown, in which case a keyframe should be requested.
+   */
+  apply(delta: GameStateDelta): MultiplayerGameState | null {
+    let base: DecodedState | null = null;
+
+    if (delta.baseTick === null) {
+      // A keyframe replaces everything, including states from a previous match
+      this.history.clear();
+    } else {
+      base = this.history.get(delta.baseTick) ?? null;
+      if (!base) return null;
+    }
+
+    const arena = delta.arena ?? base?.arena;
+    if (!arena) return null;
+
+    const players = new Map(base?.players);
+    for (const change of delta.players) {
+      players.set(change.id, { ...players.get(change.id), ...change } as NetPlayerState);
+    }
+    delta.removedPlayers.forEach(playerId => players.delete(playerId));
+
+    const dots = new Map(base?.dots);
+    delta.dotsAdded.forEach(dot => dots.set(dot.id, dot));
+    delta.dotsRemoved.forEach(dotId => dots.delete(dotId));
+
+    const state: DecodedState = { timeElapsed: delta.timeElapsed, arena, players, dots };
+    this.history.set(delta.tick, state);
+
+    for (const tick of this.history.keys()) {
+      if (tick <= delta.tick - MAX_DECODED_HISTORY) {
+        this.history.delete(tick);
+      }
+    }
+
+    return {
+      tick: delta.tick,
+      players: Array.from(players.values()).map(toPlayerData),
+      dots: Array.from(dots.values()),
+      timeElapsed: state.timeElapsed,
+      arena
+    };
+  }
+
+  /**
+   * Forget all decoded states (e.g. after a disconnect)
+   */
+  reset(): void {
+    this.history.clear();
+  }
+}
+
+const toPlayerData = (player: NetPlayerState): MultiplayerPlayerData => ({
+  id: player.id,
+  name: player.name,
+  spinner: {
+    position: player.position,
+    velocity: player.velocity,
+    // Not sent, only the server needs to know where a spinner is steering
+    targetDirection: { x: 0, y: 0 },
+    size: player.size,
+    spinSpeed: player.spinSpeed,
+    rotation: player.rotation,
+    maxSpeed: player.maxSpeed
+  },
+  score: player.score,
+  isAlive: player.isAlive,
+  isHost: player.isHost,
+  isConnected: player.isConnected,
+  isBot: player.isBot,
+  lastProcessedInput: player.lastProcessedInput
+});
@@ -3,35 +3,81 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, Alert, StyleSheet } from 'react-native';
-import { NetworkManager, MultiplayerPlayerData, RoomState } from './NetworkManager';
+import { View, Text, TextInput, TouchableOpacity, Alert, StyleSheet, ScrollView } from 'react-native';
+import { 
+  NetworkManager, 
+  MultiplayerPlayerData, 
+  RoomState, 
+  SessionResumedData, 
+  RoomExpiredData, 
+  RoomSummary,
+  QueueStatusData,
+  MatchCountdownData,
+  BotDifficulty,
+  SpectatingData,
+  RoomSettings,
+  ErrorCode,
+  ServerError
+} from './NetworkManager';
+
+const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+interface RoomSettingField {
+  key: keyof RoomSettings;
+  label: string;
+  step: number;
+}
+
+// Rules the host can tweak from the lobby; the server enforces the allowed ranges
+const ROOM_SETTING_FIELDS: RoomSettingField[] = [
+  { key: 'maxPlayers', label: 'Max players', step: 1 },
+  { key: 'arenaWidth', label: 'Arena width', step: 100 },
+  { key: 'arenaHeight', label: 'Arena height', step: 100 },
+  { key: 'dotCount', label: 'Dots', step: 5 },
+  { key: 'eliminationRatio', label: 'Size needed to eliminate', step: 0.1 },
+  { key: 'killGrowthRatio', label: 'Growth per kill', step: 0.1 },
+  { key: 'bounceBoost', label: 'Wall bounce', step: 0.1 },
+];
 
 interface LobbyScreenProps {
   networkManager: NetworkManager;
   onGameStarted: () => void;
   onBackToMainMenu?: () => void;
+  onShowProfile?: () => void;
+  initialRoom?: RoomState | null;
 }
 
 export const LobbyScreen: React.FC<LobbyScreenProps> = ({ 
   networkManager, 
   onGameStarted,
-  onBackToMainMenu 
+  onBackToMainMenu,
+  onShowProfile,
+  initialRoom = null
 }) => {
   const [playerName, setPlayerName] = useState('');
   const [roomCode, setRoomCode] = useState('');
-  const [currentRoom, setCurrentRoom] = useState<RoomState | null>(null);
+  const [roomSecret, setRoomSecret] = useState('');
+  const [isPrivateRoom, setIsPrivateRoom] = useState(false);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [publicRooms, setPublicRooms] = useState<RoomSummary[]>([]);
+  const [currentRoom, setCurrentRoom] = useState<RoomState | null>(initialRoom);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatusData | null>(null);
+  const [countdownSeconds, setCountdownSeconds] = useState<number | null>(null);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
 
   useEffect(() => {
     // Set up network event listeners
-    const handleRoomCreated = (data: { roomCode: string; playerId: string }) => {
+    const handleRoomCreated = (data: { roomCode: string; playerId: string; inviteToken: string | null }) => {
       console.log('Room created:', data.roomCode);
       setIsConnecting(false);
+      setInviteToken(data.inviteToken);
     };
 
     const handleRoomJoined = (data: { roomCode: string; playerId: string; players: MultiplayerPlayerData[] }) => {
       console.log('Joined room:', data.roomCode);
       setIsConnecting(false);
+      setQueueStatus(null);
       setCurrentRoom({
         roomCode: data.roomCode,
         players: data.players,
@@ -40,6 +86,25 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
       });
     };
 
+    const handleSessionResumed = (data: SessionResumedData) => {
+      console.log('Resumed room:', data.roomCode);
+      setIsConnecting(false);
+      setCurrentRoom({
+        roomCode: data.roomCode,
+        players: data.players,
+        isPlaying: data.isPlaying,
+        phase: data.isPlaying ? 'playing' : 'lobby'
+      });
+    };
+
+    // Joined a match in progress, watch it until the next round
+    const handleSpectating = (data: SpectatingData) => {
+      console.log('Spectating room:', data.roomCode);
+      setIsConnecting(false);
+      setQueueStatus(null);
+      onGameStarted();
+    };
+
     const handleRoomState = (data: RoomState) => {
       setCurrentRoom(data);
     };
@@ -66,33 +131,100 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
 
     const handleGameStarted = () => {
       console.log('Game started!');
+      setCountdownSeconds(null);
       onGameStarted();
     };
 
-    const handleError = (data: { message: string }) => {
+    const handleQueueStatus = (data: QueueStatusData) => {
+      setQueueStatus(data);
+    };
+
+    const handleQueueLeft = () => {
+      setQueueStatus(null);
+    };
+
+    const handleMatchCountdown = (data: MatchCountdownData) => {
+      setCountdownSeconds(data.secondsRemaining);
+    };
+
+    const handleMatchCountdownCancelled = () => {
+      setCountdownSeconds(null);
+    };
+
+    const handleRoomExpired = (data: RoomExpiredData) => {
+      Alert.alert('Room Closed', data.message);
+      setCurrentRoom(null);
+    };
+
+    const handleError = (data: ServerError) => {
+      // MultiplayerApp handles the errors that end the session
+      if (data.code === ErrorCode.PROTOCOL_MISMATCH || data.code === ErrorCode.KICKED) return;
+
       Alert.alert('Error', data.message);
       setIsConnecting(false);
     };
 
     networkManager.on('ROOM_CREATED', handleRoomCreated);
     networkManager.on('ROOM_JOINED', handleRoomJoined);
+    networkManager.on('SESSION_RESUMED', handleSessionResumed);
+    networkManager.on('SPECTATING', handleSpectating);
     networkManager.on('ROOM_STATE', handleRoomState);
     networkManager.on('PLAYER_JOINED', handlePlayerJoined);
     networkManager.on('PLAYER_LEFT', handlePlayerLeft);
     networkManager.on('GAME_STARTED', handleGameStarted);
+    networkManager.on('ROOM_EXPIRED', handleRoomExpired);
+    networkManager.on('QUEUE_STATUS', handleQueueStatus);
+    networkManager.on('QUEUE_LEFT', handleQueueLeft);
+    networkManager.on('MATCH_COUNTDOWN', handleMatchCountdown);
+    networkManager.on('MATCH_COUNTDOWN_CANCELLED', handleMatchCountdownCancelled);
     networkManager.on('ERROR', handleError);
 
     return () => {
       networkManager.off('ROOM_CREATED', handleRoomCreated);
       networkManager.off('ROOM_JOINED', handleRoomJoined);
+      networkManager.off('SESSION_RESUMED', handleSessionResumed);
+      networkManager.off('SPECTATING', handleSpectating);
       networkManager.off('ROOM_STATE', handleRoomState);
       networkManager.off('PLAYER_JOINED', handlePlayerJoined);
       networkManager.off('PLAYER_LEFT', handlePlayerLeft);
       networkManager.off('GAME_STARTED', handleGameStarted);
+      networkManager.off('ROOM_EXPIRED', handleRoomExpired);
+      networkManager.off('QUEUE_STATUS', handleQueueStatus);
+      networkManager.off('QUEUE_LEFT', handleQueueLeft);
+      networkManager.off('MATCH_COUNTDOWN', handleMatchCountdown);
+      networkManager.off('MATCH_COUNTDOWN_CANCELLED', handleMatchCountdownCancelled);
       networkManager.off('ERROR', handleError);
     };
   }, [networkManager, onGameStarted]);
 
+  // Tick the matchmade start countdown down once a second
+  useEffect(() => {
+    if (countdownSeconds === null || countdownSeconds <= 0) return;
+
+    const timer = setTimeout(() => {
+      setCountdownSeconds(prev => (prev === null ? null : prev - 1));
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [countdownSeconds]);
+
+  // Keep the public room list live while we are browsing
+  useEffect(() => {
+    if (currentRoom) return;
+
+    const handleRoomList = (data: { rooms: RoomSummary[] }) => {
+      setPublicRooms(data.rooms);
+    };
+
+    networkManager.on('ROOM_LIST', handleRoomList);
+    networkManager.listRooms(true);
+
+    return () => {
+      networkManager.off('ROOM_LIST', handleRoomList);
+      networkManager.unsubscribeRoomList();
+    };
+  }, [networkManager, currentRoom]);
+
   const handleCreateRoom = () => {
     if (!playerName.trim()) {
       Alert.alert('Error', 'Please enter your name');
@@ -100,7 +232,34 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
     }
 
     setIsConnecting(true);
-    networkManager.createRoom(playerName.trim());
+    networkManager.createRoom(playerName.trim(), {
+      isPrivate: isPrivateRoom,
+      password: isPrivateRoom && roomSecret ? roomSecret : undefined
+    });
+  };
+
+  const handleQuickPlay = () => {
+    if (!playerName.trim()) {
+      Alert.alert('Error', 'Please enter your name');
+      return;
+    }
+
+    networkManager.quickPlay(playerName.trim());
+  };
+
+  const handleLeaveQueue = () => {
+    setQueueStatus(null);
+    networkManager.leaveQueue();
+  };
+
+  const handleJoinPublicRoom = (code: string) => {
+    if (!playerName.trim()) {
+      Alert.alert('Error', 'Please enter your name');
+      return;
+    }
+
+    setIsConnecting(true);
+    networkManager.joinRoom(code, playerName.trim());
   };
 
   const handleJoinRoom = () => {
@@ -109,45 +268,130 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
       return;
     }
 
-    if (!roomCode.trim() || roomCode.trim().length !== 4) {
-      Alert.alert('Error', 'Please enter a valid 4-digit room code');
+    if (!/^[A-Za-z0-9]+$/.test(roomCode.trim())) {
+      Alert.alert('Error', 'Please enter a valid room code');
       return;
     }
 
+    // The same field takes either the room password or an invite code
     setIsConnecting(true);
-    networkManager.joinRoom(roomCode.trim(), playerName.trim());
+    networkManager.joinRoom(roomCode.trim(), playerName.trim(), roomSecret ? {
+      password: roomSecret,
+      inviteToken: roomSecret
+    } : {});
   };
 
   const handleStartGame = () => {
     networkManager.startGame();
   };
 
+  const handleAddBot = () => {
+    networkManager.addBot(botDifficulty);
+  };
+
+  const handleCycleBotDifficulty = () => {
+    setBotDifficulty(prev => BOT_DIFFICULTIES[(BOT_DIFFICULTIES.indexOf(prev) + 1) % BOT_DIFFICULTIES.length]);
+  };
+
+  const handleChangeSetting = (field: RoomSettingField, direction: 1 | -1) => {
+    if (!currentRoom?.settings) return;
+
+    // Round away floating point drift from the 0.1 steps
+    const value = Math.round((currentRoom.settings[field.key] + field.step * direction) * 100) / 100;
+    networkManager.updateRoomSettings({ [field.key]: value });
+  };
+
   const handleLeaveRoom = () => {
     setCurrentRoom(null);
-    networkManager.disconnect();
-    // Reconnect for new session
-    networkManager.connect().catch(console.error);
+    setInviteToken(null);
+    setCountdownSeconds(null);
+    networkManager.leaveRoom();
   };
 
   if (currentRoom) {
     // In room - show lobby
-    const currentPlayer = currentRoom.players.find(p => p.isHost);
+    const currentPlayer = currentRoom.players.find(p => p.id === networkManager.currentPlayerId);
     const isHost = currentPlayer?.isHost || false;
+    const maxPlayers = currentRoom.settings?.maxPlayers ?? 4;
 
     return (
       <View style={styles.container}>
-        <Text style={styles.title}>Room: {currentRoom.roomCode}</Text>
+        <Text style={styles.title}>Room: {currentRoom.roomCode} {currentRoom.isPrivate ? '🔒' : ''}</Text>
+
+        {inviteToken && (
+          <Text style={styles.inviteText} selectable>Invite code: {inviteToken}</Text>
+        )}
         
-        <Text style={styles.subtitle}>Players ({currentRoom.players.length}/4):</Text>
+        <Text style={styles.subtitle}>Players ({currentRoom.players.length}/{maxPlayers}):</Text>
         
         {currentRoom.players.map((player, index) => (
-          <View key={player.id} style={styles.playerItem}>
+          <View key={player.id} style={[styles.playerItem, styles.playerRow]}>
             <Text style={styles.playerName}>
-              {player.name} {player.isHost ? '👑' : ''}
+              {player.name} {player.isHost ? '👑' : ''}{player.isBot ? `🤖 ${player.botDifficulty ?? ''}` : ''}
             </Text>
+
+            {isHost && player.isBot && (
+              <TouchableOpacity onPress={() => networkManager.removeBot(player.id)}>
+                <Text style={styles.removeBotText}>✕</Text>
+              </TouchableOpacity>
+            )}
           </View>
         ))}
 
+        {!!currentRoom.spectators?.length && (
+          <Text style={styles.roomDetails}>
+            Watching: {currentRoom.spectators.map(s => s.name).join(', ')}
+          </Text>
+        )}
+
+        {currentRoom.settings && (
+          <View style={styles.settingsPanel}>
+            {ROOM_SETTING_FIELDS.map(field => (
+              <View key={field.key} style={styles.settingRow}>
+                <Text style={styles.roomDetails}>{field.label}</Text>
+
+                <View style={styles.settingControls}>
+                  {isHost && (
+                    <TouchableOpacity onPress={() => handleChangeSetting(field, -1)}>
+                      <Text style={styles.settingButtonText}>−</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  <Text style={styles.settingValue}>{currentRoom.settings![field.key]}</Text>
+
+                  {isHost && (
+                    <TouchableOpacity onPress={() => handleChangeSetting(field, 1)}>
+                      <Text style={styles.settingButtonText}>+</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {isHost && currentRoom.players.length < maxPlayers && (
+          <View style={styles.botControls}>
+            <TouchableOpacity 
+              style={[styles.joinButton, styles.botButton]}
+              onPress={handleAddBot}
+            >
+              <Text style={styles.joinButtonText}>ADD BOT</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.toggle}
+              onPress={handleCycleBotDifficulty}
+            >
+              <Text style={styles.toggleText}>Difficulty: {botDifficulty}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {countdownSeconds !== null && (
+          <Text style={styles.countdownText}>Match starting in {countdownSeconds}...</Text>
+        )}
+
         {isHost && currentRoom.players.length >= 2 && (
           <TouchableOpacity 
             style={styles.button}
@@ -167,6 +411,32 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
     );
   }
 
+  if (queueStatus) {
+    // Waiting in the quick-play queue
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Finding a match...</Text>
+
+        <Text style={styles.subtitle}>
+          Position {queueStatus.position} of {queueStatus.queueSize}
+        </Text>
+
+        <Text style={styles.roomDetails}>
+          {queueStatus.estimatedWaitSeconds > 0
+            ? `Estimated wait: ~${queueStatus.estimatedWaitSeconds}s`
+            : 'Match found, joining...'}
+        </Text>
+
+        <TouchableOpacity 
+          style={styles.leaveButton}
+          onPress={handleLeaveQueue}
+        >
+          <Text style={styles.buttonText}>CANCEL</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
   // Not in room - show join/create options
   return (
     <View style={styles.container}>
@@ -180,6 +450,34 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
         maxLength={20}
       />
 
+      <TouchableOpacity 
+        style={[styles.button, isConnecting && styles.buttonDisabled]}
+        onPress={handleQuickPlay}
+        disabled={isConnecting}
+      >
+        <Text style={styles.buttonText}>QUICK PLAY</Text>
+      </TouchableOpacity>
+
+      <View style={styles.divider} />
+
+      <TextInput
+        style={styles.input}
+        placeholder="Room password or invite code (optional)"
+        value={roomSecret}
+        onChangeText={setRoomSecret}
+        maxLength={32}
+        secureTextEntry
+      />
+
+      <TouchableOpacity 
+        style={styles.toggle}
+        onPress={() => setIsPrivateRoom(prev => !prev)}
+      >
+        <Text style={styles.toggleText}>
+          {isPrivateRoom ? '🔒 Private room' : '🌐 Public room'}
+        </Text>
+      </TouchableOpacity>
+
       <TouchableOpacity 
         style={[styles.button, isConnecting && styles.buttonDisabled]}
         onPress={handleCreateRoom}
@@ -197,8 +495,8 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
         placeholder="Enter room code"
         value={roomCode}
         onChangeText={setRoomCode}
-        maxLength={4}
-        keyboardType="numeric"
+        maxLength={8}
+        autoCapitalize="characters"
       />
 
       <TouchableOpacity 
@@ -211,6 +509,51 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
         </Text>
       </TouchableOpacity>
 
+      <View style={styles.divider} />
+
+      <Text style={styles.subtitle}>Open Rooms</Text>
+
+      <ScrollView style={styles.roomList}>
+        {publicRooms.length === 0 && (
+          <Text style={styles.emptyText}>No public rooms right now</Text>
+        )}
+
+        {publicRooms.map(room => {
+          const isJoinable = room.phase === 'lobby' && room.playerCount < room.maxPlayers;
+          const isWatchable = room.phase === 'playing';
+
+          return (
+            <View key={room.code} style={styles.roomItem}>
+              <View>
+                <Text style={styles.playerName}>{room.hostName}'s room ({room.code})</Text>
+                <Text style={styles.roomDetails}>
+                  {room.playerCount}/{room.maxPlayers} players{room.spectatorCount > 0 ? ` · ${room.spectatorCount} watching` : ''} · {room.phase === 'lobby' ? 'waiting' : 'in game'} · {Math.floor(room.ageSeconds / 60)}m
+                </Text>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.joinButton, (!(isJoinable || isWatchable) || isConnecting) && styles.buttonDisabled]}
+                onPress={() => handleJoinPublicRoom(room.code)}
+                disabled={!(isJoinable || isWatchable) || isConnecting}
+              >
+                <Text style={styles.joinButtonText}>
+                  {isJoinable ? 'JOIN' : isWatchable ? 'WATCH' : room.phase === 'lobby' ? 'FULL' : 'IN GAME'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {onShowProfile && (
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={onShowProfile}
+        >
+          <Text style={styles.buttonText}>MY STATS</Text>
+        </TouchableOpacity>
+      )}
+
       {onBackToMainMenu && (
         <TouchableOpacity 
           style={styles.backButton}
@@ -300,8 +643,115 @@ const styles = StyleSheet.create({
     marginBottom: 5,
     borderRadius: 5,
   },
+  playerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  settingsPanel: {
+    width: '100%',
+    marginTop: 10,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 5,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  settingControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  settingValue: {
+    color: '#FFF',
+    fontSize: 14,
+    minWidth: 50,
+    textAlign: 'center',
+  },
+  settingButtonText: {
+    color: '#00FF88',
+    fontSize: 20,
+    fontWeight: 'bold',
+    paddingHorizontal: 10,
+  },
+  removeBotText: {
+    color: '#FF4444',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  botControls: {
+    width: '100%',
+    marginTop: 10,
+  },
+  botButton: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
   playerName: {
     color: '#FFF',
     fontSize: 16,
   },
+  countdownText: {
+    color: '#00FF88',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 20,
+  },
+  inviteText: {
+    color: '#FFD700',
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  toggle: {
+    width: '100%',
+    padding: 10,
+    marginBottom: 15,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  toggleText: {
+    color: '#FFF',
+    fontSize: 16,
+  },
+  roomList: {
+    width: '100%',
+    maxHeight: 200,
+  },
+  roomItem: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 10,
+    backgroundColor: '#222',
+    marginBottom: 5,
+    borderRadius: 5,
+  },
+  roomDetails: {
+    color: '#AAA',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  joinButton: {
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    backgroundColor: '#00FF88',
+    borderRadius: 5,
+  },
+  joinButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
@@ -3,12 +3,22 @@
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { View, StyleSheet, Alert, Text } from 'react-native';
-import { NetworkManager, MultiplayerPlayerData } from './NetworkManager';
+import { View, StyleSheet, Alert, Text, TouchableOpacity } from 'react-native';
+import { 
+  NetworkManager, 
+  MultiplayerPlayerData, 
+  SessionResumedData, 
+  MatchResult, 
+  RematchVotesData, 
+  RoomState,
+  ErrorCode,
+  ServerError
+} from './NetworkManager';
 import { LobbyScreen } from './LobbyScreen';
 import { MultiplayerGameContainer } from './MultiplayerGameContainer';
+import { PlayerProfileScreen } from './PlayerProfileScreen';
 
-type AppState = 'connecting' | 'lobby' | 'playing' | 'game_over';
+type AppState = 'connecting' | 'lobby' | 'playing' | 'game_over' | 'profile';
 
 interface MultiplayerAppProps {
   onReturnToMainMenu?: () => void;
@@ -19,6 +29,9 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
 }) => {
   const [appState, setAppState] = useState<AppState>('connecting');
   const [winner, setWinner] = useState<MultiplayerPlayerData | null>(null);
+  const [results, setResults] = useState<MatchResult[]>([]);
+  const [rematchVotes, setRematchVotes] = useState<RematchVotesData | null>(null);
+  const [roomState, setRoomState] = useState<RoomState | null>(null);
   const networkManager = useRef(new NetworkManager());
 
   useEffect(() => {
@@ -31,6 +44,9 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
         setAppState('lobby');
       } catch (error) {
         console.error('❌ Failed to connect:', error);
+        // Already shown by handleServerError
+        if (networkManager.current.updateRequiredMessage) return;
+
         Alert.alert(
           'Connection Failed',
           'Could not connect to the multiplayer server. Please check if the server is running.',
@@ -44,9 +60,59 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
 
     connectToServer();
 
+    // Jump back into a match that was resumed after a dropped connection
+    const handleSessionResumed = (data: SessionResumedData) => {
+      console.log('🔁 Session resumed, match in progress:', data.isPlaying);
+      setAppState(data.isPlaying ? 'playing' : 'lobby');
+    };
+
+    // Track the room so the lobby can be restored after a match
+    const handleRoomState = (data: RoomState) => {
+      setRoomState(data);
+    };
+
+    const handleRoomClosed = () => {
+      setRoomState(null);
+    };
+
+    const handleRematchVotes = (data: RematchVotesData) => {
+      setRematchVotes(data);
+    };
+
+    // Errors that end the multiplayer session: the server refused our protocol version or kicked us
+    const handleServerError = (data: ServerError) => {
+      if (data.code === ErrorCode.KICKED) {
+        setRoomState(null);
+        Alert.alert('Removed from Match', data.message, [
+          { text: 'Back to Menu', onPress: () => onReturnToMainMenu?.() }
+        ]);
+        return;
+      }
+
+      if (data.code !== ErrorCode.PROTOCOL_MISMATCH) return;
+
+      Alert.alert('Update Required', data.message, [
+        { text: 'Back to Menu', onPress: () => onReturnToMainMenu?.() }
+      ]);
+    };
+
+    const manager = networkManager.current;
+    manager.on('SESSION_RESUMED', handleSessionResumed);
+    manager.on('ROOM_STATE', handleRoomState);
+    manager.on('REMATCH_VOTES', handleRematchVotes);
+    manager.on('ROOM_LEFT', handleRoomClosed);
+    manager.on('ROOM_EXPIRED', handleRoomClosed);
+    manager.on('ERROR', handleServerError);
+
     // Cleanup on unmount
     return () => {
-      networkManager.current.disconnect();
+      manager.off('SESSION_RESUMED', handleSessionResumed);
+      manager.off('ROOM_STATE', handleRoomState);
+      manager.off('REMATCH_VOTES', handleRematchVotes);
+      manager.off('ROOM_LEFT', handleRoomClosed);
+      manager.off('ROOM_EXPIRED', handleRoomClosed);
+      manager.off('ERROR', handleServerError);
+      manager.disconnect();
     };
   }, []);
 
@@ -55,18 +121,36 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
     setAppState('playing');
   };
 
-  const handleGameOver = (gameWinner: MultiplayerPlayerData | null) => {
+  const handleGameOver = (gameWinner: MultiplayerPlayerData | null, matchResults: MatchResult[]) => {
     console.log('🏁 Game over, winner:', gameWinner?.name || 'None');
     setWinner(gameWinner);
+    setResults(matchResults);
+    setRematchVotes(null);
     setAppState('game_over');
   };
 
   const handleReturnToLobby = () => {
     console.log('🏠 Returning to lobby');
     setWinner(null);
+    setResults([]);
+    setRematchVotes(null);
     setAppState('lobby');
   };
 
+  const handleVoteRematch = () => {
+    networkManager.current.voteRematch();
+  };
+
+  const handlePlayAgain = () => {
+    networkManager.current.returnToLobby();
+  };
+
+  const handleLeaveAfterMatch = () => {
+    networkManager.current.leaveRoom();
+    setRoomState(null);
+    handleReturnToLobby();
+  };
+
   const handleBackToMainMenu = () => {
     console.log('🏠 Returning to main menu');
     networkManager.current.disconnect();
@@ -86,8 +170,18 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
         return (
           <LobbyScreen
             networkManager={networkManager.current}
+            initialRoom={roomState}
             onGameStarted={handleGameStarted}
             onBackToMainMenu={handleBackToMainMenu}
+            onShowProfile={() => setAppState('profile')}
+          />
+        );
+
+      case 'profile':
+        return (
+          <PlayerProfileScreen
+            networkManager={networkManager.current}
+            onBack={() => setAppState('lobby')}
           />
         );
 
@@ -100,7 +194,13 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
           />
         );
 
-      case 'game_over':
+      case 'game_over': {
+        const playerId = networkManager.current.currentPlayerId;
+        const isHost = roomState?.players.some(p => p.id === playerId && p.isHost) ?? false;
+        const hasVoted = playerId !== null && (rematchVotes?.votes.includes(playerId) ?? false);
+        // Spectators play from the next round and do not vote
+        const isSpectator = !results.some(r => r.playerId === playerId);
+
         return (
           <View style={styles.centerContainer}>
             <Text style={styles.title}>Game Over!</Text>
@@ -109,25 +209,50 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({
             ) : (
               <Text style={styles.winnerText}>No Winner</Text>
             )}
-            <Text style={styles.subtitle}>Returning to lobby...</Text>
+
+            {results.map(result => (
+              <Text key={result.playerId} style={styles.resultText}>
+                {result.placement}. {result.name} - {Math.round(result.score)}
+              </Text>
+            ))}
+
+            {!isSpectator && (
+              <TouchableOpacity
+                style={[styles.button, hasVoted && styles.buttonDisabled]}
+                onPress={handleVoteRematch}
+                disabled={hasVoted}
+              >
+                <Text style={styles.buttonText}>
+                  {hasVoted ? 'WAITING FOR OTHERS' : 'REMATCH'}
+                  {rematchVotes ? ` (${rematchVotes.votes.length}/${rematchVotes.required})` : ''}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {isHost && (
+              <TouchableOpacity style={styles.button} onPress={handlePlayAgain}>
+                <Text style={styles.buttonText}>PLAY AGAIN</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.leaveButton} onPress={handleLeaveAfterMatch}>
+              <Text style={styles.buttonText}>LEAVE ROOM</Text>
+            </TouchableOpacity>
           </View>
         );
+      }
 
       default:
         return null;
     }
   };
 
-  // Auto return to lobby after game over
+  // Return to the lobby once the server has reset the room for the next round
   useEffect(() => {
-    if (appState === 'game_over') {
-      const timer = setTimeout(() => {
-        handleReturnToLobby();
-      }, 3000);
-      
-      return () => clearTimeout(timer);
+    if (appState === 'game_over' && roomState?.phase === 'lobby') {
+      handleReturnToLobby();
     }
-  }, [appState]);
+  }, [appState, roomState]);
 
   return (
     <View style={styles.container}>
@@ -167,4 +292,35 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textAlign: 'center',
   },
+  resultText: {
+    fontSize: 16,
+    color: '#FFF',
+    marginBottom: 5,
+  },
+  button: {
+    width: '100%',
+    height: 50,
+    backgroundColor: '#00FF88',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+    marginTop: 15,
+  },
+  buttonDisabled: {
+    backgroundColor: '#666',
+  },
+  buttonText: {
+    color: '#000',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  leaveButton: {
+    width: '100%',
+    height: 50,
+    backgroundColor: '#FF0000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+    marginTop: 20,
+  },
 });
\ No newline at end of file
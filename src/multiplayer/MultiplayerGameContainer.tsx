@@ -2,19 +2,22 @@
  * Multiplayer game container that integrates network state with local rendering
  */
 
-import React, { useEffect, useRef, useCallback, useState } from 'react';
-import { View, StyleSheet } from 'react-native';
+import React, { useEffect, useRef, useCallback, useState, useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { GameContainerWithRef } from '../features/game/GameContainer';
 import { GameEngine } from '../features/game/GameEngine';
-import { NetworkManager, MultiplayerGameState as NetworkMultiplayerGameState, MultiplayerPlayerData } from './NetworkManager';
+import { ModularGameEngine } from '../core/ModularGameEngine';
+import { NetworkManager, MultiplayerGameState as NetworkMultiplayerGameState, MultiplayerPlayerData, SessionResumedData, GameOverData, MatchResult } from './NetworkManager';
 import { Vector2, GameState, Spinner, Dot, GamePhase, MultiplayerGameState, MultiplayerPlayer } from '../types';
 import { createVector2 } from '../utils/math';
 import { GameContainerRef } from '../features/game/GameContainer';
 import { playerStateManager } from './PlayerStateManager';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import { useGameLoop } from '../hooks/useGameLoop';
 
 interface MultiplayerGameContainerProps {
   networkManager: NetworkManager;
-  onGameOver: (winner: MultiplayerPlayerData | null) => void;
+  onGameOver: (winner: MultiplayerPlayerData | null, results: MatchResult[]) => void;
   onReturnToLobby: () => void;
 }
 
@@ -26,18 +29,28 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
   const gameContainerRef = useRef<GameContainerRef>(null);
   const gameEngineRef = useRef<GameEngine>(new GameEngine());
   const [currentMultiplayerState, setCurrentMultiplayerState] = useState<MultiplayerGameState | null>(null);
+  const [spectatedPlayerId, setSpectatedPlayerId] = useState<string | null>(null);
+  const isSpectatingRef = useRef(false);
+  const snapshotBufferRef = useRef(new SnapshotBuffer());
+  // Predicts our own spinner from local input, corrected by the server's acknowledged inputs
+  const predictionEngineRef = useRef(new ModularGameEngine());
+  const predictedPlayerIdRef = useRef<string | null>(null);
+
+  // A new match, a finished one or our elimination: the next state starts prediction afresh
+  const stopPrediction = useCallback(() => {
+    if (predictedPlayerIdRef.current === null) return;
+
+    predictedPlayerIdRef.current = null;
+    predictionEngineRef.current.resetToMenu();
+  }, []);
 
   // Convert multiplayer state to local game state format with all players
   const convertToLocalGameState = useCallback((
     networkState: NetworkMultiplayerGameState,
     currentPlayerId: string
   ): MultiplayerGameState => {
-    // Find current player
+    // Find current player (missing when we joined as a spectator)
     const currentPlayer = networkState.players.find(p => p.id === currentPlayerId);
-    
-    if (!currentPlayer) {
-      throw new Error('Current player not found in multiplayer state');
-    }
 
     // Convert all players to local format
     const players: MultiplayerPlayer[] = networkState.players.map(player => ({
@@ -69,9 +82,9 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
       phase: GamePhase.PLAYING,
       players,
       dots,
-      score: currentPlayer.score,
+      score: currentPlayer?.score ?? 0,
       timeElapsed: networkState.timeElapsed,
-      arena: {
+      arena: networkState.arena ?? {
         width: 800,
         height: 600
       }
@@ -104,15 +117,38 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
         // Convert to local multiplayer format
         const localMultiplayerState = convertToLocalGameState(data, currentPlayerId);
         
-        // Store multiplayer state for rendering
-        setCurrentMultiplayerState(localMultiplayerState);
+        // Buffer the snapshot on the server's timeline (simulated time, one fixed step per tick),
+        // the render loop below draws remote players slightly in the past
+        snapshotBufferRef.current.push(localMultiplayerState, data.timeElapsed * 1000);
         
-        // Create compatibility layer for GameEngine (uses current player as main spinner)
+        // Spectators and eliminated players watch through the spectator camera
         const currentPlayer = localMultiplayerState.players.find(p => p.isCurrentPlayer);
+        isSpectatingRef.current = !currentPlayer || !currentPlayer.isAlive;
+
         if (!currentPlayer) {
-          console.error('❌ Current player not found in local state');
           return;
         }
+
+        // Rewind to the server's state for our spinner and replay the inputs it has not applied yet
+        const prediction = predictionEngineRef.current;
+        const serverPlayer = data.players.find(p => p.id === currentPlayerId)!;
+        if (!currentPlayer.isAlive) {
+          stopPrediction();
+        } else {
+          if (predictedPlayerIdRef.current !== currentPlayerId) {
+            prediction.startPrediction(currentPlayerId, currentPlayer.name, currentPlayer.spinner.position);
+            predictedPlayerIdRef.current = currentPlayerId;
+          }
+          prediction.syncPlayerSpinner(currentPlayerId, serverPlayer.spinner.size, serverPlayer.spinner.maxSpeed);
+          // The state left the server about half a round trip ago
+          prediction.processServerUpdate(
+            currentPlayerId,
+            serverPlayer.spinner.position,
+            serverPlayer.spinner.velocity,
+            serverPlayer.lastProcessedInput ?? 0,
+            Date.now() - networkManager.roundTripTime / 2
+          );
+        }
         
         const engineCompatibleState: GameState = {
           phase: localMultiplayerState.phase,
@@ -139,18 +175,42 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
       // Visual feedback could be added here
     };
 
-    const handleGameOver = (data: { winner: MultiplayerPlayerData | null }) => {
+    const handleGameOver = (data: GameOverData) => {
+      stopPrediction();
       const currentPlayerId = playerStateManager.getPlayerId();
       console.log('🏆 Game over received:', {
         winner: data.winner ? { id: data.winner.id, name: data.winner.name } : null,
         currentPlayerId: currentPlayerId,
         isCurrentPlayerWinner: data.winner?.id === currentPlayerId
       });
-      onGameOver(data.winner);
+      onGameOver(data.winner, data.results);
     };
 
     const handleDisconnected = () => {
       console.log('Disconnected from server');
+
+      // Stay in the match while the network manager tries to resume our session
+      if (networkManager.canResumeSession) {
+        console.log('🔁 Waiting for session resume...');
+        return;
+      }
+
+      onReturnToLobby();
+    };
+
+    const handleSessionResumed = (data: SessionResumedData) => {
+      playerStateManager.setPlayerId(data.playerId);
+      if (!data.isPlaying) {
+        onReturnToLobby();
+      }
+    };
+
+    const handleSessionResumeFailed = () => {
+      onReturnToLobby();
+    };
+
+    const handleRoomExpired = () => {
+      console.log('⏰ Room expired during match');
       onReturnToLobby();
     };
 
@@ -163,6 +223,10 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
       playerStateManager.setPlayerId(data.playerId);
     };
 
+    const handleSpectating = (data: { playerId: string }) => {
+      playerStateManager.setPlayerId(data.playerId);
+    };
+
     const handleConnected = (data: { message: string; playerId: string }) => {
       console.log('🎯 MultiplayerGameContainer received connected event:', data);
       playerStateManager.setPlayerId(data.playerId);
@@ -171,6 +235,8 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
 
     const handleGameStarted = () => {
       console.log('🎮 Game started event received in MultiplayerGameContainer');
+      snapshotBufferRef.current.clear();
+      stopPrediction();
       // Ensure game engine is in playing state
       if (gameEngineRef.current) {
         gameEngineRef.current.startGame();
@@ -185,7 +251,11 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
     networkManager.on('disconnected', handleDisconnected);
     networkManager.on('ROOM_JOINED', handleRoomJoined);
     networkManager.on('ROOM_CREATED', handleRoomCreated);
+    networkManager.on('SPECTATING', handleSpectating);
     networkManager.on('connected', handleConnected);
+    networkManager.on('SESSION_RESUMED', handleSessionResumed);
+    networkManager.on('SESSION_RESUME_FAILED', handleSessionResumeFailed);
+    networkManager.on('ROOM_EXPIRED', handleRoomExpired);
 
     return () => {
       networkManager.off('GAME_STATE', handleGameState);
@@ -195,17 +265,71 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
       networkManager.off('disconnected', handleDisconnected);
       networkManager.off('ROOM_JOINED', handleRoomJoined);
       networkManager.off('ROOM_CREATED', handleRoomCreated);
+      networkManager.off('SPECTATING', handleSpectating);
       networkManager.off('connected', handleConnected);
+      networkManager.off('SESSION_RESUMED', handleSessionResumed);
+      networkManager.off('SESSION_RESUME_FAILED', handleSessionResumeFailed);
+      networkManager.off('ROOM_EXPIRED', handleRoomExpired);
     };
-  }, [networkManager, convertToLocalGameState, onGameOver, onReturnToLobby]);
+  }, [networkManager, convertToLocalGameState, stopPrediction, onGameOver, onReturnToLobby]);
+
+  // Render remote players from the jitter buffer instead of whichever packet arrived last
+  const renderBufferedState = useCallback((deltaTime: number) => {
+    // Our own spinner keeps moving between server states
+    predictionEngineRef.current.update(deltaTime);
+
+    const sampled = snapshotBufferRef.current.sample();
+    if (!sampled) return;
+
+    // Draw our own spinner where prediction has it, not where the server last saw it
+    const predictedPlayerId = predictedPlayerIdRef.current;
+    if (!predictedPlayerId) {
+      setCurrentMultiplayerState(sampled);
+      return;
+    }
+
+    const predicted = predictionEngineRef.current.getGameState().spinner;
+    setCurrentMultiplayerState({
+      ...sampled,
+      players: sampled.players.map(player => player.id === predictedPlayerId
+        ? { ...player, spinner: { ...player.spinner, position: predicted.position, velocity: predicted.velocity } }
+        : player)
+    });
+  }, []);
+
+  useGameLoop({ onUpdate: renderBufferedState, isActive: true });
+
+  // Alive players the spectator camera can follow, falling back to the first one
+  const spectatablePlayers = useMemo(() => 
+    currentMultiplayerState?.players.filter(p => p.isAlive && !p.isCurrentPlayer) ?? [],
+  [currentMultiplayerState]);
+
+  const isSpectating = !!currentMultiplayerState && 
+    !currentMultiplayerState.players.some(p => p.isCurrentPlayer && p.isAlive);
+
+  const spectatedPlayer = isSpectating
+    ? spectatablePlayers.find(p => p.id === spectatedPlayerId) ?? spectatablePlayers[0] ?? null
+    : null;
+
+  const cycleSpectatedPlayer = useCallback((step: number) => {
+    if (spectatablePlayers.length === 0) return;
+
+    const currentIndex = Math.max(0, spectatablePlayers.findIndex(p => p.id === spectatedPlayer?.id));
+    const nextIndex = (currentIndex + step + spectatablePlayers.length) % spectatablePlayers.length;
+    setSpectatedPlayerId(spectatablePlayers[nextIndex].id);
+  }, [spectatablePlayers, spectatedPlayer]);
 
   // Handle input and send to server
   const handleInput = useCallback((direction: Vector2) => {
-    // Send input to server for authoritative processing
-    networkManager.sendInput(direction);
-    
-    // Note: We rely on server-authoritative state, no client-side prediction
-    // This reduces complexity and prevents input conflicts
+    // Spectators have no spinner to steer
+    if (isSpectatingRef.current) return;
+
+    // Apply the input locally and number it, the server acknowledges inputs by the same number.
+    // Until the first state arrives there is nothing to predict from and no numbering to use.
+    const sequenceNumber = predictionEngineRef.current.setSpinnerDirection(direction);
+    if (sequenceNumber === 0) return;
+
+    networkManager.sendInput(direction, sequenceNumber);
   }, [networkManager]);
 
   const handleGameEngineReady = useCallback((engine: GameEngine) => {
@@ -223,7 +347,22 @@ export const MultiplayerGameContainer: React.FC<MultiplayerGameContainerProps> =
         onGameEngineReady={handleGameEngineReady}
         isMultiplayer={true}
         multiplayerGameState={currentMultiplayerState || undefined}
+        cameraTarget={spectatedPlayer?.spinner.position}
       />
+
+      {spectatedPlayer && (
+        <View style={styles.spectatorBar}>
+          <TouchableOpacity style={styles.spectatorArrow} onPress={() => cycleSpectatedPlayer(-1)}>
+            <Text style={styles.spectatorText}>◀</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.spectatorText}>👀 Spectating {spectatedPlayer.name}</Text>
+
+          <TouchableOpacity style={styles.spectatorArrow} onPress={() => cycleSpectatedPlayer(1)}>
+            <Text style={styles.spectatorText}>▶</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 };
@@ -232,4 +371,24 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  spectatorBar: {
+    position: 'absolute',
+    top: 40,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 5,
+  },
+  spectatorArrow: {
+    paddingHorizontal: 15,
+  },
+  spectatorText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
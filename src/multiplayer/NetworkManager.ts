@@ -3,7 +3,17 @@
  */
 
 import io, { Socket } from 'socket.io-client';
-import { Vector2, GamePhase } from '../types';
+import { GAME_CONFIG, Vector2 } from '../types';
+import { GameStateDecoder } from './GameStateDecoder';
+import { ClockSync } from './ClockSync';
+import { GameStateReader, encodePlayerInput } from '../../server/src/codec';
+import { ErrorCode, GuestAuthResponse, PROTOCOL_VERSION, ProtocolFeature, SUPPORTED_FEATURES, ServerError, ServerHello } from '../../server/src/protocol';
+import type { MatchParticipant, MatchRecord, PlayerProfile } from '../../server/src/types';
+import { loadGuestToken, saveGuestToken } from '../utils/storage';
+
+export { ErrorCode };
+export type { ServerError };
+export type { MatchParticipant, MatchRecord, PlayerProfile };
 
 export interface MultiplayerPlayerData {
   id: string;
@@ -20,9 +30,16 @@ export interface MultiplayerPlayerData {
   score: number;
   isAlive: boolean;
   isHost: boolean;
+  isConnected: boolean;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
+  /** Sequence number of the last PLAYER_INPUT the server applied (game state only) */
+  lastProcessedInput?: number;
 }
 
 export interface MultiplayerGameState {
+  /** Server simulation tick this state was taken at */
+  tick?: number;
   players: MultiplayerPlayerData[];
   dots: Array<{
     id: string;
@@ -31,13 +48,117 @@ export interface MultiplayerGameState {
     value: number;
   }>;
   timeElapsed: number;
+  arena?: {
+    width: number;
+    height: number;
+  };
+}
+
+export type RoomPhase = 'lobby' | 'playing' | 'game_over';
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface RoomSettings {
+  arenaWidth: number;
+  arenaHeight: number;
+  dotCount: number;
+  maxPlayers: number;
+  eliminationRatio: number;
+  killGrowthRatio: number;
+  bounceBoost: number;
+}
+
+export interface SpectatorData {
+  id: string;
+  name: string;
+  isConnected: boolean;
 }
 
 export interface RoomState {
   roomCode: string;
   players: MultiplayerPlayerData[];
   isPlaying: boolean;
-  phase: GamePhase;
+  phase: RoomPhase;
+  isPrivate?: boolean;
+  spectators?: SpectatorData[];
+  settings?: RoomSettings;
+}
+
+export interface RoomSummary {
+  code: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  phase: RoomPhase;
+  ageSeconds: number;
+}
+
+export interface CreateRoomOptions {
+  isPrivate?: boolean;
+  password?: string;
+  settings?: Partial<RoomSettings>;
+}
+
+export interface RoomCredentials {
+  password?: string;
+  inviteToken?: string;
+}
+
+export interface MatchResult {
+  playerId: string;
+  name: string;
+  score: number;
+  isAlive: boolean;
+  placement: number;
+}
+
+export interface GameOverData {
+  winner: MultiplayerPlayerData | null;
+  results: MatchResult[];
+}
+
+export interface RematchVotesData {
+  votes: string[];
+  required: number;
+}
+
+export interface SessionResumedData {
+  roomCode: string;
+  playerId: string;
+  sessionToken: string;
+  players: MultiplayerPlayerData[];
+  isPlaying: boolean;
+}
+
+export interface SpectatingData {
+  roomCode: string;
+  playerId: string;
+  sessionToken: string;
+  players: MultiplayerPlayerData[];
+}
+
+export interface RoomExpiredData {
+  roomCode: string;
+  reason: 'max_age' | 'inactive' | 'game_over_timeout' | 'lobby_idle';
+  message: string;
+}
+
+export interface QueueStatusData {
+  position: number;
+  queueSize: number;
+  estimatedWaitSeconds: number;
+}
+
+export interface MatchCountdownData {
+  roomCode: string;
+  startsAt: number;
+  secondsRemaining: number;
+}
+
+interface TimeSyncReply {
+  clientTime: number;
+  serverTime: number;
 }
 
 type NetworkEventHandler = (...args: any[]) => void;
@@ -46,21 +167,80 @@ export class NetworkManager {
   private socket: Socket | null = null;
   private eventHandlers: Map<string, NetworkEventHandler[]> = new Map();
   private isConnected: boolean = false;
+  private sessionToken: string | null = null;
+  private playerId: string | null = null;
+  private inputSequence: number = 0;
+  private stateReader = new GameStateReader();
+  private stateDecoder = new GameStateDecoder();
+  private clockSync = new ClockSync();
+  private clockSyncTimers: ReturnType<typeof setTimeout>[] = [];
+  private features: ProtocolFeature[] = [];
+  private protocolError: string | null = null;
+  private guestToken: string | null = null;
+  private serverUrl: string | null = null;
 
   /**
-   * Connect to the server
+   * Sign in as a guest and connect to the server
    */
   async connect(serverUrl: string = 'http://localhost:3001'): Promise<boolean> {
+    this.serverUrl = serverUrl;
+    await this.signIn(serverUrl);
+
     return new Promise((resolve, reject) => {
-      this.socket = io(serverUrl);
+      // Read on every (re)connection attempt, signing in again once the server has rejected our token
+      this.socket = io(serverUrl, {
+        auth: (callback: (data: object) => void) => {
+          if (this.guestToken) {
+            callback({ token: this.guestToken });
+            return;
+          }
+
+          this.signIn(serverUrl)
+            .catch(error => console.error('❌ Guest sign in failed:', error))
+            .finally(() => callback({ token: this.guestToken }));
+        }
+      });
 
+      // Say which protocol we speak before anything else, the server ignores us until then
       this.socket.on('connect', () => {
         console.log('🔗 Connected to multiplayer server');
+        this.socket?.emit('HELLO', { protocolVersion: PROTOCOL_VERSION, features: SUPPORTED_FEATURES });
+      });
+
+      this.socket.on('HELLO_ACK', (data: ServerHello) => {
+        console.log(`🤝 Handshake accepted (protocol ${data.protocolVersion}):`, data.features.join(', '));
         this.isConnected = true;
+        this.features = data.features;
+        this.protocolError = null;
+
+        if (this.hasFeature(ProtocolFeature.CLOCK_SYNC)) {
+          this.startClockSync();
+        }
+
+        // Reclaim our player if this is a reconnect mid-session
+        if (this.sessionToken) {
+          console.log('🔁 Attempting to resume session');
+          this.socket?.emit('RESUME_SESSION', { sessionToken: this.sessionToken });
+        }
+
         resolve(true);
       });
 
-      this.socket.on('connect_error', (error: Error) => {
+      // The server will not talk to this version of the app
+      this.socket.on('ERROR', (data: ServerError) => {
+        if (data.code !== ErrorCode.PROTOCOL_MISMATCH) return;
+
+        console.error('❌ Protocol mismatch:', data.message);
+        this.protocolError = data.message;
+        reject(new Error(data.message));
+      });
+
+      this.socket.on('connect_error', (error: Error & { data?: ServerError }) => {
+        if (error.data?.code === ErrorCode.UNAUTHORIZED) {
+          // The auth callback signs in again before the next reconnection attempt
+          this.guestToken = null;
+        }
+
         console.error('❌ Failed to connect to server:', error);
         this.isConnected = false;
         reject(error);
@@ -69,11 +249,80 @@ export class NetworkManager {
       this.socket.on('disconnect', () => {
         console.log('🔌 Disconnected from server');
         this.isConnected = false;
+        this.features = [];
+        this.stopClockSync();
+        this.stateReader.reset();
+        this.stateDecoder.reset();
         this.emit('disconnected');
       });
 
+      this.socket.on('TIME_SYNC_REPLY', (data: TimeSyncReply) => {
+        this.clockSync.addSample({
+          clientSendTime: data.clientTime,
+          serverTime: data.serverTime,
+          clientReceiveTime: Date.now()
+        });
+      });
+
+      // Keep track of the session token so we can resume after a dropped connection
+      this.socket.on('ROOM_CREATED', (data: { playerId: string; sessionToken: string }) => {
+        this.playerId = data.playerId;
+        this.sessionToken = data.sessionToken;
+      });
+
+      this.socket.on('ROOM_JOINED', (data: { playerId: string; sessionToken: string }) => {
+        this.playerId = data.playerId;
+        this.sessionToken = data.sessionToken;
+      });
+
+      this.socket.on('SPECTATING', (data: SpectatingData) => {
+        this.playerId = data.playerId;
+        this.sessionToken = data.sessionToken;
+      });
+
+      this.socket.on('SESSION_RESUMED', (data: SessionResumedData) => {
+        console.log('✅ Session resumed in room', data.roomCode);
+        this.playerId = data.playerId;
+        this.sessionToken = data.sessionToken;
+      });
+
+      this.socket.on('SESSION_RESUME_FAILED', (data: { message: string }) => {
+        console.warn('⚠️ Could not resume session:', data.message);
+        this.sessionToken = null;
+      });
+
+      this.socket.on('ROOM_EXPIRED', (data: RoomExpiredData) => {
+        console.log(`⏰ Room ${data.roomCode} expired: ${data.reason}`);
+        this.sessionToken = null;
+      });
+
+      // Game state arrives binary encoded and delta-compressed, rebuild it and acknowledge the tick as our new baseline
+      this.socket.on('GAME_STATE', (payload: ArrayBuffer) => {
+        const delta = this.stateReader.decode(payload);
+        if (!delta) {
+          console.warn('⚠️ Could not decode game state, requesting keyframe');
+          this.socket?.emit('REQUEST_KEYFRAME');
+          return;
+        }
+
+        const state = this.stateDecoder.apply(delta);
+        if (!state) {
+          console.warn(`⚠️ Missing baseline tick ${delta.baseTick}, requesting keyframe`);
+          this.socket?.emit('REQUEST_KEYFRAME');
+          return;
+        }
+
+        if (this.hasFeature(ProtocolFeature.DELTA_STATE)) {
+          this.socket?.emit('STATE_ACK', { tick: delta.tick });
+        }
+        this.emit('GAME_STATE', state);
+      });
+
       // Forward all server messages to event handlers
       this.socket.onAny((eventName: string, ...args: any[]) => {
+        // Already forwarded once decoded
+        if (eventName === 'GAME_STATE') return;
+
         this.emit(eventName, ...args);
       });
 
@@ -90,6 +339,8 @@ export class NetworkManager {
    * Disconnect from server
    */
   disconnect(): void {
+    this.sessionToken = null;
+
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -100,17 +351,58 @@ export class NetworkManager {
   /**
    * Create a room
    */
-  createRoom(playerName: string): void {
+  createRoom(playerName: string, options: CreateRoomOptions = {}): void {
     if (!this.socket) return;
-    this.socket.emit('CREATE_ROOM', { playerName });
+    this.socket.emit('CREATE_ROOM', { playerName, ...options });
   }
 
   /**
    * Join a room by code
    */
-  joinRoom(roomCode: string, playerName: string): void {
+  joinRoom(roomCode: string, playerName: string, credentials: RoomCredentials = {}): void {
+    if (!this.socket) return;
+    this.socket.emit('JOIN_ROOM', { roomCode, playerName, ...credentials });
+  }
+
+  /**
+   * Join the quick-play queue and get placed in a room automatically
+   */
+  quickPlay(playerName: string): void {
+    if (!this.socket) return;
+    this.socket.emit('QUICK_PLAY', { playerName });
+  }
+
+  /**
+   * Leave the quick-play queue
+   */
+  leaveQueue(): void {
+    if (!this.socket) return;
+    this.socket.emit('LEAVE_QUEUE');
+  }
+
+  /**
+   * Request the public room list, optionally subscribing to live updates
+   */
+  listRooms(subscribe: boolean = false): void {
+    if (!this.socket) return;
+    this.socket.emit('LIST_ROOMS', { subscribe });
+  }
+
+  /**
+   * Stop receiving live room list updates
+   */
+  unsubscribeRoomList(): void {
+    if (!this.socket) return;
+    this.socket.emit('UNSUBSCRIBE_ROOM_LIST');
+  }
+
+  /**
+   * Leave the current room but stay connected
+   */
+  leaveRoom(): void {
+    this.sessionToken = null;
     if (!this.socket) return;
-    this.socket.emit('JOIN_ROOM', { roomCode, playerName });
+    this.socket.emit('LEAVE_ROOM');
   }
 
   /**
@@ -122,11 +414,58 @@ export class NetworkManager {
   }
 
   /**
-   * Send player input
+   * Change the room's game rules (host only, in the lobby)
+   */
+  updateRoomSettings(settings: Partial<RoomSettings>): void {
+    if (!this.socket) return;
+    this.socket.emit('UPDATE_ROOM_SETTINGS', { settings });
+  }
+
+  /**
+   * Add a bot to the lobby (host only)
+   */
+  addBot(difficulty?: BotDifficulty): void {
+    if (!this.socket) return;
+    this.socket.emit('ADD_BOT', { difficulty });
+  }
+
+  /**
+   * Remove a bot from the lobby (host only)
+   */
+  removeBot(botId: string): void {
+    if (!this.socket) return;
+    this.socket.emit('REMOVE_BOT', { botId });
+  }
+
+  /**
+   * Vote for a rematch after the match ends
+   */
+  voteRematch(): void {
+    if (!this.socket) return;
+    this.socket.emit('REMATCH_VOTE');
+  }
+
+  /**
+   * Send the whole room back to the lobby (host only)
    */
-  sendInput(direction: Vector2): void {
+  returnToLobby(): void {
     if (!this.socket) return;
-    this.socket.emit('PLAYER_INPUT', { direction, timestamp: Date.now() });
+    this.socket.emit('RETURN_TO_LOBBY');
+  }
+
+  /**
+   * Send player input, returning the sequence number the server will acknowledge it with.
+   * Pass the sequence number from the prediction system when it is tracking inputs itself.
+   */
+  sendInput(direction: Vector2, sequenceNumber?: number): number {
+    this.inputSequence = sequenceNumber ?? this.inputSequence + 1;
+
+    if (this.socket) {
+      // Stamped with server time so the server can tell how old the input is
+      this.socket.emit('PLAYER_INPUT', encodePlayerInput({ direction, timestamp: this.serverTime(), sequenceNumber: this.inputSequence }));
+    }
+
+    return this.inputSequence;
   }
 
   /**
@@ -152,6 +491,74 @@ export class NetworkManager {
     }
   }
 
+  /**
+   * Lifetime totals for a player, ourselves by default. Null if they have not finished a match yet.
+   */
+  getPlayerProfile(playerId: string | null = this.playerId): Promise<PlayerProfile | null> {
+    return this.fetchJson<PlayerProfile>(`/players/${encodeURIComponent(playerId ?? '')}`);
+  }
+
+  /**
+   * A player's finished matches, most recent first. Pass the last match's endedAt as `before` for the next page.
+   */
+  async getMatchHistory(playerId: string | null = this.playerId, limit?: number, before?: number): Promise<MatchRecord[]> {
+    const query = new URLSearchParams();
+    if (limit !== undefined) query.set('limit', String(limit));
+    if (before !== undefined) query.set('before', String(before));
+
+    const data = await this.fetchJson<{ matches: MatchRecord[] }>(`/players/${encodeURIComponent(playerId ?? '')}/matches?${query}`);
+    return data?.matches ?? [];
+  }
+
+  /**
+   * A single finished match
+   */
+  getMatch(matchId: string): Promise<MatchRecord | null> {
+    return this.fetchJson<MatchRecord>(`/matches/${encodeURIComponent(matchId)}`);
+  }
+
+  /**
+   * GET from the server's REST API, null if the resource does not exist
+   */
+  private async fetchJson<T>(path: string): Promise<T | null> {
+    if (!this.serverUrl) {
+      throw new Error('Not connected');
+    }
+
+    const response = await fetch(`${this.serverUrl}${path}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Request to ${path} failed (${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get a guest token from the server. A stored token is sent along so the server
+   * renews it and we keep the same player identity.
+   */
+  private async signIn(serverUrl: string): Promise<void> {
+    const storedToken = this.guestToken ?? await loadGuestToken();
+
+    const response = await fetch(`${serverUrl}/auth/guest`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: storedToken })
+    });
+    if (!response.ok) {
+      throw new Error(`Guest sign in failed (${response.status})`);
+    }
+
+    const data: GuestAuthResponse = await response.json();
+    this.guestToken = data.token;
+    this.playerId = data.playerId;
+    await saveGuestToken(data.token);
+    console.log('🪪 Signed in as', data.playerId);
+  }
+
   /**
    * Emit event to handlers
    */
@@ -169,29 +576,80 @@ export class NetworkManager {
   }
 
   /**
-   * Test connection with ping/pong
+   * Measure one round trip now. The sample also feeds the clock sync estimate.
+   * For a smoothed value use roundTripTime instead.
    */
   ping(): Promise<number> {
     return new Promise((resolve, reject) => {
-      if (!this.socket) {
+      const socket = this.socket;
+      if (!socket) {
         reject(new Error('Not connected'));
         return;
       }
 
-      const startTime = Date.now();
-      
-      this.socket.once('pong', () => {
-        resolve(Date.now() - startTime);
-      });
+      const clientTime = Date.now();
 
-      this.socket.emit('ping');
-
-      setTimeout(() => {
+      const timeout = setTimeout(() => {
+        socket.off('TIME_SYNC_REPLY', handleReply);
         reject(new Error('Ping timeout'));
       }, 5000);
+
+      const handleReply = (data: TimeSyncReply) => {
+        if (data.clientTime !== clientTime) return;
+
+        clearTimeout(timeout);
+        socket.off('TIME_SYNC_REPLY', handleReply);
+        resolve(Date.now() - clientTime);
+      };
+
+      socket.on('TIME_SYNC_REPLY', handleReply);
+      socket.emit('TIME_SYNC', { clientTime });
     });
   }
 
+  /**
+   * Current time on the server's clock, as estimated by clock sync
+   */
+  serverTime(now: number = Date.now()): number {
+    return this.clockSync.serverTime(now);
+  }
+
+  /**
+   * Whether the server agreed to use a protocol feature
+   */
+  hasFeature(feature: ProtocolFeature): boolean {
+    return this.features.includes(feature);
+  }
+
+  /**
+   * Sync the clock with a quick burst of round trips, then keep it in sync periodically
+   */
+  private startClockSync(): void {
+    this.stopClockSync();
+    this.clockSync.reset();
+
+    for (let i = 0; i < GAME_CONFIG.CLOCK_SYNC_BURST; i++) {
+      this.clockSyncTimers.push(setTimeout(() => this.sendTimeSync(), i * GAME_CONFIG.CLOCK_SYNC_BURST_SPACING_MS));
+    }
+    this.clockSyncTimers.push(setInterval(() => this.sendTimeSync(), GAME_CONFIG.CLOCK_SYNC_INTERVAL_MS));
+  }
+
+  private stopClockSync(): void {
+    this.clockSyncTimers.forEach(timer => clearTimeout(timer));
+    this.clockSyncTimers = [];
+  }
+
+  private sendTimeSync(): void {
+    this.socket?.emit('TIME_SYNC', { clientTime: Date.now() });
+  }
+
   // Getters
   get connected(): boolean { return this.isConnected; }
+  get canResumeSession(): boolean { return this.sessionToken !== null; }
+  get currentPlayerId(): string | null { return this.playerId; }
+  get roundTripTime(): number { return this.clockSync.rtt; }
+  get clockOffset(): number { return this.clockSync.offset; }
+  get isClockSynced(): boolean { return this.clockSync.isSynced; }
+  /** Set when the server rejected this client's protocol, the user needs to update the app */
+  get updateRequiredMessage(): string | null { return this.protocolError; }
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+/**
+ * Player profile screen: lifetime totals and recent matches
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { NetworkManager, PlayerProfile, MatchRecord } from './NetworkManager';
+
+interface PlayerProfileScreenProps {
+  networkManager: NetworkManager;
+  onBack: () => void;
+}
+
+export const PlayerProfileScreen: React.FC<PlayerProfileScreenProps> = ({
+  networkManager,
+  onBack
+}) => {
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [matches, setMatches] = useState<MatchRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const playerId = networkManager.currentPlayerId;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      try {
+        const [loadedProfile, loadedMatches] = await Promise.all([
+          networkManager.getPlayerProfile(),
+          networkManager.getMatchHistory()
+        ]);
+        if (cancelled) return;
+
+        setProfile(loadedProfile);
+        setMatches(loadedMatches);
+      } catch (loadError) {
+        console.error('❌ Failed to load player profile:', loadError);
+        if (!cancelled) setError('Could not load your stats. Please try again later.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadProfile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [networkManager]);
+
+  const renderMatch = (match: MatchRecord) => {
+    const self = match.participants.find(p => p.playerId === playerId);
+    if (!self) return null;
+
+    const won = match.winnerId === playerId;
+
+    return (
+      <View key={match.id} style={styles.matchItem}>
+        <View style={styles.matchRow}>
+          <Text style={[styles.placementText, won && styles.winText]}>
+            {won ? 'WIN' : `#${self.placement}`} of {match.participants.length}
+          </Text>
+          <Text style={styles.matchDetails}>{new Date(match.endedAt).toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.matchDetails}>
+          Size {Math.round(self.finalSize)} · {self.eliminations} eliminations · {Math.round((match.endedAt - match.startedAt) / 1000)}s
+        </Text>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <Text style={styles.subtitle}>Loading...</Text>;
+    }
+
+    if (error) {
+      return <Text style={styles.subtitle}>{error}</Text>;
+    }
+
+    if (!profile) {
+      return <Text style={styles.subtitle}>Finish a match to start tracking your stats</Text>;
+    }
+
+    const stats = [
+      { label: 'Matches', value: profile.matchesPlayed },
+      { label: 'Wins', value: profile.wins },
+      { label: 'Eliminations', value: profile.eliminations },
+      { label: 'Deaths', value: profile.deaths },
+      { label: 'Best Size', value: Math.round(profile.bestSize) },
+    ];
+
+    return (
+      <>
+        <Text style={styles.subtitle}>{profile.name}</Text>
+
+        <View style={styles.statsPanel}>
+          {stats.map(stat => (
+            <View key={stat.label} style={styles.statRow}>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+              <Text style={styles.statValue}>{stat.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Recent Matches</Text>
+        <ScrollView style={styles.matchList}>
+          {matches.map(renderMatch)}
+        </ScrollView>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>My Stats</Text>
+
+      {renderContent()}
+
+      <TouchableOpacity style={styles.backButton} onPress={onBack}>
+        <Text style={styles.buttonText}>BACK</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#000',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#00FF88',
+    marginBottom: 30,
+  },
+  subtitle: {
+    fontSize: 18,
+    color: '#FFF',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#00FF88',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  statsPanel: {
+    width: '100%',
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 5,
+  },
+  statRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  statLabel: {
+    color: '#AAA',
+    fontSize: 16,
+  },
+  statValue: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  matchList: {
+    width: '100%',
+    maxHeight: 250,
+  },
+  matchItem: {
+    width: '100%',
+    padding: 10,
+    backgroundColor: '#222',
+    marginBottom: 5,
+    borderRadius: 5,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  placementText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  winText: {
+    color: '#FFD700',
+  },
+  matchDetails: {
+    color: '#AAA',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  backButton: {
+    width: '100%',
+    height: 50,
+    backgroundColor: '#666',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 5,
+    marginTop: 20,
+  },
+  buttonText: {
+    color: '#000',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
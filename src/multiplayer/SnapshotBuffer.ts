@@ -0,0 +1,145 @@
+/**
+ * Jitter buffer that smooths remote players between server snapshots
+ */
+
+import { GAME_CONFIG, MultiplayerGameState, MultiplayerPlayer, Vector2 } from '../types';
+import { add, lerp, scale } from '../utils/math';
+
+interface TimedSnapshot {
+  /** When the server took the snapshot, on the server's timeline (ms) */
+  serverTime: number;
+  /** Arrival time minus serverTime, the network delay plus the gap between the two timelines */
+  offset: number;
+  state: MultiplayerGameState;
+}
+
+export interface SnapshotBufferOptions {
+  /** How far in the past remote players are rendered (ms) */
+  interpolationDelayMs?: number;
+  /** How far past the newest snapshot positions may be extrapolated (ms) */
+  maxExtrapolationMs?: number;
+  /** Snapshots kept before the oldest is dropped */
+  maxSnapshots?: number;
+}
+
+/**
+ * Interpolate between two angles along the shortest arc
+ */
+const lerpAngle = (from: number, to: number, t: number): number => {
+  const delta = Math.atan2(Math.sin(to - from), Math.cos(to - from));
+  return from + delta * t;
+};
+
+/**
+ * Snapshot Buffer
+ * Keeps GAME_STATE snapshots on the server's timeline and renders remote players a fixed delay in the past,
+ * interpolating between the snapshots either side and dead-reckoning when the buffer runs dry.
+ * The timeline is mapped to local time through the least delayed snapshot buffered, so packets that
+ * arrive late or bunched up are smoothed out instead of replayed.
+ * The local player, dots and scores always come from the newest snapshot.
+ */
+export class SnapshotBuffer {
+  private snapshots: TimedSnapshot[] = [];
+  private interpolationDelayMs: number;
+  private maxExtrapolationMs: number;
+  private maxSnapshots: number;
+
+  constructor(options: SnapshotBufferOptions = {}) {
+    this.interpolationDelayMs = options.interpolationDelayMs ?? GAME_CONFIG.INTERPOLATION_DELAY_MS;
+    this.maxExtrapolationMs = options.maxExtrapolationMs ?? GAME_CONFIG.MAX_EXTRAPOLATION_MS;
+    this.maxSnapshots = options.maxSnapshots ?? 30;
+  }
+
+  /**
+   * Store a snapshot as it arrives from the server. `serverTime` is when the server took it,
+   * e.g. its tick times the tick interval.
+   */
+  push(state: MultiplayerGameState, serverTime: number, receivedAt: number = Date.now()): void {
+    // Nothing older than what we have can help
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (latest && serverTime <= latest.serverTime) return;
+
+    this.snapshots.push({ serverTime, offset: receivedAt - serverTime, state });
+
+    if (this.snapshots.length > this.maxSnapshots) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * State to render at `now`, or null before the first snapshot
+   */
+  sample(now: number = Date.now()): MultiplayerGameState | null {
+    if (this.snapshots.length === 0) return null;
+
+    const latest = this.snapshots[this.snapshots.length - 1];
+    const offset = Math.min(...this.snapshots.map(snapshot => snapshot.offset));
+    const renderTime = now - offset - this.interpolationDelayMs;
+
+    const players = latest.state.players.map(player => {
+      if (player.isCurrentPlayer) return player;
+
+      return this.samplePlayer(player, renderTime) ?? player;
+    });
+
+    return { ...latest.state, players };
+  }
+
+  /**
+   * Drop all snapshots (e.g. when a new match starts)
+   */
+  clear(): void {
+    this.snapshots = [];
+  }
+
+  private samplePlayer(player: MultiplayerPlayer, renderTime: number): MultiplayerPlayer | null {
+    const history = this.snapshots
+      .map(snapshot => ({
+        serverTime: snapshot.serverTime,
+        player: snapshot.state.players.find(p => p.id === player.id)
+      }))
+      .filter((entry): entry is { serverTime: number; player: MultiplayerPlayer } => !!entry.player);
+
+    if (history.length === 0) return null;
+
+    // Older than anything buffered, hold the oldest known position
+    if (renderTime <= history[0].serverTime) {
+      return this.withMotion(player, history[0].player.spinner.position, history[0].player.spinner.rotation);
+    }
+
+    const newest = history[history.length - 1];
+
+    // Buffer ran dry, dead-reckon from the newest snapshot
+    if (renderTime >= newest.serverTime) {
+      const elapsed = Math.min(renderTime - newest.serverTime, this.maxExtrapolationMs) / 1000;
+      const spinner = newest.player.spinner;
+      return this.withMotion(
+        player,
+        add(spinner.position, scale(spinner.velocity, elapsed)),
+        spinner.rotation + spinner.spinSpeed * elapsed
+      );
+    }
+
+    const afterIndex = history.findIndex(entry => entry.serverTime > renderTime);
+    const before = history[afterIndex - 1];
+    const after = history[afterIndex];
+    const t = (renderTime - before.serverTime) / (after.serverTime - before.serverTime);
+
+    return this.withMotion(
+      player,
+      lerp(before.player.spinner.position, after.player.spinner.position, t),
+      lerpAngle(before.player.spinner.rotation, after.player.spinner.rotation, t)
+    );
+  }
+
+  private withMotion(player: MultiplayerPlayer, position: Vector2, rotation: number): MultiplayerPlayer {
+    return {
+      ...player,
+      spinner: { ...player.spinner, position, rotation }
+    };
+  }
+
+  // Getters
+  get size(): number { return this.snapshots.length; }
+  get delayMs(): number { return this.interpolationDelayMs; }
+}
@@ -100,6 +100,7 @@ export interface HighScore {
 export enum StorageKeys {
   HIGH_SCORES = 'high_scores',
   SETTINGS = 'game_settings',
+  GUEST_TOKEN = 'guest_token',
 }
 
 /** Game settings */
@@ -162,6 +163,15 @@ export const GAME_CONFIG = {
   /** Rendering */
   TARGET_FPS: 60,
   CANVAS_SCALE: 1,
+
+  /** Multiplayer smoothing */
+  INTERPOLATION_DELAY_MS: 100, // Remote players are drawn this far in the past
+  MAX_EXTRAPOLATION_MS: 250,   // How far past the newest snapshot we dead-reckon
+
+  /** Clock sync */
+  CLOCK_SYNC_BURST: 5,              // Round trips right after connecting
+  CLOCK_SYNC_BURST_SPACING_MS: 100,
+  CLOCK_SYNC_INTERVAL_MS: 10000,    // Then one round trip this often
 } as const;
 
 /** Color constants */
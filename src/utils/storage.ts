@@ -141,6 +141,31 @@ export const updateSetting = async <K extends keyof GameSettings>(
   }
 };
 
+/**
+ * Save the signed guest token that identifies this player online
+ * @param token - Token issued by the multiplayer server
+ */
+export const saveGuestToken = async (token: string): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(StorageKeys.GUEST_TOKEN, token);
+  } catch (error) {
+    console.error('Failed to save guest token:', error);
+  }
+};
+
+/**
+ * Load the signed guest token, if this device has signed in before
+ * @returns Guest token or null
+ */
+export const loadGuestToken = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(StorageKeys.GUEST_TOKEN);
+  } catch (error) {
+    console.error('Failed to load guest token:', error);
+    return null;
+  }
+};
+
 /**
  * Clear all stored data (for testing/reset)
  */